@@ -0,0 +1,303 @@
+/* eslint-disable no-console */
+//
+// Headless install check
+//
+// Runs a mod through the installer pipeline without Vortex, using the
+// shimmed Vortex API. Useful for checking packaging before uploading.
+//
+//   npm run check-install -- <mod dir | file listing> [options]
+//
+//   --json                        Print the result as JSON instead of text
+//   --on-dialog=fail|proceed|cancel
+//                                 What to do when the installer asks something (default: fail)
+//   --autoconvert                 Install with REDmod autoconversion enabled
+//   --detect-ambiguous            Check every installer, not just the first match
+//   --game-version=<version>      Game version to pick version-specific dirs for (default: unknown)
+//
+// A file listing is a text file with one relative path per line, directories
+// ending in a path separator, like Vortex gives them to the installer. Installers
+// that need file contents can only read them when given a directory.
+//
+import fs from "fs";
+import path from "path";
+import {
+  register,
+} from "tsconfig-paths";
+
+// Needs to happen before anything from src/ is loaded
+register({
+  baseUrl: path.join(__dirname, `..`),
+  paths: {
+    "@vortex-api-test-shimmed": [`test/shimmed/vortex-api-test-shimmed`],
+  },
+});
+
+/* eslint-disable import/first */
+import {
+  FeatureSet,
+  FeatureState,
+  StaticFeaturesForStartup,
+} from "../src/features";
+import {
+  GAME_ID,
+} from "../src/index.metadata";
+import {
+  internalPipelineInstaller,
+  UNKNOWN_GAME_VERSION,
+  wrapInstall,
+} from "../src/installers";
+import {
+  InstallReport,
+  installReportFrom,
+  isInstallReportInstruction,
+} from "../src/installers.report";
+import {
+  InstallChoices,
+} from "../src/ui.dialogs";
+import {
+  squashAllWhitespace,
+} from "../src/util.functions";
+import {
+  VortexDialogResult,
+  VortexExtensionContext,
+  VortexInstruction,
+} from "../src/vortex-wrapper";
+/* eslint-enable import/first */
+
+
+const enum DialogAnswer {
+  Fail = `fail`,
+  Proceed = `proceed`,
+  Cancel = `cancel`,
+}
+
+interface CheckOptions {
+  readonly modPath: string;
+  readonly json: boolean;
+  readonly onDialog: DialogAnswer;
+  readonly autoconvert: boolean;
+  readonly detectAmbiguous: boolean;
+  readonly gameVersion: string;
+}
+
+interface DialogSeen {
+  readonly title: string;
+  readonly answer: string;
+}
+
+interface CheckResult {
+  readonly success: boolean;
+  readonly error?: string;
+  readonly report?: InstallReport;
+  readonly instructions: VortexInstruction[];
+  readonly dialogs: DialogSeen[];
+}
+
+const USAGE = `Usage: check-install <mod dir | file listing> [--json] [--on-dialog=fail|proceed|cancel] `
+  + `[--autoconvert] [--detect-ambiguous] [--game-version=<version>]`;
+
+//
+// Input
+//
+
+const parseArgs = (args: string[]): CheckOptions => {
+  const flags = args.filter((arg) => arg.startsWith(`--`));
+  const positionals = args.filter((arg) => !arg.startsWith(`--`));
+
+  const onDialogFlag = flags.find((flag) => flag.startsWith(`--on-dialog=`));
+  const onDialog = onDialogFlag?.replace(`--on-dialog=`, ``) ?? DialogAnswer.Fail;
+
+  const gameVersionFlag = flags.find((flag) => flag.startsWith(`--game-version=`));
+
+  if (positionals.length !== 1
+    || ![DialogAnswer.Fail, DialogAnswer.Proceed, DialogAnswer.Cancel].includes(onDialog as DialogAnswer)) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  return {
+    modPath: path.resolve(positionals[0]),
+    json: flags.includes(`--json`),
+    onDialog: onDialog as DialogAnswer,
+    autoconvert: flags.includes(`--autoconvert`),
+    detectAmbiguous: flags.includes(`--detect-ambiguous`),
+    gameVersion: gameVersionFlag?.replace(`--game-version=`, ``) ?? UNKNOWN_GAME_VERSION,
+  };
+};
+
+const relativePathsUnder = (baseDir: string, dir: string = baseDir): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(baseDir, fullPath);
+
+    return entry.isDirectory()
+      ? [path.join(relativePath, path.sep), ...relativePathsUnder(baseDir, fullPath)]
+      : [relativePath];
+  });
+
+const relativePathsFromListing = (listingPath: string): string[] =>
+  fs.readFileSync(listingPath, { encoding: `utf-8` })
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== ``)
+    .map((line) => path.normalize(line));
+
+//
+// Fake Vortex
+//
+
+const answerFor = (onDialog: DialogAnswer, labels: string[]): string => {
+  if (onDialog === DialogAnswer.Proceed) {
+    return labels.includes(InstallChoices.Proceed) ? InstallChoices.Proceed : labels[labels.length - 1];
+  }
+
+  return labels.includes(InstallChoices.Cancel) ? InstallChoices.Cancel : labels[0];
+};
+
+const headlessVortexContext = (
+  options: CheckOptions,
+  dialogs: DialogSeen[],
+): VortexExtensionContext => {
+  const api = {
+    getState: () => ({ settings: { automation: { enable: false, deploy: false } } }),
+    sendNotification: () => undefined,
+    emitAndAwait: () => Promise.resolve(),
+    showDialog: (
+      _type: string,
+      title: string,
+      content: { checkboxes?: { id: string, value: boolean }[] },
+      actions: { label: string }[],
+    ) => {
+      if (options.onDialog === DialogAnswer.Fail) {
+        dialogs.push({ title, answer: `(failed)` });
+        return Promise.reject(new Error(`Installer asked a question, failing as requested: ${title}`));
+      }
+
+      const answer = answerFor(options.onDialog, actions.map((action) => action.label));
+      dialogs.push({ title, answer });
+
+      // Leave any checkboxes as the installer suggested
+      const input = Object.fromEntries((content.checkboxes ?? []).map((checkbox) => [checkbox.id, checkbox.value]));
+
+      const result: VortexDialogResult = { action: answer, input };
+      return Promise.resolve(result);
+    },
+  };
+
+  return { api } as unknown as VortexExtensionContext;
+};
+
+const headlessLog = (level: string, message: string, ...details: unknown[]): void => {
+  if (process.env.DEBUG) {
+    console.error(`[${level}] ${message}`, ...details);
+  }
+};
+
+//
+// Check
+//
+
+const featuresFor = (options: CheckOptions): FeatureSet => ({
+  ...StaticFeaturesForStartup,
+  InstallReport: FeatureState.Enabled,
+  REDmodAutoconvertArchives: () => (options.autoconvert ? FeatureState.Enabled : FeatureState.Disabled),
+  DetectAmbiguousInstallers: () => (options.detectAmbiguous ? FeatureState.Enabled : FeatureState.Disabled),
+  VariantSelection: () => FeatureState.Enabled,
+});
+
+const checkInstall = async (options: CheckOptions): Promise<CheckResult> => {
+  const modPathIsDir = fs.statSync(options.modPath).isDirectory();
+
+  const files = modPathIsDir
+    ? relativePathsUnder(options.modPath)
+    : relativePathsFromListing(options.modPath);
+
+  // The mod name is parsed from the dir name, so it needs to look like one
+  const installingDir = modPathIsDir
+    ? options.modPath
+    : `${options.modPath.replace(path.extname(options.modPath), ``)}.installing`;
+
+  const dialogs: DialogSeen[] = [];
+
+  const install = wrapInstall(
+    headlessVortexContext(options, dialogs),
+    { log: headlessLog },
+    internalPipelineInstaller,
+    featuresFor(options),
+    () => Promise.resolve(options.gameVersion),
+  );
+
+  try {
+    const result = await install(files, installingDir, GAME_ID, undefined);
+
+    return {
+      success: true,
+      report: installReportFrom(result.instructions),
+      instructions: result.instructions.filter((instruction) => !isInstallReportInstruction(instruction)),
+      dialogs,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `${error}`,
+      instructions: [],
+      dialogs,
+    };
+  }
+};
+
+//
+// Output
+//
+
+const describeInstruction = (instruction: VortexInstruction): string => {
+  switch (instruction.type) {
+    case `copy`:
+      return `copy      ${instruction.source} -> ${instruction.destination}`;
+    case `generatefile`:
+      return `generate  ${instruction.destination}`;
+    case `mkdir`:
+      return `mkdir     ${instruction.destination}`;
+    case `attribute`:
+      return `attribute ${instruction.key}`;
+    default:
+      return `${instruction.type} ${instruction.source ?? ``} ${instruction.destination ?? ``}`;
+  }
+};
+
+const resultAsText = (result: CheckResult): string => {
+  const { report } = result;
+
+  const lines = [
+    result.success ? `Install OK` : `Install FAILED: ${result.error}`,
+    ...(report
+      ? [
+        `Installer: ${report.installerUsed}`,
+        ...report.layoutAttempts
+          .filter((attempt) => attempt.matched)
+          .map((attempt) => `Layout:    ${squashAllWhitespace(attempt.result).trim()}`),
+        ...(report.giftwrapUnwrappedFrom !== null ? [`Unwrapped: ${report.giftwrapUnwrappedFrom}`] : []),
+        ...(report.gameVersionDirSelected !== null ? [`Game version dir: ${report.gameVersionDirSelected}`] : []),
+        ...(report.selectedVariants !== null ? [`Variants:  ${report.selectedVariants.join(`, `)}`] : []),
+        ...(report.extraFilesLayoutUsed !== null ? [`Extra files: ${report.extraFilesLayoutUsed}`] : []),
+      ]
+      : []),
+    ...result.dialogs.map((dialog) => `Dialog:    ${dialog.title} -> ${dialog.answer}`),
+    ...(result.instructions.length > 0 ? [``, `Instructions:`] : []),
+    ...result.instructions.map((instruction) => `  ${describeInstruction(instruction)}`),
+  ];
+
+  return lines.join(`\n`);
+};
+
+const main = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+
+  const result = await checkInstall(options);
+
+  console.log(options.json ? JSON.stringify(result, null, 2) : resultAsText(result));
+
+  process.exitCode = result.success ? 0 : 1;
+};
+
+main();
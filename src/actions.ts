@@ -3,6 +3,10 @@ import {
   ComplexActionCreator1,
   createAction,
 } from 'redux-act';
+import {
+  REDdeployQueueState,
+  REDmodDeployResult,
+} from './redmodding.types';
 
 export type SettingAction = ComplexActionCreator1<boolean, boolean>;
 
@@ -11,3 +15,37 @@ export const setREDmodAutoconvertArchivesAction: SettingAction =
     `SET_REDMOD_AUTOCONVERT_ARCHIVES`,
     (enabled: boolean): boolean => enabled,
   );
+
+export const setDetectAmbiguousInstallersAction: SettingAction =
+  createAction<boolean, boolean>(
+    `SET_DETECT_AMBIGUOUS_INSTALLERS`,
+    (enabled: boolean): boolean => enabled,
+  );
+
+export const setVariantSelectionAction: SettingAction =
+  createAction<boolean, boolean>(
+    `SET_VARIANT_SELECTION`,
+    (enabled: boolean): boolean => enabled,
+  );
+
+export const setGroupREDmodsByVortexModAction: SettingAction =
+  createAction<boolean, boolean>(
+    `SET_GROUP_REDMODS_BY_VORTEX_MOD`,
+    (enabled: boolean): boolean => enabled,
+  );
+
+export type REDmodDeployResultAction = ComplexActionCreator1<REDmodDeployResult, REDmodDeployResult>;
+
+export const setLastREDmodDeployResultAction: REDmodDeployResultAction =
+  createAction<REDmodDeployResult, REDmodDeployResult>(
+    `SET_LAST_REDMOD_DEPLOY_RESULT`,
+    (result: REDmodDeployResult): REDmodDeployResult => result,
+  );
+
+export type REDdeployQueueStateAction = ComplexActionCreator1<REDdeployQueueState, REDdeployQueueState>;
+
+export const setREDdeployQueueStateAction: REDdeployQueueStateAction =
+  createAction<REDdeployQueueState, REDdeployQueueState>(
+    `SET_REDDEPLOY_QUEUE_STATE`,
+    (queueState: REDdeployQueueState): REDdeployQueueState => queueState,
+  );
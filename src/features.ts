@@ -47,11 +47,15 @@ export const enum StaticFeature {
   REDmodding = `v2077_feature_redmodding`,
   REDmodLoadOrder = `v2077_feature_redmod_load_order`,
   REDmodAutoconversionTag = `v2077_feature_redmod_autoconversion_tag`,
+  InstallReport = `v2077_feature_install_report`,
 }
 
 // Need to be underscored since it isn't always just a string... thanks react...
 export const enum DynamicFeature {
   REDmodAutoconvertArchives = `v2077_feature_redmod_autoconvert_archives`,
+  DetectAmbiguousInstallers = `v2077_feature_detect_ambiguous_installers`,
+  VariantSelection = `v2077_feature_variant_selection`,
+  GroupREDmodsByVortexMod = `v2077_feature_group_redmods_by_vortex_mod`,
 }
 
 export type FeatureSettingsPathInVortex = Record<keyof typeof DynamicFeature, string[]>;
@@ -76,7 +80,11 @@ export const BaselineFeatureSetForTests: FeatureSet = {
   REDmodding: FeatureState.Disabled,
   REDmodLoadOrder: FeatureState.Disabled,
   REDmodAutoconversionTag: FeatureState.Enabled,
+  InstallReport: FeatureState.Disabled,
   REDmodAutoconvertArchives: () => FeatureState.Disabled,
+  DetectAmbiguousInstallers: () => FeatureState.Disabled,
+  VariantSelection: () => FeatureState.Disabled,
+  GroupREDmodsByVortexMod: () => FeatureState.Disabled,
 };
 
 export const StaticFeaturesForStartup: VersionedStaticFeatureSet = {
@@ -84,6 +92,7 @@ export const StaticFeaturesForStartup: VersionedStaticFeatureSet = {
   REDmodding: FeatureState.Enabled,
   REDmodLoadOrder: FeatureState.Enabled,
   REDmodAutoconversionTag: FeatureState.Disabled,
+  InstallReport: FeatureState.Enabled,
 };
 
 
@@ -93,6 +102,9 @@ export const StaticFeaturesForStartup: VersionedStaticFeatureSet = {
 
 export const DefaultEnabledStateForDynamicFeatures: DynamicFeatureDefaults = {
   [DynamicFeature.REDmodAutoconvertArchives]: false,
+  [DynamicFeature.DetectAmbiguousInstallers]: false,
+  [DynamicFeature.VariantSelection]: true,
+  [DynamicFeature.GroupREDmodsByVortexMod]: false,
 };
 
 
@@ -139,5 +151,17 @@ export const FullFeatureSetFromStaticAndDynamic = (
     boolAsFeature(
       storeGetDynamicFeature(storeUtil, DynamicFeature.REDmodAutoconvertArchives, vortexExtApi.store.getState()),
     ),
+  DetectAmbiguousInstallers: () =>
+    boolAsFeature(
+      storeGetDynamicFeature(storeUtil, DynamicFeature.DetectAmbiguousInstallers, vortexExtApi.store.getState()),
+    ),
+  VariantSelection: () =>
+    boolAsFeature(
+      storeGetDynamicFeature(storeUtil, DynamicFeature.VariantSelection, vortexExtApi.store.getState()),
+    ),
+  GroupREDmodsByVortexMod: () =>
+    boolAsFeature(
+      storeGetDynamicFeature(storeUtil, DynamicFeature.GroupREDmodsByVortexMod, vortexExtApi.store.getState()),
+    ),
 });
 
@@ -399,8 +399,10 @@ export const findDirectSubdirsWithSome = (
  * @returns A FileTree with the parent most node at the given directory
  */
 export const subtreeFrom = (dir: string, fileTree: FileTree): FileTree => {
+  const dirDepth = stripTrailingSeparator(nodejsPath.normalize(dir)).split(nodejsPath.sep).length;
+
   const subtreeFiles = filesUnder(dir, Glob.Any, fileTree).map((path) =>
-    nodejsPath.join(...path.split(nodejsPath.sep).slice(1)));
+    nodejsPath.join(...path.split(nodejsPath.sep).slice(dirDepth)));
 
   return fileTreeFromPaths(subtreeFiles);
 };
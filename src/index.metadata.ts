@@ -23,6 +23,12 @@ export const V2077_DIR = `V2077`;
 export const V2077_GENERATED_MOD_NAME_TAG = ` (${EXTENSION_NAME_INTERNAL})`;
 export const V2077_GENERATED_MOD_VERSION_PRERELEASE = EXTENSION_NAME_INTERNAL;
 
+// Other extensions can emit this with a `PipelineInstallerRegistration`
+// (and optionally a callback taking an error) to add their installer
+export const V2077_EVENT_REGISTER_PIPELINE_INSTALLER = `${EXTENSION_NAME_INTERNAL}-register-pipeline-installer`;
+
 export const VORTEX_STORE_PATHS = {
   settings: [`settings`, `v2077`],
+  session: [`session`, `v2077`],
+  persistent: [`persistent`, `v2077`],
 };
@@ -22,6 +22,7 @@ import {
 } from "fp-ts/lib/Option";
 import {
   mapLeft,
+  match as matchE,
 } from "fp-ts/lib/Either";
 import {
   EPICAPP_ID,
@@ -32,6 +33,7 @@ import {
   GOGAPP_ID,
   STEAMAPP_ID,
   V2077_DIR,
+  V2077_EVENT_REGISTER_PIPELINE_INSTALLER,
   VORTEX_STORE_PATHS,
 } from "./index.metadata";
 import {
@@ -47,6 +49,9 @@ import {
   wrapTestSupported,
   wrapInstall,
   internalPipelineInstaller,
+  registerInstallerInPipeline,
+  PipelineInstallerRegistration,
+  UNKNOWN_GAME_VERSION,
 } from "./installers";
 import {
   VortexDiscoveryResult,
@@ -65,6 +70,16 @@ import {
   wrapSerialize,
   loadOrderUsageInstructionsForVortexGui,
 } from "./load_order";
+import {
+  exportLoadOrder,
+  importLoadOrder,
+} from "./load_order.portable";
+import {
+  sortLoadOrderUsingMasterlist,
+} from "./load_order.masterlist";
+import {
+  copyLoadOrderFromAnotherProfile,
+} from "./load_order.profiles";
 import {
   constant,
   alwaysTrue,
@@ -79,7 +94,14 @@ import {
   informUserZeroNineZeroChanges,
 } from "./ui.dialogs";
 import settingsComponent from './views/settings'; // eslint-disable-line import/extensions
+import archiveLoadOrderComponent from './views/archive-load-order'; // eslint-disable-line import/extensions
+import loadOrderHistoryComponent from './views/load-order-history'; // eslint-disable-line import/extensions
+import redmodDeploymentComponent from './views/redmod-deployment'; // eslint-disable-line import/extensions
+import profileLoadOrdersComponent from './views/profile-load-orders'; // eslint-disable-line import/extensions
+import loadOrderItemComponent from './views/load-order-item'; // eslint-disable-line import/extensions
 import {
+  makePersistentReducer,
+  makeSessionReducer,
   makeSettingsReducer,
 } from './reducers';
 import * as REDmoddingTools from "./tools.redmodding";
@@ -180,11 +202,21 @@ const getGameVersion = async (gamePath: string): Promise<string> => {
       return fileVer;
     } catch (fileErr) {
       vortexApiLib.log(`error`, `Failed to get file version for Cyberpunk EXE`, fileErr);
-      return `0.0.0`;
+      return UNKNOWN_GAME_VERSION;
     }
   }
 };
 
+const currentGameVersionFor = (vortexExt: VortexExtensionContext) =>
+  async (): Promise<string> => {
+    const discovery: VortexDiscoveryResult =
+      vortexApiLib.selectors.discoveryByGame(vortexExt.api.getState(), GAME_ID);
+
+    return discovery?.path !== undefined
+      ? getGameVersion(discovery.path)
+      : UNKNOWN_GAME_VERSION;
+  };
+
 //
 // Register extension in entry point
 //
@@ -270,6 +302,7 @@ const main = (vortexExt: VortexExtensionContext): boolean => {
       vortexApiLib,
       internalPipelineInstaller,
       fullFeatureSetAvailablePostStartup,
+      currentGameVersionFor(vortexExt),
     ),
   );
 
@@ -290,20 +323,74 @@ const main = (vortexExt: VortexExtensionContext): boolean => {
       vortexExt.registerLoadOrder({
         gameId: GAME_ID,
 
-        // This needs to be actually implemented, it doesnt't do
-        // anything on its own, so leave it out now to avoid confusion
-        //
-        // toggleableEntries: true,
-        //
+        // Unticking a REDmod leaves it out of the modlist, see `userDisabled`
+        toggleableEntries: true,
+        customItemRenderer: loadOrderItemComponent,
         usageInstructions: loadOrderUsageInstructionsForVortexGui,
         validate: wrapValidate(vortexExt, vortexApiLib, internalLoadOrderer),
         deserializeLoadOrder: wrapDeserialize(vortexExt, vortexApiLib, internalLoadOrderer),
         serializeLoadOrder: wrapSerialize(vortexExt, vortexApiLib, internalLoadOrderer),
       });
 
+      const isActiveGame = (): boolean =>
+        vortexApiLib.selectors.activeGameId(vortexExt.api.store.getState()) === GAME_ID;
+
+      const logFailureOf = (what: string) => (error: Error): void => {
+        vortexApiLib.log(`error`, `${EXTENSION_NAME_INTERNAL}: ${what} failed`, error.message);
+      };
+
+      vortexExt.registerAction(`fb-load-order-icons`, 200, `import`, {}, `Import Load Order...`, () => {
+        importLoadOrder({ ...vortexExt.api, log: vortexApiLib.log }).catch(logFailureOf(`Load order import`));
+      }, isActiveGame);
+
+      vortexExt.registerAction(`fb-load-order-icons`, 201, `export`, {}, `Export Load Order...`, () => {
+        exportLoadOrder({ ...vortexExt.api, log: vortexApiLib.log }).catch(logFailureOf(`Load order export`));
+      }, isActiveGame);
+
+      vortexExt.registerAction(`fb-load-order-icons`, 202, `sort-none`, {}, `Sort Using Masterlist...`, () => {
+        sortLoadOrderUsingMasterlist({ ...vortexExt.api, log: vortexApiLib.log })
+          .catch(logFailureOf(`Masterlist sort`));
+      }, isActiveGame);
+
+      vortexExt.registerAction(`fb-load-order-icons`, 203, `clone`, {}, `Copy From Profile...`, () => {
+        copyLoadOrderFromAnotherProfile({ ...vortexExt.api, log: vortexApiLib.log })
+          .catch(logFailureOf(`Load order copy`));
+      }, isActiveGame);
+
+      // Heritage archives can't go in the REDmod load order, so they get their own page
+      vortexExt.registerMainPage(`sort-none`, `Archive Load Order`, archiveLoadOrderComponent, {
+        id: `${EXTENSION_NAME_INTERNAL}-archive-load-order`,
+        group: `per-game`,
+        visible: isActiveGame,
+        props: () => ({ api: { ...vortexExt.api, log: vortexApiLib.log } }),
+      });
+
+      vortexExt.registerMainPage(`history`, `Load Order History`, loadOrderHistoryComponent, {
+        id: `${EXTENSION_NAME_INTERNAL}-load-order-history`,
+        group: `per-game`,
+        visible: isActiveGame,
+        props: () => ({ api: { ...vortexExt.api, log: vortexApiLib.log } }),
+      });
+
+      vortexExt.registerMainPage(`profile`, `Profile Load Orders`, profileLoadOrdersComponent, {
+        id: `${EXTENSION_NAME_INTERNAL}-profile-load-orders`,
+        group: `per-game`,
+        visible: isActiveGame,
+        props: () => ({ api: { ...vortexExt.api, log: vortexApiLib.log } }),
+      });
+
+      vortexExt.registerMainPage(`deploy`, `REDmod Deployment`, redmodDeploymentComponent, {
+        id: `${EXTENSION_NAME_INTERNAL}-redmod-deployment`,
+        group: `per-game`,
+        visible: isActiveGame,
+        props: () => ({ api: { ...vortexExt.api, log: vortexApiLib.log } }),
+      });
+
     } // if (IsFeatureEnabled(StaticFeaturesForStartup.REDmodLoadOrder))
 
     vortexExt.registerReducer(VORTEX_STORE_PATHS.settings, makeSettingsReducer(DefaultEnabledStateForDynamicFeatures));
+    vortexExt.registerReducer(VORTEX_STORE_PATHS.session, makeSessionReducer());
+    vortexExt.registerReducer(VORTEX_STORE_PATHS.persistent, makePersistentReducer());
 
     vortexExt.registerSettings(`V2077 Settings`, settingsComponent, undefined, () => {
       const state = vortexExt.api.store.getState();
@@ -355,6 +442,27 @@ const main = (vortexExt: VortexExtensionContext): boolean => {
       vortexApiLib.log(`info`, `${EXTENSION_NAME_INTERNAL} Vortex Extension Detes: ${extensionDetesForDebugging}`);
     });
 
+    vortexExt.api.events.on(
+      V2077_EVENT_REGISTER_PIPELINE_INSTALLER,
+      (registration: PipelineInstallerRegistration, callback?: (err?: Error) => void) => {
+        pipe(
+          registerInstallerInPipeline(registration),
+          matchE(
+            (err) => {
+              vortexApiLib.log(`error`, `${EXTENSION_NAME_INTERNAL}: Failed to register installer`, err.message);
+              callback?.(err);
+            },
+            (pipeline) => {
+              vortexApiLib.log(`info`, `${EXTENSION_NAME_INTERNAL}: Registered ${registration.installer.id}`, {
+                pipeline: pipeline.map((installer) => `${installer.priority}: ${installer.id}`),
+              });
+              callback?.();
+            },
+          ),
+        );
+      },
+    );
+
     vortexExt.api.onAsync(`did-deploy`, (profileId) => {
       const state = vortexExt.api.store.getState();
       const profile = vortexApiLib.selectors.profileById(state, profileId);
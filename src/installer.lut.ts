@@ -0,0 +1,198 @@
+import path from "path";
+import {
+  VortexApi,
+  VortexTestResult,
+  VortexInstallResult,
+} from "./vortex-wrapper";
+import {
+  dirWithSomeUnder,
+  FileTree,
+  FILETREE_ROOT,
+  filesIn,
+  filesUnder,
+  Glob,
+} from "./filetree";
+import {
+  ARCHIVE_MOD_CANONICAL_PREFIX,
+  ARCHIVE_MOD_FILE_EXTENSION,
+  CONFIG_RESHADE_MOD_SHADER_BASEDIR,
+  CONFIG_RESHADE_MOD_SHADER_DIRNAME,
+  LUTLayout,
+  LUT_MOD_CANON_DIR,
+  LUT_MOD_FILENAME_MATCHER,
+  LUT_MOD_RESHADE_TEXTURE_DIRNAME,
+  LUT_MOD_RESHADE_TEXTURE_EXTENSIONS,
+  LUT_MOD_TEXTURE_EXTENSIONS,
+  LUT_MOD_TOPLEVEL_EXTENSIONS,
+  MaybeInstructions,
+  NoInstructions,
+  InvalidLayout,
+} from "./installers.layouts";
+import {
+  instructionsForSameSourceAndDestPaths,
+  instructionsForSourceToDestPairs,
+  moveFromTo,
+  useFirstMatchingLayoutForInstructions,
+} from "./installers.shared";
+import {
+  InstallerType,
+  ModInfo,
+  V2077InstallFunc,
+  V2077TestFunc,
+} from "./installers.types";
+import {
+  promptToFallbackOrFailOnUnresolvableLayout,
+} from "./installer.fallback";
+import {
+  FeatureSet,
+} from "./features";
+
+const matchLutTexture = (filePath: string): boolean =>
+  LUT_MOD_TEXTURE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+const matchToplevelLutFile = (filePath: string): boolean =>
+  LUT_MOD_TOPLEVEL_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+  && LUT_MOD_FILENAME_MATCHER.test(path.basename(filePath));
+
+const matchReshadeLutTexture = (filePath: string): boolean =>
+  LUT_MOD_RESHADE_TEXTURE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+  && LUT_MOD_FILENAME_MATCHER.test(path.basename(filePath));
+
+// Reshade can be either at toplevel or already in the game dir
+const RESHADE_SHADER_DIRS = [
+  CONFIG_RESHADE_MOD_SHADER_DIRNAME,
+  CONFIG_RESHADE_MOD_SHADER_BASEDIR,
+];
+
+const findLutCanonFiles = (fileTree: FileTree): string[] =>
+  filesUnder(LUT_MOD_CANON_DIR, Glob.Any, fileTree);
+
+const findLutToplevelFiles = (fileTree: FileTree): string[] =>
+  filesIn(FILETREE_ROOT, matchToplevelLutFile, fileTree);
+
+const findReshadeDirWithLuts = (fileTree: FileTree): string | undefined =>
+  RESHADE_SHADER_DIRS.find((dir) =>
+    filesIn(path.join(dir, LUT_MOD_RESHADE_TEXTURE_DIRNAME), matchReshadeLutTexture, fileTree).length > 0);
+
+const detectLutCanonLayout = (fileTree: FileTree): boolean =>
+  dirWithSomeUnder(LUT_MOD_CANON_DIR, matchLutTexture, fileTree);
+
+const detectLutToplevelLayout = (fileTree: FileTree): boolean =>
+  findLutToplevelFiles(fileTree).length > 0;
+
+const detectLutReshadeLayout = (fileTree: FileTree): boolean =>
+  findReshadeDirWithLuts(fileTree) !== undefined;
+
+//
+// Layouts
+//
+
+const lutCanonLayout = (
+  _api: VortexApi,
+  _modName: string,
+  fileTree: FileTree,
+): MaybeInstructions => {
+  if (!detectLutCanonLayout(fileTree)) {
+    return NoInstructions.NoMatch;
+  }
+
+  return {
+    kind: LUTLayout.Canon,
+    instructions: instructionsForSameSourceAndDestPaths(findLutCanonFiles(fileTree)),
+  };
+};
+
+const lutToplevelLayout = (
+  _api: VortexApi,
+  _modName: string,
+  fileTree: FileTree,
+): MaybeInstructions => {
+  const allToplevelLutFiles = findLutToplevelFiles(fileTree);
+
+  if (allToplevelLutFiles.length < 1) {
+    return NoInstructions.NoMatch;
+  }
+
+  // Packs are archives like any other, the rest go where the textures go
+  const toCanonDirFor = (filePath: string): string =>
+    (path.extname(filePath).toLowerCase() === ARCHIVE_MOD_FILE_EXTENSION
+      ? ARCHIVE_MOD_CANONICAL_PREFIX
+      : LUT_MOD_CANON_DIR);
+
+  return {
+    kind: LUTLayout.Toplevel,
+    instructions: instructionsForSourceToDestPairs(
+      allToplevelLutFiles.map((filePath) => moveFromTo(FILETREE_ROOT, toCanonDirFor(filePath))(filePath)),
+    ),
+  };
+};
+
+const lutReshadeLayout = (
+  _api: VortexApi,
+  _modName: string,
+  fileTree: FileTree,
+): MaybeInstructions => {
+  const reshadeDir = findReshadeDirWithLuts(fileTree);
+
+  if (reshadeDir === undefined) {
+    return NoInstructions.NoMatch;
+  }
+
+  const allReshadeFiles = filesUnder(reshadeDir, Glob.Any, fileTree);
+
+  return {
+    kind: LUTLayout.Reshade,
+    instructions: instructionsForSourceToDestPairs(
+      allReshadeFiles.map(moveFromTo(reshadeDir, CONFIG_RESHADE_MOD_SHADER_BASEDIR)),
+    ),
+  };
+};
+
+// testSupport
+
+export const testForLutMod: V2077TestFunc = (
+  _api: VortexApi,
+  fileTree: FileTree,
+): Promise<VortexTestResult> =>
+  Promise.resolve({
+    supported:
+      detectLutCanonLayout(fileTree)
+      || detectLutToplevelLayout(fileTree)
+      || detectLutReshadeLayout(fileTree),
+    requiredFiles: [],
+  });
+
+// install
+
+export const installLutMod: V2077InstallFunc = async (
+  api: VortexApi,
+  fileTree: FileTree,
+  _modInfo: ModInfo,
+  _features: FeatureSet,
+): Promise<VortexInstallResult> => {
+  const selectedInstructions = useFirstMatchingLayoutForInstructions(
+    api,
+    undefined,
+    fileTree,
+    [
+      lutCanonLayout,
+      lutToplevelLayout,
+      lutReshadeLayout,
+    ],
+  );
+
+  if (
+    selectedInstructions === NoInstructions.NoMatch
+    || selectedInstructions === InvalidLayout.Conflict
+  ) {
+    return promptToFallbackOrFailOnUnresolvableLayout(
+      api,
+      InstallerType.LUT,
+      fileTree,
+    );
+  }
+
+  return Promise.resolve({
+    instructions: selectedInstructions.instructions,
+  });
+};
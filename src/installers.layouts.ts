@@ -395,6 +395,23 @@ export const CONFIG_RESHADE_MOD_SHADER_BASEDIR = path.join(
   CONFIG_RESHADE_MOD_SHADER_DIRNAME,
 );
 
+// LUT (color grading)
+
+export const enum LUTLayout {
+  Canon = `.\\engine\\textures\\lut\\*.{dds,xbm} + [any files + subdirs]`,
+  Toplevel = `.\\*lut*.{dds,xbm,archive}`,
+  Reshade = `.\\[bin\\x64\\]reshade-shaders\\Textures\\*lut*.{png,dds} + [any files + subdirs]`,
+}
+
+export const LUT_MOD_CANON_DIR = path.join(`engine`, `textures`, `lut`);
+export const LUT_MOD_TEXTURE_EXTENSIONS = [`.dds`, `.xbm`];
+export const LUT_MOD_TOPLEVEL_EXTENSIONS = [...LUT_MOD_TEXTURE_EXTENSIONS, ARCHIVE_MOD_FILE_EXTENSION];
+// Not a plain /lut/ because that's also in `absolute`, `evolution`...
+export const LUT_MOD_FILENAME_MATCHER = /(?<![a-z])luts?|luts?(?![a-z])/i;
+
+export const LUT_MOD_RESHADE_TEXTURE_DIRNAME = `Textures`;
+export const LUT_MOD_RESHADE_TEXTURE_EXTENSIONS = [`.png`, `.dds`];
+
 // ASI
 
 export const enum AsiLayout {
@@ -1084,6 +1101,21 @@ export const LayoutDescriptions = new Map<InstallerType, string>([
     - \`${REDmodTransformedLayout.Archive}\`
     `,
   ],
+  [
+    InstallerType.LUT,
+    `
+    - \`${LUTLayout.Canon}\` (Canonical)
+    - \`${LUTLayout.Toplevel}\` (Can be fixed to canonical)
+    - \`${LUTLayout.Reshade}\` (ReShade LUTs)
+
+    LUT textures at toplevel go in \`.\\${LUT_MOD_CANON_DIR}\\\`, and LUT
+    packs that are \`.archive\` files go in \`.\\${ARCHIVE_MOD_CANONICAL_PREFIX}\`.
+    To be recognized at toplevel, the file names need to have 'LUT' in them.
+
+    ReShade LUTs that come with a preset \`.ini\` are installed by the
+    INI installer instead, together with the preset.
+    `,
+  ],
   [
     InstallerType.Archive,
     `
@@ -1184,6 +1216,7 @@ export type Layout =
   | REDmodLayout
   | REDmodTransformedLayout
   | TweakXLLayout
+  | LUTLayout
   | PresetLayout
   | ArchiveLayout
   | FallbackLayout
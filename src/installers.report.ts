@@ -0,0 +1,182 @@
+import {
+  Layout,
+  MaybeInstructions,
+} from "./installers.layouts";
+import {
+  InstallerType,
+  ModAttributeKey,
+  ModAttributeValue,
+} from "./installers.types";
+import {
+  VortexApi,
+  VortexInstruction,
+  VortexTestResult,
+} from "./vortex-wrapper";
+
+
+//
+// Install reports
+//
+// Explains what the pipeline did to arrive at the instructions it gave
+// Vortex: which installers were asked, which layouts were tried, and
+// which special cases (giftwrap, variants, game version dirs, extra
+// files, fallback) kicked in.
+//
+// The recorder is keyed by the per-install `VortexApi` object that
+// `wrapInstall` creates, because that's the only thing every layout
+// and installer function already receives. Nothing is recorded unless
+// a report has been started for that object.
+//
+// The finished report is stored as an attribute on the mod, so it stays
+// with the mod it's about and isn't deployed anywhere.
+//
+
+export const INSTALL_REPORT_FORMAT_VERSION = `1.0.0`;
+
+export interface InstallerCandidateReport {
+  readonly installer: InstallerType;
+  readonly supported: boolean;
+  readonly requiredFiles: string[];
+}
+
+export interface LayoutAttemptReport {
+  readonly layout: string;
+  readonly matched: boolean;
+  readonly result: Layout | MaybeInstructions;
+}
+
+export interface InstructionReport {
+  readonly type: string;
+  readonly source?: string;
+  readonly destination?: string;
+  readonly key?: string;
+}
+
+export interface InstallReport {
+  readonly reportFormatVersion: string;
+  readonly modName: string;
+  readonly installerUsed: InstallerType;
+  readonly candidates: InstallerCandidateReport[];
+  readonly layoutAttempts: LayoutAttemptReport[];
+  readonly giftwrapUnwrappedFrom: string | null;
+  readonly selectedVariants: string[] | null;
+  readonly gameVersionDirSelected: string | null;
+  readonly extraFilesLayoutUsed: Layout | null;
+  readonly fallbackUsed: boolean;
+  readonly instructions: InstructionReport[];
+}
+
+interface InstallReportInProgress {
+  installerUsed?: InstallerType;
+  readonly candidates: InstallerCandidateReport[];
+  readonly layoutAttempts: LayoutAttemptReport[];
+}
+
+export interface InstallReportOutcome {
+  readonly modName: string;
+  readonly installerUsed: InstallerType;
+  readonly giftwrapUnwrappedFrom: string | undefined;
+  readonly selectedVariants: string[] | undefined;
+  readonly gameVersionDirSelected: string | undefined;
+  readonly extraFilesLayoutUsed: Layout | undefined;
+  readonly fallbackUsed: boolean;
+  readonly instructions: readonly VortexInstruction[];
+}
+
+const reportsInProgress = new WeakMap<VortexApi, InstallReportInProgress>();
+
+//
+// Recording
+//
+
+export const startInstallReport = (api: VortexApi): void => {
+  reportsInProgress.set(api, { candidates: [], layoutAttempts: [] });
+};
+
+export const recordInstallerCandidate = (
+  api: VortexApi,
+  installer: InstallerType,
+  testResult: VortexTestResult,
+): void => {
+  reportsInProgress.get(api)?.candidates.push({
+    installer,
+    supported: testResult.supported,
+    requiredFiles: testResult.requiredFiles ?? [],
+  });
+};
+
+export const recordInstallerSelected = (api: VortexApi, installer: InstallerType): void => {
+  const report = reportsInProgress.get(api);
+
+  if (report !== undefined) {
+    report.installerUsed = installer;
+  }
+};
+
+export const recordLayoutAttempt = (
+  api: VortexApi,
+  layoutName: string,
+  result: MaybeInstructions,
+): void => {
+  const instructionsFound = typeof result === `object`;
+
+  reportsInProgress.get(api)?.layoutAttempts.push({
+    layout: layoutName || `(anonymous layout)`,
+    matched: instructionsFound,
+    result: instructionsFound ? result.kind : result,
+  });
+};
+
+//
+// Finishing
+//
+
+const instructionToReport = (instruction: VortexInstruction): InstructionReport => ({
+  type: instruction.type,
+  ...(instruction.source !== undefined ? { source: instruction.source } : {}),
+  ...(instruction.destination !== undefined ? { destination: instruction.destination } : {}),
+  ...(instruction.key !== undefined ? { key: instruction.key } : {}),
+});
+
+export const finishInstallReport = (
+  api: VortexApi,
+  outcome: InstallReportOutcome,
+): InstallReport => {
+  const recorded: InstallReportInProgress = reportsInProgress.get(api) ?? { candidates: [], layoutAttempts: [] };
+
+  reportsInProgress.delete(api);
+
+  return {
+    reportFormatVersion: INSTALL_REPORT_FORMAT_VERSION,
+    modName: outcome.modName,
+    installerUsed: outcome.fallbackUsed
+      ? InstallerType.Fallback
+      : recorded.installerUsed ?? outcome.installerUsed,
+    candidates: recorded.candidates,
+    layoutAttempts: recorded.layoutAttempts,
+    giftwrapUnwrappedFrom: outcome.giftwrapUnwrappedFrom ?? null,
+    selectedVariants: outcome.selectedVariants ?? null,
+    gameVersionDirSelected: outcome.gameVersionDirSelected ?? null,
+    extraFilesLayoutUsed: outcome.extraFilesLayoutUsed ?? null,
+    fallbackUsed: outcome.fallbackUsed,
+    instructions: outcome.instructions.map(instructionToReport),
+  };
+};
+
+//
+// Reading it back
+//
+// The report is the attribute instruction among the rest, for anything
+// that runs the pipeline without Vortex and wants to show it.
+//
+
+export const isInstallReportInstruction = (instruction: VortexInstruction): boolean =>
+  instruction.type === `attribute` && instruction.key === ModAttributeKey.InstallReport;
+
+export const installReportFrom = (instructions: readonly VortexInstruction[]): InstallReport | undefined => {
+  const reportInstruction = instructions.find(isInstallReportInstruction);
+
+  return reportInstruction !== undefined
+    ? (reportInstruction.value as ModAttributeValue<InstallReport>).data
+    : undefined;
+};
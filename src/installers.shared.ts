@@ -61,6 +61,9 @@ import {
   FeatureSet,
   IsFeatureEnabled,
 } from "./features";
+import {
+  recordLayoutAttempt,
+} from "./installers.report";
 
 
 //
@@ -316,8 +319,16 @@ export const useFirstMatchingLayoutForInstructions = (
   possibleLayouts: LayoutToInstructions[],
 ): MaybeInstructions =>
   possibleLayouts.reduce(
-    (found, tryLayout) =>
-      (found === NoInstructions.NoMatch ? tryLayout(api, modName, fileTree) : found),
+    (found, tryLayout) => {
+      if (found !== NoInstructions.NoMatch) {
+        return found;
+      }
+
+      const instructions = tryLayout(api, modName, fileTree);
+      recordLayoutAttempt(api, tryLayout.name, instructions);
+
+      return instructions;
+    },
     NoInstructions.NoMatch,
   );
 
@@ -333,6 +344,7 @@ export const useFirstMatchingLayoutForInstructionsAsync = async (
   for (const tryLayout of possibleLayouts) {
     // eslint-disable-next-line no-await-in-loop
     const instructions = await tryLayout(api, modName, fileTree, sourceDirPathForMod);
+    recordLayoutAttempt(api, tryLayout.name, instructions);
 
     if (instructions !== NoInstructions.NoMatch) {
       return instructions;
@@ -350,7 +362,12 @@ export const useAllMatchingLayouts = (
   layoutsToTry: LayoutToInstructions[],
 ): Instructions[] => {
   const allInstructions = layoutsToTry
-    .map((layout) => layout(api, modName, fileTree))
+    .map((layout) => {
+      const instructions = layout(api, modName, fileTree);
+      recordLayoutAttempt(api, layout.name, instructions);
+
+      return instructions;
+    })
     .filter((instructions) => instructions !== NoInstructions.NoMatch);
 
   const someValidInstructions: Instructions[] = allInstructions.filter(
@@ -4,6 +4,13 @@ import {
 import {
   pipe,
 } from "fp-ts/lib/function";
+import {
+  Either,
+  getOrElse as getOrElseE,
+  left,
+  map as mapE,
+  right,
+} from "fp-ts/lib/Either";
 import {
   filter,
   map,
@@ -14,10 +21,11 @@ import {
 } from "fp-ts/lib/Predicate";
 import {
   fileCount,
+  filesUnder,
   FileTree,
   fileTreeFromPaths,
   FILETREE_ROOT,
-  pathEq,
+  Glob,
   pathIn,
   sourcePaths,
   subdirNamesIn,
@@ -36,6 +44,7 @@ import {
 } from "./vortex-wrapper";
 import {
   KNOWN_TOPLEVEL_DIRS,
+  LayoutDescriptions,
   NoLayout,
 } from "./installers.layouts";
 import {
@@ -47,8 +56,12 @@ import {
 } from "./index.metadata";
 import {
   Installer,
+  InstallerChoicesData,
   InstallerType,
   InstallerWithPriority,
+  makeAttr,
+  ModAttributeKey,
+  ModAttributeValue,
   ModInfo,
   V2077InstallFunc,
   V2077TestFunc,
@@ -89,6 +102,10 @@ import {
   testForIniMod,
   installIniMod,
 } from "./installer.config.ini-reshade";
+import {
+  testForLutMod,
+  installLutMod,
+} from "./installer.lut";
 import {
   testForJsonMod,
   installJsonMod,
@@ -106,6 +123,7 @@ import {
   installRedscriptMod,
 } from "./installer.redscript";
 import {
+  instructionToGenerateMetadataAttribute,
   modInfoFromArchiveNameOrSynthetic,
 } from "./installers.shared";
 import {
@@ -115,6 +133,12 @@ import {
   InfoNotification,
   showInfoNotification,
 } from "./ui.notifications";
+import {
+  promptUserToChooseBetweenAmbiguousInstallers,
+  promptUserToChooseGameVersionDir,
+  promptUserToChooseVariants,
+  showOverlappingVariantsErrorDialog,
+} from "./ui.dialogs";
 import {
   installCoreAmm,
   testForCoreAmm,
@@ -157,11 +181,20 @@ import {
 } from "./installer.core.redscript";
 import {
   FeatureSet,
+  IsDynamicFeatureEnabled,
+  IsFeatureEnabled,
 } from "./features";
 import {
   installCoreModSettings,
   testForCoreModSettings,
 } from "./installer.core.modsettings";
+import {
+  finishInstallReport,
+  InstallReport,
+  recordInstallerCandidate,
+  recordInstallerSelected,
+  startInstallReport,
+} from "./installers.report";
 
 // Ensure we're using win32 conventions
 const path = win32;
@@ -347,14 +380,12 @@ const installers: Installer[] = [
     testSupported: testForIniMod,
     install: installIniMod,
   },
-  /*
   {
     type: InstallerType.LUT,
-    id: "cp2077-lut-mod",
-    testSupported: notSupportedModType,
-    install: notInstallableMod,
+    id: InstallerType.LUT,
+    testSupported: testForLutMod,
+    install: installLutMod,
   },
-  */
   {
     type: InstallerType.ConfigJson,
     id: InstallerType.ConfigJson,
@@ -387,46 +418,133 @@ const installers: Installer[] = [
   },
 ];
 
-const installerPipeline: InstallerWithPriority[] = installers.reduce(
-  addPriorityFrom(PRIORITY_STARTING_NUMBER),
-  [],
+const prioritizedPipelineFrom = (
+  installersInOrder: readonly Installer[],
+): Either<Error, InstallerWithPriority[]> => {
+  const prioritized = installersInOrder.reduce(
+    addPriorityFrom(PRIORITY_STARTING_NUMBER),
+    [],
+  );
+
+  const lastInstaller = prioritized[prioritized.length - 1];
+
+  // Let's be cautious
+  return lastInstaller?.type === InstallerType.Fallback
+    ? right(prioritized)
+    : left(new Error(`Fallback installer not found at the end of the pipeline`));
+};
+
+let installerPipeline: readonly InstallerWithPriority[] = pipe(
+  prioritizedPipelineFrom(installers),
+  getOrElseE((err): InstallerWithPriority[] => { throw err; }),
 );
 
-const fallbackInstaller = installerPipeline[installerPipeline.length - 1];
+export const installerPipelineInUse = (): readonly InstallerWithPriority[] =>
+  installerPipeline;
+
+// Registering replaces the pipeline, but Fallback stays last in every one
+const fallbackInstallerInUse = (): InstallerWithPriority =>
+  installerPipeline[installerPipeline.length - 1];
 
-// Let's be cautious
-if (fallbackInstaller.type !== InstallerType.Fallback) {
-  throw new Error(`Fallback installer not found in pipeline`);
+//
+// Registration for installers that don't live here
+//
+// Other extensions (or our own tooling) can slot an `Installer` into
+// the pipeline relative to an existing one. The ids of the builtin
+// installers are their `InstallerType`s. Priorities are recomputed
+// for the whole pipeline, and Fallback still has to come last.
+//
+
+export const enum PipelinePlacement {
+  Before = `before`,
+  After = `after`,
+}
+
+export interface PipelineInstallerRegistration {
+  readonly installer: Installer;
+  readonly placement: PipelinePlacement;
+  readonly relativeToInstallerId: string;
 }
 
+const withoutPriority = ({ priority: _, ...installer }: InstallerWithPriority): Installer =>
+  installer;
+
+export const registerInstallerInPipeline = (
+  registration: PipelineInstallerRegistration,
+): Either<Error, readonly InstallerWithPriority[]> => {
+  const { installer, placement, relativeToInstallerId } = registration;
+
+  if (installer.type === InstallerType.Fallback || installer.type === InstallerType.Pipeline) {
+    return left(new Error(`Can't register another ${installer.type}`));
+  }
+
+  if (installerPipeline.some((existing) => existing.id === installer.id)) {
+    return left(new Error(`An installer with id ${installer.id} is already in the pipeline`));
+  }
+
+  const anchorIndex = installerPipeline.findIndex((existing) => existing.id === relativeToInstallerId);
+
+  if (anchorIndex < 0) {
+    return left(new Error(`Can't place ${installer.id} ${placement} ${relativeToInstallerId}, no such installer`));
+  }
+
+  const insertAt = placement === PipelinePlacement.Before ? anchorIndex : anchorIndex + 1;
+
+  const newOrder: Installer[] = [
+    ...installerPipeline.slice(0, insertAt).map(withoutPriority),
+    installer,
+    ...installerPipeline.slice(insertAt).map(withoutPriority),
+  ];
+
+  return pipe(
+    prioritizedPipelineFrom(newOrder),
+    mapE((prioritized) => {
+      installerPipeline = prioritized;
+      return installerPipeline;
+    }),
+  );
+};
+
 //
 // Installation stuff
 //
 
 // This should probably be moved
-const detectGiftwrapLayout = (fileTree: FileTree) : boolean => {
-  const toplevelDirs = subdirsIn(FILETREE_ROOT, fileTree);
-
-  if (toplevelDirs.length !== 1) {
-    return false;
+//
+// Mods are sometimes wrapped in more than one extra directory, like
+// `ModName\ModName v1.2\archive\...`, so keep descending through
+// single-directory levels until we find a known toplevel dir (or
+// hit one, in which case there's no wrapping.)
+const findGiftwrapperDir = (fileTree: FileTree, dir: string = FILETREE_ROOT): string | undefined => {
+  const subdirs = subdirsIn(dir, fileTree);
+
+  if (subdirs.length !== 1) {
+    return undefined;
   }
 
-  const giftwrapperDir = toplevelDirs[0];
+  const possibleGiftwrapperDir = subdirs[0];
 
   const allValidWrappableSubdirs = pipe(
-    subdirNamesIn(giftwrapperDir, fileTree),
+    subdirNamesIn(possibleGiftwrapperDir, fileTree),
     filter(pathIn(KNOWN_TOPLEVEL_DIRS)),
   );
 
   if (allValidWrappableSubdirs.length > 0) {
-    return true;
+    return possibleGiftwrapperDir;
   }
 
-  return false;
+  // Something like `bin\x64\...` is the mod's own layout, not wrapping
+  if (pathIn(KNOWN_TOPLEVEL_DIRS)(path.basename(possibleGiftwrapperDir))) {
+    return undefined;
+  }
+
+  return findGiftwrapperDir(fileTree, possibleGiftwrapperDir);
 };
 
 const enum Transform {
   Unwrapped = `Tree with extra top-level directory removed`,
+  VariantsSelected = `Tree with only the chosen variant directories, unwrapped`,
+  GameVersionSelected = `Tree with only the directory for the game version, unwrapped`,
   None = `No transforms`,
 }
 
@@ -443,16 +561,37 @@ interface UnwrappedFileTree {
   readonly transform: Transform.Unwrapped;
   readonly fileTree: FileTree;
   readonly originalTree: FileTree;
+  // Can be more than one level deep
   readonly wrapperDir: string;
 }
 
-type ProcessedFileTree = NotModifiedFileTree | UnwrappedFileTree;
+interface VariantsSelectedFileTree {
+  readonly transform: Transform.VariantsSelected;
+  readonly fileTree: FileTree;
+  readonly originalTree: FileTree;
+  readonly selectedVariants: string[];
+  readonly originalSourceFor: ReadonlyMap<string, string>;
+}
+
+interface GameVersionSelectedFileTree {
+  readonly transform: Transform.GameVersionSelected;
+  readonly fileTree: FileTree;
+  readonly originalTree: FileTree;
+  readonly gameVersion: string;
+  readonly versionDir: string;
+}
+
+type ProcessedFileTree =
+  | NotModifiedFileTree
+  | UnwrappedFileTree
+  | VariantsSelectedFileTree
+  | GameVersionSelectedFileTree;
 
 const unwrapTreeIfNecessary =
   (api: VortexApi, fileTree: FileTree): ProcessedFileTree => {
-    const haveGiftwrappedMod = detectGiftwrapLayout(fileTree);
+    const wrapperDir = findGiftwrapperDir(fileTree);
 
-    const wrapperDir = subdirNamesIn(FILETREE_ROOT, fileTree)[0];
+    const haveGiftwrappedMod = wrapperDir !== undefined;
 
     const transformedTree = haveGiftwrappedMod
       ? subtreeFrom(wrapperDir, fileTree)
@@ -461,7 +600,7 @@ const unwrapTreeIfNecessary =
     const unwrappedPaths = sourcePaths(transformedTree);
 
     if (haveGiftwrappedMod) {
-      api.log(`info`, `Mod was giftwrapped, unwrapped it for install.`);
+      api.log(`info`, `Mod was giftwrapped in ${wrapperDir}, unwrapped it for install.`);
       api.log(`debug`, `Using unwrapped filetree: `, unwrappedPaths);
 
       const unwrappedTree : UnwrappedFileTree = {
@@ -482,12 +621,27 @@ const unwrapTreeIfNecessary =
     return unmodifiedTree;
   };
 
+const originalSourceIn = (treeInUse: ProcessedFileTree, source: string): string => {
+  switch (treeInUse.transform) {
+    case Transform.Unwrapped:
+      return path.join(treeInUse.wrapperDir, source);
+    case Transform.VariantsSelected:
+      return treeInUse.originalSourceFor.get(source) ?? source;
+    case Transform.GameVersionSelected:
+      return path.join(treeInUse.versionDir, source);
+    default:
+      return source;
+  }
+};
+
 const giftwrapSourcesAgainIfNecessary = (
   api: VortexApi,
   treeInUse: ProcessedFileTree,
   instructions: VortexInstruction[],
 ): readonly VortexInstruction[] =>
   (treeInUse.transform !== Transform.Unwrapped
+    && treeInUse.transform !== Transform.VariantsSelected
+    && treeInUse.transform !== Transform.GameVersionSelected
     ? instructions
     : pipe(
       instructions,
@@ -495,12 +649,305 @@ const giftwrapSourcesAgainIfNecessary = (
         instruction.source
           ? {
             ...instruction,
-            source: path.join(treeInUse.wrapperDir, instruction.source),
+            source: originalSourceIn(treeInUse, instruction.source),
           }
           : instruction
       )),
     ));
 
+//
+// Variants
+//
+// Some mods ship alternatives side by side, like `Option A - Short hair\archive\...`
+// and `Option B - Long hair\archive\...`. If each of those is a complete mod for
+// the same installer, let the user pick rather than installing all of them.
+//
+
+// Same idea as the giftwrap, there may be wrapping around the variants
+const variantParentDirIn = (fileTree: FileTree, dir: string = FILETREE_ROOT): string => {
+  const subdirs = subdirsIn(dir, fileTree);
+
+  return subdirs.length === 1 && !pathIn(KNOWN_TOPLEVEL_DIRS)(path.basename(subdirs[0]))
+    ? variantParentDirIn(fileTree, subdirs[0])
+    : dir;
+};
+
+const findPossibleVariantDirs = (fileTree: FileTree): readonly string[] => {
+  const possibleVariantDirs = subdirsIn(variantParentDirIn(fileTree), fileTree);
+
+  const allLookLikeWrappedMods = possibleVariantDirs.every((dir) =>
+    !pathIn(KNOWN_TOPLEVEL_DIRS)(path.basename(dir))
+      && subdirNamesIn(dir, fileTree).some(pathIn(KNOWN_TOPLEVEL_DIRS)));
+
+  return possibleVariantDirs.length > 1 && allLookLikeWrappedMods
+    ? possibleVariantDirs
+    : [];
+};
+
+const firstSupportingInstallerFor = async (
+  api: VortexApi,
+  fileTree: FileTree,
+  modInfo: ModInfo,
+  features: FeatureSet,
+): Promise<Installer | undefined> => {
+  // eslint-disable-next-line no-restricted-syntax
+  for (const candidateInstaller of installerPipeline) {
+    // eslint-disable-next-line no-await-in-loop
+    const testResult = await candidateInstaller.testSupported(api, fileTree, modInfo, features);
+
+    if (testResult.supported === true) {
+      return candidateInstaller;
+    }
+  }
+
+  return undefined;
+};
+
+const previouslySelectedVariants = (choices: unknown): string[] | undefined => {
+  const selectedVariants = (choices as ModAttributeValue<InstallerChoicesData>)?.data?.selectedVariants;
+
+  return Array.isArray(selectedVariants) ? selectedVariants : undefined;
+};
+
+const selectVariantsIfNecessary = async (
+  api: VortexApi,
+  treeInUse: ProcessedFileTree,
+  modInfo: ModInfo,
+  features: FeatureSet,
+  choices: unknown,
+): Promise<ProcessedFileTree> => {
+  if (!IsDynamicFeatureEnabled(features.VariantSelection)
+    || treeInUse.transform === Transform.Unwrapped
+    || treeInUse.transform === Transform.GameVersionSelected) {
+    return treeInUse;
+  }
+
+  const { fileTree } = treeInUse;
+
+  const variantDirs = findPossibleVariantDirs(fileTree);
+
+  if (variantDirs.length < 1) {
+    return treeInUse;
+  }
+
+  // Separate api object so that these tests don't end up in the install report
+  const apiForVariantTesting: VortexApi = { ...api };
+
+  const installersForVariants: (Installer | undefined)[] = [];
+
+  // eslint-disable-next-line no-restricted-syntax
+  for (const dir of variantDirs) {
+    // eslint-disable-next-line no-await-in-loop
+    installersForVariants.push(await firstSupportingInstallerFor(
+      apiForVariantTesting,
+      subtreeFrom(dir, fileTree),
+      modInfo,
+      features,
+    ));
+  }
+
+  const variantInstaller = installersForVariants[0];
+
+  const allVariantsForSameInstaller =
+    variantInstaller !== undefined
+    && variantInstaller.type !== InstallerType.Fallback
+    && installersForVariants.every((installer) => installer?.id === variantInstaller.id);
+
+  if (!allVariantsForSameInstaller) {
+    api.log(`debug`, `Variant-looking dirs aren't all for the same installer, not treating them as variants`, {
+      variantDirs,
+      installers: installersForVariants.map((installer) => installer?.id),
+    });
+    return treeInUse;
+  }
+
+  const variantNames = variantDirs.map((dir) => path.basename(dir));
+
+  const previousChoice = previouslySelectedVariants(choices);
+
+  const reusePreviousChoice =
+    previousChoice !== undefined
+    && previousChoice.length > 0
+    && previousChoice.every((variant) => variantNames.includes(variant));
+
+  const selectedVariants = reusePreviousChoice
+    ? previousChoice
+    : await promptUserToChooseVariants(api, variantInstaller.type, variantNames);
+
+  if (selectedVariants.length < 1) {
+    const message = `${InstallerType.Pipeline}: user chose to cancel installation`;
+    api.log(`info`, message);
+    return Promise.reject(new Error(message));
+  }
+
+  api.log(`info`, `Installing selected variants${reusePreviousChoice ? ` (from previous install)` : ``}`, selectedVariants);
+
+  const sourcePairs: [string, string][] = variantDirs
+    .filter((dir) => selectedVariants.includes(path.basename(dir)))
+    .flatMap((dir) =>
+      filesUnder(FILETREE_ROOT, Glob.Any, subtreeFrom(dir, fileTree))
+        .map((variantPath): [string, string] => [variantPath, path.join(dir, variantPath)]));
+
+  // Variants may well be alternatives that ship the same files, and picking
+  // more than one of those would just have the last one win without telling
+  // anyone. That's not something we can resolve, so the user has to choose again.
+  const overlappingPaths = [...new Set(sourcePairs
+    .map(([variantPath]) => variantPath)
+    .filter((variantPath, index, variantPaths) => variantPaths.indexOf(variantPath) !== index))];
+
+  if (overlappingPaths.length > 0) {
+    const message = `Selected Variants Overlap, Installation Canceled!`;
+    api.log(`error`, message, { selectedVariants, overlappingPaths });
+    showOverlappingVariantsErrorDialog(api, message, selectedVariants, overlappingPaths);
+    return Promise.reject(new Error(message));
+  }
+
+  const originalSourceFor = new Map<string, string>(sourcePairs);
+
+  const variantsTree: VariantsSelectedFileTree = {
+    transform: Transform.VariantsSelected,
+    fileTree: fileTreeFromPaths([...originalSourceFor.keys()]),
+    originalTree: fileTree,
+    selectedVariants,
+    originalSourceFor,
+  };
+
+  return variantsTree;
+};
+
+//
+// Game version specific dirs
+//
+// Like variants, except the mod ships a full mod per game version, like
+// `1.6\archive\...` and `2.1+\r6\...`. Those we can choose ourselves as long
+// as we know which version of the game is installed.
+//
+
+// Same as `getGameVersion` gives us when it can't read the exe
+export const UNKNOWN_GAME_VERSION = `0.0.0`;
+
+interface GameVersionDir {
+  readonly dir: string;
+  readonly version: number[];
+  readonly orLater: boolean;
+}
+
+// Has to be dotted like `2.1` or `2.x`, a bare number is more likely a numbered option
+const GAME_VERSION_DIR_NAME =
+  /^(?:v|ver|version|patch|game)?[\s._-]*(\d+(?:\.\d+)+|\d+(?=\.x))(?:\.x)?\s*(\+|and up|and later|or later|or newer)?$/i;
+
+const versionPartsIn = (version: string): number[] =>
+  version.split(`.`).map((part) => parseInt(part, 10));
+
+const gameVersionDirFrom = (dir: string): GameVersionDir | undefined => {
+  const match = GAME_VERSION_DIR_NAME.exec(path.basename(dir).trim());
+
+  return match
+    ? { dir, version: versionPartsIn(match[1]), orLater: match[2] !== undefined }
+    : undefined;
+};
+
+// Missing parts count as zero, so `2.1` is the same as `2.1.0`
+const compareVersionParts = (a: number[], b: number[]): number => {
+  const firstDifferent = [...Array(Math.max(a.length, b.length)).keys()]
+    .find((i) => (a[i] ?? 0) !== (b[i] ?? 0));
+
+  return firstDifferent === undefined ? 0 : (a[firstDifferent] ?? 0) - (b[firstDifferent] ?? 0);
+};
+
+// A dir for `2.1` is for any 2.1.x, so only compare the parts the dir has
+const isExactlyFor = (gameVersion: number[], versionDir: GameVersionDir): boolean =>
+  versionDir.version.every((part, i) => gameVersion[i] === part);
+
+const isFor = (gameVersion: number[], versionDir: GameVersionDir): boolean =>
+  isExactlyFor(gameVersion, versionDir)
+    || (versionDir.orLater && compareVersionParts(gameVersion, versionDir.version) >= 0);
+
+// Exact matches beat `2.0+` style ones, and otherwise the newest one wins
+const moreSpecificFirst = (gameVersion: number[], a: GameVersionDir, b: GameVersionDir): number => {
+  const exactness = Number(isExactlyFor(gameVersion, b)) - Number(isExactlyFor(gameVersion, a));
+
+  return exactness !== 0
+    ? exactness
+    : compareVersionParts(b.version, a.version) || b.version.length - a.version.length;
+};
+
+const unknownGameVersion = (): Promise<string> => Promise.resolve(UNKNOWN_GAME_VERSION);
+
+export const bestGameVersionDirFor = (gameVersion: string, dirs: readonly string[]): string | undefined => {
+  const gameVersionParts = versionPartsIn(gameVersion);
+
+  if (gameVersion === UNKNOWN_GAME_VERSION || gameVersionParts.some(Number.isNaN)) {
+    return undefined;
+  }
+
+  const [bestMatch] = dirs
+    .map(gameVersionDirFrom)
+    .filter((versionDir) => versionDir !== undefined && isFor(gameVersionParts, versionDir))
+    .sort((a, b) => moreSpecificFirst(gameVersionParts, a, b));
+
+  return bestMatch?.dir;
+};
+
+const findGameVersionDirs = (fileTree: FileTree): readonly string[] => {
+  const possibleVersionDirs = subdirsIn(variantParentDirIn(fileTree), fileTree);
+
+  const allLookLikeVersionedMods = possibleVersionDirs.every((dir) =>
+    gameVersionDirFrom(dir) !== undefined
+      && subdirNamesIn(dir, fileTree).some(pathIn(KNOWN_TOPLEVEL_DIRS)));
+
+  return possibleVersionDirs.length > 1 && allLookLikeVersionedMods
+    ? possibleVersionDirs
+    : [];
+};
+
+const selectGameVersionDirIfNecessary = async (
+  api: VortexApi,
+  treeInUse: ProcessedFileTree,
+  currentGameVersion: () => Promise<string>,
+): Promise<ProcessedFileTree> => {
+  if (treeInUse.transform === Transform.Unwrapped) {
+    return treeInUse;
+  }
+
+  const { fileTree } = treeInUse;
+
+  const versionDirs = findGameVersionDirs(fileTree);
+
+  if (versionDirs.length < 1) {
+    return treeInUse;
+  }
+
+  const gameVersion = await currentGameVersion();
+
+  const matchingDir = bestGameVersionDirFor(gameVersion, versionDirs);
+
+  const versionDir = matchingDir !== undefined
+    ? matchingDir
+    : pipe(
+      await promptUserToChooseGameVersionDir(api, gameVersion, versionDirs.map((dir) => path.basename(dir))),
+      (chosenDirName) => versionDirs.find((dir) => path.basename(dir) === chosenDirName),
+    );
+
+  if (versionDir === undefined) {
+    const message = `${InstallerType.Pipeline}: user chose to cancel installation`;
+    api.log(`info`, message);
+    return Promise.reject(new Error(message));
+  }
+
+  api.log(`info`, `Installing ${versionDir} for game version ${gameVersion}${matchingDir !== undefined ? `` : ` (chosen by user)`}`);
+
+  const gameVersionTree: GameVersionSelectedFileTree = {
+    transform: Transform.GameVersionSelected,
+    fileTree: subtreeFrom(versionDir, fileTree),
+    originalTree: fileTree,
+    gameVersion,
+    versionDir,
+  };
+
+  return gameVersionTree;
+};
+
 //
 // (wrap) `testSupported`
 //
@@ -558,6 +1005,7 @@ export const wrapInstall =
     vortexApiLib,
     installer: Installer,
     features: FeatureSet,
+    currentGameVersion: () => Promise<string> = unknownGameVersion,
   ): VortexInstallFunc =>
     //
     // This is the function that Vortex calls
@@ -566,6 +1014,7 @@ export const wrapInstall =
       destinationDirPath: string,
       _gameId: string,
       _progressDelegate: VortexProgressDelegate,
+      choices?: unknown,
     ): Promise<VortexInstallResult> => {
     //
       const vortexApi: VortexApi = { ...vortex.api, log: vortexApiLib.log };
@@ -573,19 +1022,23 @@ export const wrapInstall =
       vortexApi.log(`info`, `Trying to install using ${installer.type}`);
       vortexApi.log(`debug`, `Input files:`, filesRelativePaths);
 
-      const treeForInstallers =
-        unwrapTreeIfNecessary(vortexApi, fileTreeFromPaths(filesRelativePaths));
+      const reportingEnabled = IsFeatureEnabled(features.InstallReport);
 
-      const sourceFileCount = fileCount(treeForInstallers.fileTree);
+      if (reportingEnabled) {
+        startInstallReport(vortexApi);
+      }
+
+      const unwrappedTree =
+        unwrapTreeIfNecessary(vortexApi, fileTreeFromPaths(filesRelativePaths));
 
       const archivePathOnDisk = destinationDirPath;
 
       const archivePath =
-        treeForInstallers.transform !== Transform.Unwrapped
+        unwrappedTree.transform !== Transform.Unwrapped
           ? archivePathOnDisk
           : pipe(
             archivePathOnDisk.split(path.sep),
-            filter(not(pathEq(treeForInstallers.wrapperDir))),
+            filter(not(pathIn(unwrappedTree.wrapperDir.split(path.sep)))),
             (parts) => path.join(...parts),
           );
 
@@ -601,6 +1054,14 @@ export const wrapInstall =
       const modName =
         modInfo.name;
 
+      const treeForThisGameVersion =
+        await selectGameVersionDirIfNecessary(vortexApi, unwrappedTree, currentGameVersion);
+
+      const treeForInstallers =
+        await selectVariantsIfNecessary(vortexApi, treeForThisGameVersion, modInfo, features, choices);
+
+      const sourceFileCount = fileCount(treeForInstallers.fileTree);
+
       const instructionsFromInstaller = await installer.install(
         vortexApi,
         treeForInstallers.fileTree,
@@ -650,7 +1111,7 @@ export const wrapInstall =
         !stillMissingSourceFiles
           ? allInstructionsWeKnowHowToGenerate
           : (
-            await fallbackInstaller.install(
+            await fallbackInstallerInUse().install(
               vortexApi,
               treeForInstallers.fileTree,
               modInfo,
@@ -658,20 +1119,70 @@ export const wrapInstall =
             )
           ).instructions;
 
-      const instructionsFromFullyResolvedSources = giftwrapSourcesAgainIfNecessary(
+      const instructionsFromResolvedSources = giftwrapSourcesAgainIfNecessary(
         vortexApi,
         treeForInstallers,
         finalInstructions,
       );
 
+      // Recorded so that a reinstall can use the same choice
+      const instructionsFromFullyResolvedSources =
+        treeForInstallers.transform !== Transform.VariantsSelected
+          ? instructionsFromResolvedSources
+          : [
+            ...instructionsFromResolvedSources,
+            instructionToGenerateMetadataAttribute(
+              makeAttr<InstallerChoicesData>(
+                ModAttributeKey.InstallerChoices,
+                { selectedVariants: treeForInstallers.selectedVariants },
+              ),
+            ),
+          ];
+
       // Delay this until we know we're succeeding. Probably needs a better mechanism,
       // but hopefully we don't need to start queuing notifs.
       if (extraFilesInstructions.instructions.length > 0) {
         await showInfoNotification(vortexApi, InfoNotification.InstallerExtraFilesMoved);
       }
 
+      if (!reportingEnabled) {
+        return Promise.resolve({
+          instructions: toArray(instructionsFromFullyResolvedSources),
+        });
+      }
+
+      const installReport = finishInstallReport(vortexApi, {
+        modName,
+        installerUsed: installer.type,
+        giftwrapUnwrappedFrom:
+          treeForInstallers.transform === Transform.Unwrapped
+            ? treeForInstallers.wrapperDir
+            : undefined,
+        selectedVariants:
+          treeForInstallers.transform === Transform.VariantsSelected
+            ? treeForInstallers.selectedVariants
+            : undefined,
+        gameVersionDirSelected:
+          treeForInstallers.transform === Transform.GameVersionSelected
+            ? treeForInstallers.versionDir
+            : undefined,
+        extraFilesLayoutUsed:
+          extraFilesInstructions.instructions.length > 0
+            ? extraFilesInstructions.kind
+            : undefined,
+        fallbackUsed: stillMissingSourceFiles,
+        instructions: instructionsFromFullyResolvedSources,
+      });
+
+      vortexApi.log(`info`, `Install report for ${modName}: `, installReport);
+
       return Promise.resolve({
-        instructions: toArray(instructionsFromFullyResolvedSources),
+        instructions: [
+          ...instructionsFromFullyResolvedSources,
+          instructionToGenerateMetadataAttribute(
+            makeAttr<InstallReport>(ModAttributeKey.InstallReport, installReport),
+          ),
+        ],
       });
     };
 
@@ -703,15 +1214,19 @@ const installUsingPipelineOfInstallers: V2077InstallFunc = async (
 ): Promise<VortexInstallResult> => {
   const me = InstallerType.Pipeline;
 
+  // Normally we stop at the first match, but when asked to we'll
+  // check everything so that ambiguous matches don't go unnoticed
+  const checkAllInstallers = IsDynamicFeatureEnabled(features.DetectAmbiguousInstallers);
+
   // Technically I guess we could use Layouts here, one wrapped and
   // one unwrapped.. dunno if that'd make it much cleaner, maybe worth it
-  let matchingInstaller: Installer;
+  const supportingInstallers: Installer[] = [];
 
   // Let it reject
 
   // eslint-disable-next-line no-restricted-syntax
   for (const candidateInstaller of installerPipeline) {
-    vortexApi.log(`debug`, `${me}: Trying ${candidateInstaller.type}`);
+    vortexApi.log(`debug`, `${me}: Trying ${candidateInstaller.id}`);
     // eslint-disable-next-line no-await-in-loop
     const testResult = await candidateInstaller.testSupported(
       vortexApi,
@@ -720,11 +1235,49 @@ const installUsingPipelineOfInstallers: V2077InstallFunc = async (
       features,
     );
 
+    recordInstallerCandidate(vortexApi, candidateInstaller.type, testResult);
+
     if (testResult.supported === true) {
-      vortexApi.log(`info`, `${me}: using ${candidateInstaller.type}`);
-      matchingInstaller = candidateInstaller;
-      break;
+      supportingInstallers.push(candidateInstaller);
+
+      if (!checkAllInstallers) {
+        break;
+      }
+    }
+  }
+
+  // Fallback supports everything, so it doesn't count as competition
+  const competingInstallers = supportingInstallers.filter(
+    (installer) => installer.type !== InstallerType.Fallback,
+  );
+
+  let matchingInstaller: Installer = supportingInstallers[0];
+
+  if (competingInstallers.length > 1) {
+    vortexApi.log(`warn`, `${me}: more than one installer can install this mod`, {
+      competingInstallers: competingInstallers.map((installer) => installer.id),
+      competingLayouts: competingInstallers.map((installer) =>
+        LayoutDescriptions.get(installer.type) ?? `(No layout description available)`),
+    });
+
+    const chosenInstallerId = await promptUserToChooseBetweenAmbiguousInstallers(
+      vortexApi,
+      competingInstallers,
+      sourcePaths(fileTree),
+    );
+
+    if (chosenInstallerId === undefined) {
+      const message = `${me}: user chose to cancel installation`;
+      vortexApi.log(`info`, message);
+      return Promise.reject(new Error(message));
     }
+
+    matchingInstaller = competingInstallers.find((installer) => installer.id === chosenInstallerId);
+  }
+
+  if (matchingInstaller !== undefined) {
+    vortexApi.log(`info`, `${me}: using ${matchingInstaller.id}`);
+    recordInstallerSelected(vortexApi, matchingInstaller.type);
   }
 
   // Maybe this check doesn't really belong here? Can we assume this?
@@ -742,7 +1295,7 @@ const installUsingPipelineOfInstallers: V2077InstallFunc = async (
     features,
   );
 
-  vortexApi.log(`info`, `${me}: instructions generated by ${matchingInstaller.type}`);
+  vortexApi.log(`info`, `${me}: instructions generated by ${matchingInstaller.id}`);
 
   return Promise.resolve({
     instructions: selectedInstructions.instructions,
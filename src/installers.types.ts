@@ -71,6 +71,8 @@ export enum InstallerType {
   LUT = `LUT Mod Installer`,
   Preset = `Character Preset Installer`,
   Archive = `Archive + ArchiveXL Mod Installer`,
+  // Registered by other extensions, identified by their `id`
+  ThirdParty = `Third-Party Installer`,
   // Fallback that installs everything, last in the pipeline
   Fallback = `Fallback Installer`,
   // Used as a marker
@@ -110,6 +112,9 @@ export const enum ModAttributeKey {
   ModType = `V2077_mod_attr_mod_type`,
   REDmodInfo = `V2077_mod_attr_redmod_info`,
   REDmodInfoArray = `V2077_mod_attr_redmod_info_array`,
+  // Vortex hands this one back to the installer as `choices` on reinstall
+  InstallerChoices = `installerChoices`,
+  InstallReport = `V2077_mod_attr_install_report`,
 }
 
 export interface ModAttributeValue<T> {
@@ -121,6 +126,10 @@ export interface ModAttribute<T> {
   value: ModAttributeValue<T>;
 }
 
+export interface InstallerChoicesData {
+  selectedVariants?: string[];
+}
+
 export const enum ModType {
   INVALID = `INVALID mod type used as a marker`,
   REDmod = `V2077_REDmod`,
@@ -0,0 +1,459 @@
+import {
+  win32,
+} from "path";
+import {
+  pipe,
+} from "fp-ts/lib/function";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  filter,
+  findIndex,
+  map,
+  toArray as toMutableArray,
+} from "fp-ts/lib/ReadonlyArray";
+import {
+  getOrElse,
+  isSome,
+  map as mapO,
+} from "fp-ts/lib/Option";
+import {
+  fs,
+  selectors,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  GAME_ID,
+} from "./index.metadata";
+import {
+  ARCHIVE_LOAD_ORDER_TYPE_VERSION,
+  ARCHIVE_RENAMES_TYPE_VERSION,
+  ArchiveLoadOrder,
+  ArchiveLoadOrderEntry,
+  ArchiveRename,
+  ArchiveRenames,
+  decodeArchiveLoadOrder,
+  decodeArchiveRenames,
+  encodeArchiveLoadOrder,
+  encodeArchiveRenames,
+  OrderableArchive,
+  RenamedArchive,
+} from "./load_order.types";
+import {
+  ARCHIVE_MOD_CANONICAL_PREFIX,
+  ARCHIVE_MOD_FILE_EXTENSION,
+} from "./installers.layouts";
+import {
+  attrModType,
+  ModType,
+} from "./installers.types";
+import {
+  V2077_LOAD_ORDER_DIR,
+} from "./redmodding.metadata";
+import {
+  VortexApi,
+  VortexMod,
+  VortexProfile,
+  VortexProfileModIndex,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+import {
+  S,
+} from "./util.functions";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  InfoNotification,
+  showInfoNotification,
+} from "./ui.notifications";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Archive Load Order`;
+
+const archiveLoadOrderFilenameFor = (profile: VortexProfile): string =>
+  `${EXTENSION_NAME_INTERNAL}-archive-load-order-${profile.id}.json`;
+
+// Kept next to the REDmod load order for the same profile
+export const archiveLoadOrderPathFor = (profile: VortexProfile, gameDirPath: string): string =>
+  path.join(gameDirPath, V2077_LOAD_ORDER_DIR, archiveLoadOrderFilenameFor(profile));
+
+// Kept in staging, since that's where the renames are
+export const archiveRenamesPathFor = (stagingPath: string): string =>
+  path.join(stagingPath, `${EXTENSION_NAME_INTERNAL}-archive-renames.json`);
+
+
+//
+// Sort prefixes
+//
+// The game loads `archive/pc/mod` alphabetically and the first one loaded
+// wins, so earlier entries get the smaller prefixes. The gaps are there so
+// that anyone adding things by hand has some room to work with.
+//
+
+export const ARCHIVE_SORT_PREFIX_STEP = 10;
+const ARCHIVE_SORT_PREFIX_MIN_WIDTH = 4;
+const GENERATED_SORT_PREFIX = /^\d{4,}_(?<originalName>.+)$/;
+
+export const archiveSortPrefixFor = (index: number, entryCount: number): string => {
+  const width =
+    Math.max(ARCHIVE_SORT_PREFIX_MIN_WIDTH, String(entryCount * ARCHIVE_SORT_PREFIX_STEP).length);
+
+  return `${String((index + 1) * ARCHIVE_SORT_PREFIX_STEP).padStart(width, `0`)}_`;
+};
+
+const isSameArchive = (vortexId: string, archiveName: string) =>
+  (entry: ArchiveLoadOrderEntry): boolean =>
+    entry.vortexId === vortexId && entry.archiveName === archiveName;
+
+// A prefix only counts as ours if we've recorded renaming the archive,
+// whichever profile did it. Otherwise it's just how the author named the
+// file. Renames from before we kept the record are still recognized by
+// the previous order knowing about the original name.
+export const originalArchiveNameFor = (
+  vortexId: string,
+  nameOnDisk: string,
+  renamed: readonly RenamedArchive[],
+  previousOrder: readonly ArchiveLoadOrderEntry[],
+): string => {
+  const recorded =
+    renamed.find((archive) => archive.vortexId === vortexId && archive.nameOnDisk === nameOnDisk);
+
+  if (recorded !== undefined) {
+    return recorded.archiveName;
+  }
+
+  const maybeOriginalName = GENERATED_SORT_PREFIX.exec(nameOnDisk)?.groups?.originalName;
+
+  return maybeOriginalName !== undefined && previousOrder.some(isSameArchive(vortexId, maybeOriginalName))
+    ? maybeOriginalName
+    : nameOnDisk;
+};
+
+// Ordered first, then the rest by name
+export const archivesInOrder = (
+  archives: readonly OrderableArchive[],
+  order: readonly ArchiveLoadOrderEntry[],
+): OrderableArchive[] => {
+  const positionIn = (archive: OrderableArchive): number =>
+    pipe(
+      order,
+      findIndex(isSameArchive(archive.vortexId, archive.archiveName)),
+      getOrElse(() => order.length),
+    );
+
+  return [...archives].sort((a, b) =>
+    positionIn(a) - positionIn(b) || a.archiveName.localeCompare(b.archiveName));
+};
+
+export const isOrdered = (
+  archive: OrderableArchive,
+  order: readonly ArchiveLoadOrderEntry[],
+): boolean =>
+  isSome(findIndex(isSameArchive(archive.vortexId, archive.archiveName))(order));
+
+export const archiveLoadOrderEntryFor = (archive: OrderableArchive): ArchiveLoadOrderEntry => ({
+  vortexId: archive.vortexId,
+  vortexModId: archive.vortexModId,
+  archiveName: archive.archiveName,
+});
+
+// Everything in the order gets the prefix for its position, everything
+// else gets its original name back.
+export const archiveRenamesFor = (
+  order: readonly ArchiveLoadOrderEntry[],
+  archivesOnDisk: readonly OrderableArchive[],
+): ArchiveRename[] =>
+  pipe(
+    archivesOnDisk,
+    map((archive): ArchiveRename => {
+      const target = pipe(
+        order,
+        findIndex(isSameArchive(archive.vortexId, archive.archiveName)),
+        mapO((index) => `${archiveSortPrefixFor(index, order.length)}${archive.archiveName}`),
+        getOrElse(() => archive.archiveName),
+      );
+
+      return { vortexId: archive.vortexId, from: archive.nameOnDisk, to: target };
+    }),
+    filter((rename) => rename.from !== rename.to),
+    toMutableArray,
+  );
+
+// Everything that doesn't have its original name once the renames are done
+export const renamedArchivesAfter = (
+  archivesOnDisk: readonly OrderableArchive[],
+  renames: readonly ArchiveRename[],
+): RenamedArchive[] =>
+  archivesOnDisk
+    .map((archive): RenamedArchive => {
+      const rename = renames.find((candidate) =>
+        candidate.vortexId === archive.vortexId && candidate.from === archive.nameOnDisk);
+
+      return {
+        vortexId: archive.vortexId,
+        archiveName: archive.archiveName,
+        nameOnDisk: rename?.to ?? archive.nameOnDisk,
+      };
+    })
+    .filter((archive) => archive.nameOnDisk !== archive.archiveName);
+
+
+//
+// Helpers
+//
+
+const getDiscoveryPath = (vortexState: VortexState): string =>
+  vortexUtil.getSafe(vortexState, [`settings`, `gameMode`, `discovered`, GAME_ID, `path`], undefined);
+
+const archiveDirInStagingFor = (stagingPath: string, mod: VortexMod): string =>
+  path.join(stagingPath, mod.installationPath, ARCHIVE_MOD_CANONICAL_PREFIX);
+
+const isHeritageArchiveMod = (mod: VortexMod): boolean =>
+  mod.state === `installed` && attrModType(mod) !== ModType.REDmod;
+
+const isArchive = (filename: string): boolean =>
+  path.extname(filename).toLowerCase() === ARCHIVE_MOD_FILE_EXTENSION;
+
+
+//
+// Disk stuff
+//
+
+export const loadArchiveLoadOrder = async (
+  vortexApi: VortexApi,
+  archiveLoadOrderPath: string,
+): Promise<readonly ArchiveLoadOrderEntry[]> => {
+  const maybeFile =
+    await fileFromDiskTE({ relativePath: archiveLoadOrderPath, pathOnDisk: archiveLoadOrderPath })();
+
+  if (isLeft(maybeFile)) {
+    vortexApi.log(`info`, `${me}: No archive load order stored yet, starting with an empty one: ${maybeFile.left.message}`);
+    return [];
+  }
+
+  const decoded = decodeArchiveLoadOrder(maybeFile.right.content);
+
+  if (isLeft(decoded)) {
+    return Promise.reject(new Error(`${me}: Couldn't decode archive load order ${archiveLoadOrderPath}: ${decoded.left.message}`));
+  }
+
+  return decoded.right.entriesInOrderWithEarlierWinning;
+};
+
+const writeArchiveLoadOrder = async (
+  archiveLoadOrderPath: string,
+  archiveLoadOrder: ArchiveLoadOrder,
+): Promise<void> => {
+  const tempPath = `${archiveLoadOrderPath}.${Date.parse(archiveLoadOrder.generatedAt)}.tmp`;
+
+  await fs.ensureDirWritableAsync(path.dirname(archiveLoadOrderPath));
+  await fs.writeFileAsync(tempPath, encodeArchiveLoadOrder(archiveLoadOrder), { encoding: `utf8` });
+  await fs.renameAsync(tempPath, archiveLoadOrderPath);
+};
+
+export const loadArchiveRenames = async (
+  vortexApi: VortexApi,
+  archiveRenamesPath: string,
+): Promise<readonly RenamedArchive[]> => {
+  const maybeFile =
+    await fileFromDiskTE({ relativePath: archiveRenamesPath, pathOnDisk: archiveRenamesPath })();
+
+  if (isLeft(maybeFile)) {
+    vortexApi.log(`info`, `${me}: No archive renames recorded yet: ${maybeFile.left.message}`);
+    return [];
+  }
+
+  const decoded = decodeArchiveRenames(maybeFile.right.content);
+
+  if (isLeft(decoded)) {
+    return Promise.reject(new Error(`${me}: Couldn't decode archive renames ${archiveRenamesPath}: ${decoded.left.message}`));
+  }
+
+  return decoded.right.renamed;
+};
+
+const writeArchiveRenames = async (
+  archiveRenamesPath: string,
+  archiveRenames: ArchiveRenames,
+): Promise<void> => {
+  const tempPath = `${archiveRenamesPath}.${Date.parse(archiveRenames.generatedAt)}.tmp`;
+
+  await fs.writeFileAsync(tempPath, encodeArchiveRenames(archiveRenames), { encoding: `utf8` });
+  await fs.renameAsync(tempPath, archiveRenamesPath);
+};
+
+const archivesOnDiskFor = async (
+  stagingPath: string,
+  mod: VortexMod,
+  modState: VortexProfileModIndex,
+  renamed: readonly RenamedArchive[],
+  previousOrder: readonly ArchiveLoadOrderEntry[],
+): Promise<OrderableArchive[]> => {
+  let filenames: string[];
+
+  try {
+    filenames = await fs.readdirAsync(archiveDirInStagingFor(stagingPath, mod));
+  } catch (_error) {
+    // Not an archive mod
+    return [];
+  }
+
+  return filenames.filter(isArchive).map((nameOnDisk): OrderableArchive => ({
+    vortexId: mod.id,
+    vortexModId: mod.attributes?.modId?.toString(),
+    modName: vortexUtil.renderModName(mod),
+    enabled: modState[mod.id]?.enabled ?? false,
+    archiveName: originalArchiveNameFor(mod.id, nameOnDisk, renamed, previousOrder),
+    nameOnDisk,
+  }));
+};
+
+
+//
+// Public API
+//
+// The order is stored per profile like the REDmod load order, but the renames
+// happen in the staging folder, which is shared by all profiles. Applying an
+// order therefore affects every profile until another order is applied. The
+// record of what we've renamed is in staging too, so the next profile to
+// apply its order starts from the original names no matter whose they were.
+//
+
+export interface ArchiveLoadOrderDetes {
+  ownerVortexProfileId: string;
+  ordered: OrderableArchive[];
+  unordered: OrderableArchive[];
+}
+
+interface ArchiveLoadOrderContext {
+  activeProfile: VortexProfile;
+  stagingPath: string;
+  archiveLoadOrderPath: string;
+  archiveRenamesPath: string;
+  previousOrder: readonly ArchiveLoadOrderEntry[];
+  archives: OrderableArchive[];
+}
+
+const archiveLoadOrderContextFor = async (
+  vortexApi: VortexApi,
+): Promise<ArchiveLoadOrderContext> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+
+  const gameDirPath = getDiscoveryPath(vortexState);
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (gameDirPath === undefined || activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Game not found or wrong profile active, canceling: ${S(activeProfile)}`));
+  }
+
+  const stagingPath: string = selectors.installPathForGame(vortexState, GAME_ID);
+  const archiveLoadOrderPath = archiveLoadOrderPathFor(activeProfile, gameDirPath);
+  const previousOrder = await loadArchiveLoadOrder(vortexApi, archiveLoadOrderPath);
+  const archiveRenamesPath = archiveRenamesPathFor(stagingPath);
+  const renamed = await loadArchiveRenames(vortexApi, archiveRenamesPath);
+
+  const allModsKnownToVortex: VortexMod[] =
+    Object.values(vortexUtil.getSafe(vortexState, [`persistent`, `mods`, GAME_ID], {}));
+
+  const archivesPerMod = await Promise.all(
+    allModsKnownToVortex
+      .filter(isHeritageArchiveMod)
+      .map((mod) => archivesOnDiskFor(stagingPath, mod, activeProfile.modState ?? {}, renamed, previousOrder)),
+  );
+
+  return {
+    activeProfile,
+    stagingPath,
+    archiveLoadOrderPath,
+    archiveRenamesPath,
+    previousOrder,
+    archives: archivesPerMod.flat(),
+  };
+};
+
+export const compileArchiveLoadOrder = async (
+  vortexApi: VortexApi,
+): Promise<ArchiveLoadOrderDetes> => {
+  const { activeProfile, previousOrder, archives } = await archiveLoadOrderContextFor(vortexApi);
+
+  const inOrder = archivesInOrder(archives, previousOrder);
+
+  return {
+    ownerVortexProfileId: activeProfile.id,
+    ordered: inOrder.filter((archive) => isOrdered(archive, previousOrder)),
+    unordered: inOrder.filter((archive) => !isOrdered(archive, previousOrder)),
+  };
+};
+
+// Applying an empty order restores all the original names
+export const applyArchiveLoadOrder = async (
+  vortexApi: VortexApi,
+  orderedArchives: readonly OrderableArchive[],
+): Promise<void> => {
+  const {
+    activeProfile,
+    stagingPath,
+    archiveLoadOrderPath,
+    archiveRenamesPath,
+    archives,
+  } = await archiveLoadOrderContextFor(vortexApi);
+
+  const archiveLoadOrder: ArchiveLoadOrder = {
+    archiveLoadOrderFormatVersion: ARCHIVE_LOAD_ORDER_TYPE_VERSION,
+    generatedAt: new Date().toISOString(),
+    ownerVortexProfileId: activeProfile.id,
+    entriesInOrderWithEarlierWinning: orderedArchives.map(archiveLoadOrderEntryFor),
+  };
+
+  const renames = archiveRenamesFor(archiveLoadOrder.entriesInOrderWithEarlierWinning, archives);
+
+  vortexApi.log(`info`, `${me}: Applying archive load order with ${renames.length} renames`);
+  vortexApi.log(`debug`, `${me}: Renames: ${S(renames)}`);
+
+  const mods = vortexUtil.getSafe(vortexApi.store.getState(), [`persistent`, `mods`, GAME_ID], {});
+
+  const pathFor = (rename: ArchiveRename, filename: string): string =>
+    path.join(archiveDirInStagingFor(stagingPath, mods[rename.vortexId]), filename);
+
+  // Two steps so that nothing gets overwritten if a target name
+  // happens to be the current name of another archive
+  const tempSuffix = `.${Date.parse(archiveLoadOrder.generatedAt)}.tmp`;
+
+  try {
+    await Promise.all(renames.map((rename) =>
+      fs.renameAsync(pathFor(rename, rename.from), pathFor(rename, `${rename.from}${tempSuffix}`))));
+    await Promise.all(renames.map((rename) =>
+      fs.renameAsync(pathFor(rename, `${rename.from}${tempSuffix}`), pathFor(rename, rename.to))));
+
+    await writeArchiveRenames(archiveRenamesPath, {
+      archiveRenamesFormatVersion: ARCHIVE_RENAMES_TYPE_VERSION,
+      generatedAt: archiveLoadOrder.generatedAt,
+      renamed: renamedArchivesAfter(archives, renames),
+    });
+    await writeArchiveLoadOrder(archiveLoadOrderPath, archiveLoadOrder);
+  } catch (error) {
+    vortexApi.log(`error`, `${me}: Failed to apply archive load order: ${error.message}`);
+    showInfoNotification(vortexApi, InfoNotification.ArchiveLoadOrderApplyFailed);
+    return Promise.reject(error);
+  }
+
+  vortexApi.events.emit(`deploy-mods`, (error?: Error) => {
+    if (error) {
+      vortexApi.log(`error`, `${me}: Deployment after applying archive load order failed: ${error.message}`);
+      showInfoNotification(vortexApi, InfoNotification.ArchiveLoadOrderApplyFailed);
+    } else {
+      showInfoNotification(vortexApi, InfoNotification.ArchiveLoadOrderApplied);
+    }
+  });
+
+  return Promise.resolve();
+};
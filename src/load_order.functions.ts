@@ -2,8 +2,13 @@ import {
   Option,
   fromNullable,
 } from "fp-ts/lib/Option";
+import {
+  LoadOrderEntry,
+  LoadOrderUserDetes,
+} from "./load_order.types";
 import {
   VortexLoadOrder,
+  VortexLoadOrderEntry,
   VortexProfile,
   VortexState,
 } from "./vortex-wrapper";
@@ -11,3 +16,21 @@ import {
 export const loadOrderFromVortexState =
   (vortexState: VortexState, ownerProfile: VortexProfile): Option<VortexLoadOrder> =>
     fromNullable((vortexState.persistent as any)?.loadOrder?.[ownerProfile.id]);
+
+export const userDetesOf = (entry: LoadOrderEntry): LoadOrderUserDetes => ({
+  pin: entry.pin,
+  note: entry.note,
+  loadsAfter: entry.loadsAfter,
+  userDisabled: entry.userDisabled,
+  expanded: entry.expanded,
+});
+
+// Whether the Vortex mod is enabled is still up to Vortex
+export const withUserDetesFrom = (entry: LoadOrderEntry, vortexEntry: VortexLoadOrderEntry): VortexLoadOrderEntry => ({
+  ...vortexEntry,
+  enabled: vortexEntry.data.vortexEnabled && !entry.userDisabled,
+  data: {
+    ...vortexEntry.data,
+    ...userDetesOf(entry),
+  },
+});
@@ -0,0 +1,117 @@
+import {
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+} from "./vortex-wrapper";
+import {
+  LoadOrderEntryDataForVortex,
+} from "./load_order.types";
+
+//
+// Grouping REDmods by Vortex mod
+//
+// A Vortex mod with several REDmods in it shows up as one entry per REDmod,
+// and dragging one of them doesn't move the others. With grouping on, the
+// REDmods of each Vortex mod are kept together as one block wherever the
+// first REDmod of the mod is. That's the one without the submod suffix on
+// its id, so that's the one to drag. It always heads the block, and the
+// rest stay in the same order relative to each other.
+//
+// A group can be expanded to order its REDmods individually again. It's
+// stored on every REDmod in the mod, but any one of them is enough.
+//
+
+const dataFor = (entry: VortexLoadOrderEntry): LoadOrderEntryDataForVortex =>
+  entry.data;
+
+const vortexIdOf = (entry: VortexLoadOrderEntry): string =>
+  dataFor(entry).vortexId;
+
+export const isGroupLead = (entry: VortexLoadOrderEntry): boolean =>
+  entry.id === vortexIdOf(entry);
+
+const entriesByVortexMod = (loadOrder: VortexLoadOrder): Map<string, VortexLoadOrderEntry[]> => {
+  const byVortexMod = new Map<string, VortexLoadOrderEntry[]>();
+
+  loadOrder.forEach((entry) => {
+    byVortexMod.set(vortexIdOf(entry), [...(byVortexMod.get(vortexIdOf(entry)) ?? []), entry]);
+  });
+
+  return byVortexMod;
+};
+
+export const redmodCountForVortexMod = (loadOrder: VortexLoadOrder, vortexId: string): number =>
+  loadOrder.filter((entry) => vortexIdOf(entry) === vortexId).length;
+
+export const isGroupExpanded = (loadOrder: VortexLoadOrder, vortexId: string): boolean =>
+  loadOrder.some((entry) => vortexIdOf(entry) === vortexId && dataFor(entry).expanded === true);
+
+export const groupREDmodsByVortexMod = (loadOrder: VortexLoadOrder): VortexLoadOrderEntry[] => {
+  const byVortexMod = entriesByVortexMod(loadOrder);
+
+  const isGrouped = (entries: VortexLoadOrderEntry[]): boolean =>
+    entries.length > 1 && !entries.some((entry) => dataFor(entry).expanded === true);
+
+  const leadOf = (entries: VortexLoadOrderEntry[]): VortexLoadOrderEntry =>
+    entries.find(isGroupLead) ?? entries[0];
+
+  return loadOrder.flatMap((entry) => {
+    const entries = byVortexMod.get(vortexIdOf(entry));
+
+    if (!isGrouped(entries)) {
+      return [entry];
+    }
+
+    const lead = leadOf(entries);
+
+    return lead === entry
+      ? [lead, ...entries.filter((other) => other !== lead)]
+      : [];
+  });
+};
+
+export const withGroupExpanded = (
+  loadOrder: VortexLoadOrder,
+  vortexId: string,
+  expanded: boolean,
+): VortexLoadOrderEntry[] =>
+  loadOrder.map((entry) =>
+    (vortexIdOf(entry) === vortexId
+      ? { ...entry, data: { ...dataFor(entry), expanded: expanded || undefined } }
+      : entry));
+
+//
+// Vortex only tells us the new order, so to find out what was dragged we
+// compare it with the one we stored last time. With one entry moved, it's
+// the one that leaves the rest in the same order when taken out of both.
+// Swapping two neighbours makes both look moved, which is fine here.
+//
+
+const withoutKey = (keys: readonly string[], key: string): string[] =>
+  keys.filter((other) => other !== key);
+
+const sameKeys = (keys: readonly string[], other: readonly string[]): boolean =>
+  keys.length === other.length && keys.every((key, position) => key === other[position]);
+
+export const movedEntryKeys = (keysBefore: readonly string[], keysNow: readonly string[]): string[] =>
+  (sameKeys(keysBefore, keysNow)
+    ? []
+    : keysNow.filter((key) =>
+      keysBefore.includes(key) && sameKeys(withoutKey(keysBefore, key), withoutKey(keysNow, key))));
+
+export const draggedGroupMembers = (
+  keysBefore: readonly string[],
+  loadOrder: VortexLoadOrder,
+  keyOf: (entry: VortexLoadOrderEntry) => string,
+): VortexLoadOrderEntry[] => {
+  const moved = new Set(movedEntryKeys(keysBefore, loadOrder.map(keyOf)));
+
+  return loadOrder.filter((entry) =>
+    moved.has(keyOf(entry))
+    && !isGroupLead(entry)
+    && redmodCountForVortexMod(loadOrder, vortexIdOf(entry)) > 1
+    && !isGroupExpanded(loadOrder, vortexIdOf(entry)));
+};
+
+export const sameOrder = (loadOrder: VortexLoadOrder, other: VortexLoadOrder): boolean =>
+  loadOrder.length === other.length
+  && loadOrder.every((entry, position) => entry.id === other[position].id);
@@ -0,0 +1,292 @@
+import {
+  win32,
+} from "path";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  actions,
+  fs,
+  selectors,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  GAME_ID,
+} from "./index.metadata";
+import {
+  decodeLoadOrder,
+  LoadOrder,
+  LoadOrderDiff,
+  LoadOrderEntry,
+  LoadOrderEntryUserDetesChange,
+  LoadOrderSnapshot,
+  LoadOrderSnapshotRestore,
+  LoadOrderUserDetes,
+} from "./load_order.types";
+import {
+  userDetesOf,
+  withUserDetesFrom,
+} from "./load_order.functions";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  V2077_LOAD_ORDER_DIR,
+} from "./redmodding.metadata";
+import {
+  VortexApi,
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+  VortexProfile,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+import {
+  InfoNotification,
+  showInfoNotification,
+} from "./ui.notifications";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Load Order History`;
+
+export const LOAD_ORDER_SNAPSHOT_RETENTION_LIMIT = 50;
+
+const SNAPSHOT_EXTENSION = `.json`;
+
+const snapshotFilenamePrefixFor = (profile: VortexProfile): string =>
+  `${EXTENSION_NAME_INTERNAL}-load-order-${profile.id}-snapshot-`;
+
+export const snapshotFilenameFor = (profile: VortexProfile, loID: number): string =>
+  `${snapshotFilenamePrefixFor(profile)}${loID}${SNAPSHOT_EXTENSION}`;
+
+const snapshotDirFor = (gameDirPath: string): string =>
+  path.join(gameDirPath, V2077_LOAD_ORDER_DIR);
+
+const getDiscoveryPath = (vortexState: VortexState): string | undefined =>
+  vortexUtil.getSafe(vortexState, [`settings`, `gameMode`, `discovered`, GAME_ID, `path`], undefined);
+
+
+//
+// Finding and pruning snapshots
+//
+
+// Newest first
+export const snapshotIdsIn = (profile: VortexProfile, filenames: readonly string[]): number[] => {
+  const prefix = snapshotFilenamePrefixFor(profile);
+
+  return filenames
+    .filter((filename) => filename.startsWith(prefix) && filename.endsWith(SNAPSHOT_EXTENSION))
+    .map((filename) => Number(filename.slice(prefix.length, -SNAPSHOT_EXTENSION.length)))
+    .filter((loID) => Number.isInteger(loID))
+    .sort((a, b) => b - a);
+};
+
+export const snapshotIdsToPrune = (
+  snapshotIdsNewestFirst: readonly number[],
+  retentionLimit: number,
+): number[] =>
+  snapshotIdsNewestFirst.slice(retentionLimit);
+
+const snapshotIdsOnDisk = async (profile: VortexProfile, snapshotDir: string): Promise<number[]> =>
+  snapshotIdsIn(profile, await fs.readdirAsync(snapshotDir));
+
+const pruneSnapshots = async (
+  vortexApi: VortexApi,
+  profile: VortexProfile,
+  snapshotDir: string,
+): Promise<void> => {
+  const prunable = snapshotIdsToPrune(
+    await snapshotIdsOnDisk(profile, snapshotDir),
+    LOAD_ORDER_SNAPSHOT_RETENTION_LIMIT,
+  );
+
+  if (prunable.length > 0) {
+    vortexApi.log(`debug`, `${me}: Removing ${prunable.length} old snapshot(s) for profile ${profile.id}`);
+  }
+
+  await Promise.all(prunable.map((loID) =>
+    fs.removeAsync(path.join(snapshotDir, snapshotFilenameFor(profile, loID)))));
+};
+
+// Losing a snapshot is no reason to fail the serialize,
+// so this only logs and never rejects
+export const snapshotLoadOrder = async (
+  vortexApi: VortexApi,
+  profile: VortexProfile,
+  gameDirPath: string,
+  loID: number,
+  serializedLoadOrder: string,
+): Promise<void> => {
+  const snapshotDir = snapshotDirFor(gameDirPath);
+  const snapshotPath = path.join(snapshotDir, snapshotFilenameFor(profile, loID));
+
+  try {
+    await fs.writeFileAsync(snapshotPath, serializedLoadOrder, { encoding: `utf8` });
+    await pruneSnapshots(vortexApi, profile, snapshotDir);
+  } catch (error) {
+    vortexApi.log(`warn`, `${me}: Couldn't snapshot load order ${loID} to ${snapshotPath}: ${error.message}`);
+    return Promise.resolve();
+  }
+
+  vortexApi.log(`info`, `${me}: Snapshotted load order ${loID} to ${snapshotPath}`);
+  return Promise.resolve();
+};
+
+// Anything that can't be read is skipped, the rest are still useful
+export const loadLoadOrderSnapshots = async (
+  vortexApi: VortexApi,
+): Promise<LoadOrderSnapshot[]> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+  const gameDirPath = getDiscoveryPath(vortexState);
+
+  if (gameDirPath === undefined || activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Game not found or wrong profile active, no snapshots to load`));
+  }
+
+  const snapshotDir = snapshotDirFor(gameDirPath);
+
+  const maybeSnapshots = await Promise.all(
+    (await snapshotIdsOnDisk(activeProfile, snapshotDir)).map(async (loID): Promise<LoadOrderSnapshot[]> => {
+      const snapshotPath = path.join(snapshotDir, snapshotFilenameFor(activeProfile, loID));
+      const maybeFile = await fileFromDiskTE({ relativePath: snapshotPath, pathOnDisk: snapshotPath })();
+
+      const maybeLoadOrder = isLeft(maybeFile)
+        ? maybeFile
+        : decodeLoadOrder(maybeFile.right.content);
+
+      if (isLeft(maybeLoadOrder)) {
+        vortexApi.log(`warn`, `${me}: Skipping unreadable snapshot ${snapshotPath}: ${maybeLoadOrder.left.message}`);
+        return [];
+      }
+
+      return [{ loID, path: snapshotPath, loadOrder: maybeLoadOrder.right }];
+    }),
+  );
+
+  return maybeSnapshots.flat();
+};
+
+
+//
+// Comparing
+//
+
+const entryKeyFor = (entry: LoadOrderEntry): string =>
+  `${entry.vortexId}:${entry.redmodPath}`;
+
+const entriesInOrder = (loadOrder: LoadOrder): LoadOrderEntry[] =>
+  [...loadOrder.entriesInOrderWithEarlierWinning].sort((a, b) => a.index - b.index);
+
+// JSON so that `loadsAfter` compares by content
+const userDetesChangedBetween = (older: LoadOrderEntry, newer: LoadOrderEntry): (keyof LoadOrderUserDetes)[] => {
+  const olderDetes = userDetesOf(older);
+  const newerDetes = userDetesOf(newer);
+
+  return (Object.keys(newerDetes) as (keyof LoadOrderUserDetes)[])
+    .filter((key) => JSON.stringify(olderDetes[key]) !== JSON.stringify(newerDetes[key]));
+};
+
+export const diffLoadOrders = (older: LoadOrder, newer: LoadOrder): LoadOrderDiff => {
+  const olderEntries = entriesInOrder(older);
+  const newerEntries = entriesInOrder(newer);
+
+  const olderKeys = new Set(olderEntries.map(entryKeyFor));
+  const newerKeys = new Set(newerEntries.map(entryKeyFor));
+
+  const olderInBoth = olderEntries.filter((entry) => newerKeys.has(entryKeyFor(entry)));
+  const newerInBoth = newerEntries.filter((entry) => olderKeys.has(entryKeyFor(entry)));
+
+  const olderPositionFor = new Map(olderInBoth.map((entry, position) => [entryKeyFor(entry), position]));
+  const olderEnabledFor = new Map(olderInBoth.map((entry) => [entryKeyFor(entry), entry.enabled]));
+  const olderEntryFor = new Map(olderInBoth.map((entry) => [entryKeyFor(entry), entry]));
+
+  return {
+    added: newerEntries.filter((entry) => !olderKeys.has(entryKeyFor(entry))),
+    removed: olderEntries.filter((entry) => !newerKeys.has(entryKeyFor(entry))),
+    moved: newerInBoth
+      .map((entry, to) => ({ entry, from: olderPositionFor.get(entryKeyFor(entry)), to }))
+      .filter((move) => move.from !== move.to),
+    enabledChanged: newerInBoth.filter((entry) => olderEnabledFor.get(entryKeyFor(entry)) !== entry.enabled),
+    userDetesChanged: newerInBoth
+      .map((entry): LoadOrderEntryUserDetesChange =>
+        ({ entry, changed: userDetesChangedBetween(olderEntryFor.get(entryKeyFor(entry)), entry) }))
+      .filter((change) => change.changed.length > 0),
+  };
+};
+
+
+//
+// Restoring
+//
+// The order is restored along with pins, notes, load after rules, what
+// was unticked and which groups were expanded. Whether a Vortex mod is
+// enabled is up to Vortex, and anything installed since the snapshot
+// comes after everything in it.
+//
+
+const sameREDmod = (snapshotEntry: LoadOrderEntry) =>
+  (vortexEntry: VortexLoadOrderEntry): boolean =>
+    vortexEntry.data.vortexId === snapshotEntry.vortexId
+    && vortexEntry.data.redmodInfo.relativePath === snapshotEntry.redmodPath;
+
+export const matchLoadOrderSnapshot = (
+  snapshottedLoadOrder: LoadOrder,
+  orderableEntries: VortexLoadOrder,
+): LoadOrderSnapshotRestore => {
+  const snapshotEntries = entriesInOrder(snapshottedLoadOrder);
+
+  const matched = snapshotEntries.flatMap((snapshotEntry) =>
+    orderableEntries
+      .filter(sameREDmod(snapshotEntry))
+      .map((vortexEntry) => withUserDetesFrom(snapshotEntry, vortexEntry)));
+  const unmatched = orderableEntries.filter((vortexEntry) =>
+    !snapshotEntries.some((snapshotEntry) => sameREDmod(snapshotEntry)(vortexEntry)));
+  const missing = snapshotEntries.filter((snapshotEntry) => !orderableEntries.some(sameREDmod(snapshotEntry)));
+
+  return {
+    loadOrder: [...matched, ...unmatched],
+    missing,
+  };
+};
+
+// Setting the load order in the store makes Vortex run our serialize,
+// so this gets snapshotted and deployed like any other change
+export const restoreLoadOrderSnapshot = async (
+  vortexApi: VortexApi,
+  snapshot: LoadOrderSnapshot,
+  orderableEntries: VortexLoadOrder,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Wrong game, not restoring`));
+  }
+
+  const restored = matchLoadOrderSnapshot(snapshot.loadOrder, orderableEntries);
+
+  vortexApi.log(`info`, `${me}: Restoring load order ${snapshot.loID} to profile ${activeProfile.id}`, {
+    missing: restored.missing,
+  });
+
+  vortexApi.store.dispatch(actions.setFBLoadOrder(activeProfile.id, restored.loadOrder));
+
+  const missingMessage = restored.missing.length > 0
+    ? ` ${restored.missing.length} REDmod(s) in it aren't installed anymore and were skipped.`
+    : ``;
+
+  showInfoNotification(
+    vortexApi,
+    InfoNotification.LoadOrderSnapshotRestored,
+    `The load order from ${new Date(snapshot.loID).toLocaleString()} will be deployed on the next deployment.${missingMessage}`,
+  );
+
+  return Promise.resolve();
+};
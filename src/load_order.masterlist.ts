@@ -0,0 +1,203 @@
+import {
+  win32,
+} from "path";
+import {
+  pipe,
+} from "fp-ts/lib/function";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  contramap,
+  Ord,
+} from "fp-ts/lib/Ord";
+import {
+  Ord as NumericOrd,
+} from "fp-ts/lib/number";
+import {
+  sortBy,
+} from "fp-ts/lib/ReadonlyArray";
+import {
+  actions,
+  selectors,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  GAME_ID,
+} from "./index.metadata";
+import {
+  byPinTopFirstBottomLast,
+  decodeMasterlist,
+  DEFAULT_MASTERLIST_GROUP,
+  LoadOrderEntryDataForVortex,
+  Masterlist,
+  MasterlistEntry,
+  MasterlistSortChange,
+} from "./load_order.types";
+import {
+  internalLoadOrderer,
+} from "./load_order";
+import {
+  sortByLoadAfterRules,
+} from "./load_order.rules";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  V2077_LOAD_ORDER_DIR,
+} from "./redmodding.metadata";
+import {
+  VortexApi,
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+import {
+  InfoNotification,
+  showInfoNotification,
+} from "./ui.notifications";
+import {
+  promptUserToApplyMasterlistSort,
+} from "./ui.dialogs";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Masterlist`;
+
+export const masterlistPathFor = (gameDirPath: string): string =>
+  path.join(gameDirPath, V2077_LOAD_ORDER_DIR, `${EXTENSION_NAME_INTERNAL}-masterlist.json`);
+
+
+//
+// Sorting
+//
+
+const dataFor = (entry: VortexLoadOrderEntry): LoadOrderEntryDataForVortex =>
+  entry.data;
+
+// Name is more specific, a Nexus mod can have several REDmods
+const masterlistEntryFor = (masterlist: Masterlist, entry: VortexLoadOrderEntry): MasterlistEntry | undefined =>
+  masterlist.entries.find((known) => known.redmodName === dataFor(entry).redmodInfo.name) ??
+  masterlist.entries.find((known) =>
+    known.redmodName === undefined
+    && known.nexusModId !== undefined
+    && known.nexusModId === dataFor(entry).vortexModId);
+
+// Unknown groups go where `default` is, or last if it isn't listed
+const groupPositionFor = (masterlist: Masterlist, entry: VortexLoadOrderEntry): number => {
+  const group = masterlistEntryFor(masterlist, entry)?.group ?? DEFAULT_MASTERLIST_GROUP;
+  const position = masterlist.groups.indexOf(group);
+
+  if (position !== -1) {
+    return position;
+  }
+
+  const defaultPosition = masterlist.groups.indexOf(DEFAULT_MASTERLIST_GROUP);
+
+  return defaultPosition !== -1 ? defaultPosition : masterlist.groups.length;
+};
+
+const byMasterlistGroup = (masterlist: Masterlist): Ord<VortexLoadOrderEntry> =>
+  pipe(
+    NumericOrd,
+    contramap((entry: VortexLoadOrderEntry) => groupPositionFor(masterlist, entry)),
+  );
+
+const withMasterlistRules = (masterlist: Masterlist) =>
+  (entry: VortexLoadOrderEntry): VortexLoadOrderEntry => ({
+    ...entry,
+    data: {
+      ...dataFor(entry),
+      loadsAfter: [
+        ...(dataFor(entry).loadsAfter ?? []),
+        ...(masterlistEntryFor(masterlist, entry)?.loadsAfter ?? []),
+      ],
+    },
+  });
+
+// Pins still win, and the user's own rules are followed along with the masterlist's
+export const sortUsingMasterlist = (
+  loadOrder: VortexLoadOrder,
+  masterlist: Masterlist,
+): VortexLoadOrderEntry[] => {
+  const originalEntries = new Map(loadOrder.map((entry) => [entry.id, entry]));
+
+  return pipe(
+    loadOrder.map(withMasterlistRules(masterlist)),
+    sortBy([byPinTopFirstBottomLast, byMasterlistGroup(masterlist)]),
+    sortByLoadAfterRules,
+  ).map((entry) => originalEntries.get(entry.id));
+};
+
+export const masterlistSortChanges = (
+  before: VortexLoadOrder,
+  after: VortexLoadOrder,
+): MasterlistSortChange[] =>
+  after
+    .map((entry, to): MasterlistSortChange => ({
+      redmodName: dataFor(entry).redmodInfo.name,
+      from: before.findIndex((previous) => previous.id === entry.id),
+      to,
+    }))
+    .filter((change) => change.from !== change.to);
+
+
+//
+// Action
+//
+
+// Setting the load order in the store makes Vortex run our serialize
+export const sortLoadOrderUsingMasterlist = async (
+  vortexApi: VortexApi,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+  const gameDirPath: string =
+    vortexUtil.getSafe(vortexState, [`settings`, `gameMode`, `discovered`, GAME_ID, `path`], undefined);
+
+  if (gameDirPath === undefined || activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Game not found or wrong profile active, not sorting`));
+  }
+
+  const masterlistPath = masterlistPathFor(gameDirPath);
+
+  const maybeFile = await fileFromDiskTE({ relativePath: masterlistPath, pathOnDisk: masterlistPath })();
+
+  const maybeMasterlist = isLeft(maybeFile)
+    ? maybeFile
+    : decodeMasterlist(maybeFile.right.content);
+
+  if (isLeft(maybeMasterlist)) {
+    vortexApi.log(`error`, `${me}: Couldn't load masterlist ${masterlistPath}: ${maybeMasterlist.left.message}`);
+    showInfoNotification(vortexApi, InfoNotification.MasterlistLoadFailed);
+    return Promise.resolve();
+  }
+
+  const masterlist = maybeMasterlist.right;
+  const currentLoadOrder = await internalLoadOrderer.deserializeLoadOrder(vortexApi);
+  const sortedLoadOrder = sortUsingMasterlist(currentLoadOrder, masterlist);
+  const changes = masterlistSortChanges(currentLoadOrder, sortedLoadOrder);
+
+  if (changes.length < 1) {
+    showInfoNotification(vortexApi, InfoNotification.MasterlistSortedAlready);
+    return Promise.resolve();
+  }
+
+  const userWantsToApply = await promptUserToApplyMasterlistSort(vortexApi, changes);
+
+  if (!userWantsToApply) {
+    vortexApi.log(`info`, `${me}: User chose not to apply the masterlist sort`);
+    return Promise.resolve();
+  }
+
+  vortexApi.log(`info`, `${me}: Applying masterlist sort to profile ${activeProfile.id}`, changes);
+  vortexApi.store.dispatch(actions.setFBLoadOrder(activeProfile.id, sortedLoadOrder));
+
+  return Promise.resolve();
+};
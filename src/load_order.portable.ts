@@ -0,0 +1,285 @@
+import {
+  pipe,
+} from "fp-ts/lib/function";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  isNone,
+} from "fp-ts/lib/Option";
+import {
+  findIndex,
+  map,
+  reduce,
+  toArray as toMutableArray,
+} from "fp-ts/lib/ReadonlyArray";
+import {
+  actions,
+  fs,
+  selectors,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  GAME_ID,
+} from "./index.metadata";
+import {
+  decodePortableLoadOrder,
+  encodePortableLoadOrder,
+  LoadOrderEntryDataForVortex,
+  PORTABLE_LOAD_ORDER_TYPE_VERSION,
+  PortableLoadOrder,
+  PortableLoadOrderEntry,
+  PortableLoadOrderImport,
+} from "./load_order.types";
+import {
+  internalLoadOrderer,
+} from "./load_order";
+import {
+  loadOrderFromVortexState,
+} from "./load_order.functions";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  VortexApi,
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+  VortexState,
+} from "./vortex-wrapper";
+import {
+  InfoNotification,
+  showInfoNotification,
+} from "./ui.notifications";
+import {
+  showLoadOrderImportReportDialog,
+} from "./ui.dialogs";
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Portable Load Order`;
+
+const PORTABLE_LOAD_ORDER_FILE_FILTERS = [{ name: `Load Order`, extensions: [`json`] }];
+
+
+//
+// Vortex load order -> portable
+//
+
+const makePortableLoadOrderEntryFrom = (vortexEntry: VortexLoadOrderEntry): PortableLoadOrderEntry => {
+  const modDetes: LoadOrderEntryDataForVortex = vortexEntry.data;
+
+  return {
+    nexusModId: modDetes.vortexModId,
+    fileVersion: modDetes.vortexModVersion,
+    redmodName: modDetes.redmodInfo.name,
+    enabled: vortexEntry.enabled,
+  };
+};
+
+export const makePortableLoadOrderFrom = (
+  vortexLoadOrder: VortexLoadOrder,
+  exportedAt: number,
+): PortableLoadOrder => ({
+  portableLoadOrderFormatVersion: PORTABLE_LOAD_ORDER_TYPE_VERSION,
+  exportedAt: new Date(exportedAt).toISOString(),
+  entriesInOrderWithEarlierWinning: pipe(
+    vortexLoadOrder,
+    map(makePortableLoadOrderEntryFrom),
+    toMutableArray,
+  ),
+});
+
+
+//
+// Portable -> Vortex load order
+//
+// The Nexus mod id and REDmod name together are the best match we can get.
+// Mods installed manually don't have a Nexus id, so if there's no exact match
+// we settle for the name. Versions are allowed to differ, but we tell the user.
+//
+// Whether a Vortex mod is enabled is still up to Vortex, but REDmods that
+// weren't in use in the imported order are unticked, like they would be
+// when copying from another profile.
+//
+
+const sameREDmod = (portableEntry: PortableLoadOrderEntry) =>
+  (vortexEntry: VortexLoadOrderEntry): boolean =>
+    vortexEntry.data.redmodInfo.name === portableEntry.redmodName;
+
+const sameREDmodFromSameNexusMod = (portableEntry: PortableLoadOrderEntry) =>
+  (vortexEntry: VortexLoadOrderEntry): boolean =>
+    sameREDmod(portableEntry)(vortexEntry)
+    && vortexEntry.data.vortexModId === portableEntry.nexusModId;
+
+const withEnabledStatusFrom = (
+  portableEntry: PortableLoadOrderEntry,
+  vortexEntry: VortexLoadOrderEntry,
+): VortexLoadOrderEntry => ({
+  ...vortexEntry,
+  enabled: vortexEntry.data.vortexEnabled && portableEntry.enabled,
+  data: {
+    ...vortexEntry.data,
+    userDisabled: !portableEntry.enabled || undefined,
+  },
+});
+
+interface MatchingProgress {
+  matched: VortexLoadOrderEntry[];
+  unmatched: VortexLoadOrderEntry[];
+  missing: PortableLoadOrderEntry[];
+  differentVersion: PortableLoadOrderEntry[];
+}
+
+const matchOne = (progress: MatchingProgress, portableEntry: PortableLoadOrderEntry): MatchingProgress => {
+  const maybeExactMatch = findIndex(sameREDmodFromSameNexusMod(portableEntry))(progress.unmatched);
+  const maybeMatch = isNone(maybeExactMatch)
+    ? findIndex(sameREDmod(portableEntry))(progress.unmatched)
+    : maybeExactMatch;
+
+  if (isNone(maybeMatch)) {
+    return { ...progress, missing: [...progress.missing, portableEntry] };
+  }
+
+  const match = progress.unmatched[maybeMatch.value];
+  const isDifferentVersion = match.data.vortexModVersion !== portableEntry.fileVersion;
+
+  return {
+    matched: [...progress.matched, withEnabledStatusFrom(portableEntry, match)],
+    unmatched: progress.unmatched.filter((_, index) => index !== maybeMatch.value),
+    missing: progress.missing,
+    differentVersion: isDifferentVersion
+      ? [...progress.differentVersion, portableEntry]
+      : progress.differentVersion,
+  };
+};
+
+// Anything installed that isn't in the imported order keeps its
+// current relative order after everything that is
+export const matchPortableLoadOrder = (
+  portableLoadOrder: PortableLoadOrder,
+  orderableEntries: VortexLoadOrder,
+): PortableLoadOrderImport => {
+  const {
+    matched,
+    unmatched,
+    missing,
+    differentVersion,
+  } = pipe(
+    portableLoadOrder.entriesInOrderWithEarlierWinning,
+    reduce(
+      {
+        matched: [],
+        unmatched: [...orderableEntries],
+        missing: [],
+        differentVersion: [],
+      },
+      matchOne,
+    ),
+  );
+
+  return {
+    loadOrder: [...matched, ...unmatched],
+    missing,
+    differentVersion,
+  };
+};
+
+
+//
+// Actions
+//
+
+export const exportLoadOrder = async (
+  vortexApi: VortexApi,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Wrong game, not exporting`));
+  }
+
+  const maybeVortexLoadOrder = loadOrderFromVortexState(vortexState, activeProfile);
+
+  if (isNone(maybeVortexLoadOrder)) {
+    vortexApi.log(`warn`, `${me}: No load order for profile ${activeProfile.id}, nothing to export`);
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderExportFailed);
+    return Promise.resolve();
+  }
+
+  const exportPath: string | undefined = await vortexApi.saveFile({
+    title: `Export Load Order`,
+    defaultPath: `${EXTENSION_NAME_INTERNAL}-load-order-${activeProfile.name}.json`,
+    filters: PORTABLE_LOAD_ORDER_FILE_FILTERS,
+  });
+
+  if (!exportPath) {
+    return Promise.resolve();
+  }
+
+  const portableLoadOrder = makePortableLoadOrderFrom(maybeVortexLoadOrder.value, Date.now());
+
+  try {
+    await fs.writeFileAsync(exportPath, encodePortableLoadOrder(portableLoadOrder), { encoding: `utf8` });
+  } catch (error) {
+    vortexApi.log(`error`, `${me}: Failed to write ${exportPath}: ${error.message}`);
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderExportFailed);
+    return Promise.resolve();
+  }
+
+  vortexApi.log(`info`, `${me}: Exported load order for profile ${activeProfile.id} to ${exportPath}`);
+  showInfoNotification(vortexApi, InfoNotification.LoadOrderExported);
+
+  return Promise.resolve();
+};
+
+// Setting the load order in the store makes Vortex run
+// our serialize, so this goes through the usual path
+export const importLoadOrder = async (
+  vortexApi: VortexApi,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Wrong game, not importing`));
+  }
+
+  const importPath: string | undefined = await vortexApi.selectFile({
+    title: `Import Load Order`,
+    filters: PORTABLE_LOAD_ORDER_FILE_FILTERS,
+  });
+
+  if (!importPath) {
+    return Promise.resolve();
+  }
+
+  const maybeFile = await fileFromDiskTE({ relativePath: importPath, pathOnDisk: importPath })();
+
+  const maybePortableLoadOrder = isLeft(maybeFile)
+    ? maybeFile
+    : decodePortableLoadOrder(maybeFile.right.content);
+
+  if (isLeft(maybePortableLoadOrder)) {
+    vortexApi.log(`error`, `${me}: Couldn't import ${importPath}: ${maybePortableLoadOrder.left.message}`);
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderImportFailed);
+    return Promise.resolve();
+  }
+
+  const orderableEntries = await internalLoadOrderer.deserializeLoadOrder(vortexApi);
+
+  const imported = matchPortableLoadOrder(maybePortableLoadOrder.right, orderableEntries);
+
+  vortexApi.log(`info`, `${me}: Importing load order from ${importPath} to profile ${activeProfile.id}`, {
+    missing: imported.missing,
+    differentVersion: imported.differentVersion,
+  });
+
+  vortexApi.store.dispatch(actions.setFBLoadOrder(activeProfile.id, imported.loadOrder));
+
+  showLoadOrderImportReportDialog(vortexApi, importPath, imported.missing, imported.differentVersion);
+
+  return Promise.resolve();
+};
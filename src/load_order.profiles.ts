@@ -0,0 +1,201 @@
+import {
+  Either,
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  actions,
+  selectors,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  GAME_ID,
+} from "./index.metadata";
+import {
+  decodeLoadOrder,
+  LoadOrder,
+  LoadOrderEntry,
+  ProfileLoadOrderCopy,
+} from "./load_order.types";
+import {
+  internalLoadOrderer,
+  loadOrderPathFor,
+} from "./load_order";
+import {
+  withUserDetesFrom,
+} from "./load_order.functions";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  VortexApi,
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+  VortexProfile,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+import {
+  InfoNotification,
+  showInfoNotification,
+} from "./ui.notifications";
+import {
+  promptUserToChooseProfileToCopyLoadOrderFrom,
+  showLoadOrderCopyReportDialog,
+} from "./ui.dialogs";
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Profile Load Orders`;
+
+const getDiscoveryPath = (vortexState: VortexState): string | undefined =>
+  vortexUtil.getSafe(vortexState, [`settings`, `gameMode`, `discovered`, GAME_ID, `path`], undefined);
+
+export const gameProfilesIn = (vortexState: VortexState): VortexProfile[] =>
+  Object.values<VortexProfile>(vortexUtil.getSafe(vortexState, [`persistent`, `profiles`], {}))
+    .filter((profile) => profile.gameId === GAME_ID);
+
+
+//
+// Loading
+//
+// Each profile's load order is in its own file, so we can read any of them
+// the same way we read the active one.
+//
+
+export const loadProfileLoadOrder = async (
+  vortexApi: VortexApi,
+  profile: VortexProfile,
+): Promise<Either<Error, LoadOrder>> => {
+  const gameDirPath = getDiscoveryPath(vortexApi.store.getState());
+
+  if (gameDirPath === undefined) {
+    return Promise.reject(new Error(`${me}: Game not found, can't load profile load orders`));
+  }
+
+  const loadOrderPath = loadOrderPathFor(profile, gameDirPath);
+  const maybeFile = await fileFromDiskTE({ relativePath: loadOrderPath, pathOnDisk: loadOrderPath })();
+
+  const maybeLoadOrder = isLeft(maybeFile)
+    ? maybeFile
+    : decodeLoadOrder(maybeFile.right.content);
+
+  if (isLeft(maybeLoadOrder)) {
+    vortexApi.log(`warn`, `${me}: Couldn't load the load order of ${profile.id}: ${maybeLoadOrder.left.message}`);
+  }
+
+  return maybeLoadOrder;
+};
+
+
+//
+// Copying
+//
+// Vortex mods are shared between profiles, so the Vortex id is almost always
+// the same. If the mod was reinstalled as a new copy, the Nexus mod id is the
+// next best thing. Either way the REDmod name has to match, too.
+//
+// Pins, notes, load after rules, unticking and expanded groups go along with
+// the order, since they're part of what makes the load order what it is.
+//
+
+const sameREDmodFromSameVortexMod = (entry: LoadOrderEntry) =>
+  (vortexEntry: VortexLoadOrderEntry): boolean =>
+    vortexEntry.data.vortexId === entry.vortexId
+    && vortexEntry.data.redmodInfo.name === entry.redmodName;
+
+const sameREDmodFromSameNexusMod = (entry: LoadOrderEntry) =>
+  (vortexEntry: VortexLoadOrderEntry): boolean =>
+    entry.vortexModId !== undefined
+    && vortexEntry.data.vortexModId === entry.vortexModId
+    && vortexEntry.data.redmodInfo.name === entry.redmodName;
+
+export const matchProfileLoadOrder = (
+  otherLoadOrder: LoadOrder,
+  orderableEntries: VortexLoadOrder,
+): ProfileLoadOrderCopy => {
+  const otherEntries =
+    [...otherLoadOrder.entriesInOrderWithEarlierWinning].sort((a, b) => a.index - b.index);
+
+  let unmatched = [...orderableEntries];
+  const matched: VortexLoadOrderEntry[] = [];
+  const missing: LoadOrderEntry[] = [];
+
+  otherEntries.forEach((entry) => {
+    const exactMatch = unmatched.find(sameREDmodFromSameVortexMod(entry));
+    const match = exactMatch ?? unmatched.find(sameREDmodFromSameNexusMod(entry));
+
+    if (match === undefined) {
+      missing.push(entry);
+      return;
+    }
+
+    matched.push(withUserDetesFrom(entry, match));
+    unmatched = unmatched.filter((vortexEntry) => vortexEntry !== match);
+  });
+
+  return {
+    loadOrder: [...matched, ...unmatched],
+    missing,
+  };
+};
+
+// Setting the load order in the store makes Vortex run our serialize,
+// so this gets snapshotted and deployed like any other change
+export const copyLoadOrderFromProfile = async (
+  vortexApi: VortexApi,
+  fromProfile: VortexProfile,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Wrong game, not copying`));
+  }
+
+  const maybeLoadOrder = await loadProfileLoadOrder(vortexApi, fromProfile);
+
+  if (isLeft(maybeLoadOrder)) {
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderCopyFailed);
+    return Promise.resolve();
+  }
+
+  const orderableEntries = await internalLoadOrderer.deserializeLoadOrder(vortexApi);
+
+  const copied = matchProfileLoadOrder(maybeLoadOrder.right, orderableEntries);
+
+  vortexApi.log(`info`, `${me}: Copying load order from profile ${fromProfile.id} to ${activeProfile.id}`, {
+    missing: copied.missing,
+  });
+
+  vortexApi.store.dispatch(actions.setFBLoadOrder(activeProfile.id, copied.loadOrder));
+
+  showLoadOrderCopyReportDialog(vortexApi, fromProfile.name, copied.missing);
+
+  return Promise.resolve();
+};
+
+export const copyLoadOrderFromAnotherProfile = async (
+  vortexApi: VortexApi,
+): Promise<void> => {
+  const vortexState: VortexState = vortexApi.store.getState();
+  const activeProfile = selectors.activeProfile(vortexState);
+
+  if (activeProfile?.gameId !== GAME_ID) {
+    return Promise.reject(new Error(`${me}: Wrong game, not copying`));
+  }
+
+  const otherProfiles = gameProfilesIn(vortexState).filter((profile) => profile.id !== activeProfile.id);
+
+  if (otherProfiles.length < 1) {
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderCopyNoOtherProfiles);
+    return Promise.resolve();
+  }
+
+  const fromProfile = await promptUserToChooseProfileToCopyLoadOrderFrom(vortexApi, otherProfiles);
+
+  return fromProfile !== undefined
+    ? copyLoadOrderFromProfile(vortexApi, fromProfile)
+    : Promise.resolve();
+};
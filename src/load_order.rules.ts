@@ -0,0 +1,125 @@
+import {
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+} from "./vortex-wrapper";
+import {
+  LoadOrderEntryDataForVortex,
+} from "./load_order.types";
+
+//
+// Load after rules
+//
+// A rule `A loads after B` means that A must come after B in the load order
+// list. Rules are per REDmod and refer to the other REDmod by name, so that
+// they survive reinstalls and work for REDmods from anywhere. A rule for a
+// REDmod that isn't there is simply ignored.
+//
+
+const dataFor = (entry: VortexLoadOrderEntry): LoadOrderEntryDataForVortex =>
+  entry.data;
+
+const nameOf = (entry: VortexLoadOrderEntry): string =>
+  dataFor(entry).redmodInfo.name;
+
+const loadsAfterOf = (entry: VortexLoadOrderEntry): readonly string[] =>
+  dataFor(entry).loadsAfter ?? [];
+
+// For each entry, the positions of the entries that must come before it
+const mustComeAfterPositionsFor = (loadOrder: VortexLoadOrder): number[][] => {
+  const positionsByName = new Map<string, number[]>();
+
+  loadOrder.forEach((entry, position) => {
+    positionsByName.set(nameOf(entry), [...(positionsByName.get(nameOf(entry)) ?? []), position]);
+  });
+
+  return loadOrder.map((entry, position) =>
+    loadsAfterOf(entry)
+      .flatMap((name) => positionsByName.get(name) ?? [])
+      .filter((otherPosition) => otherPosition !== position));
+};
+
+//
+// Topological sort that keeps the current order for everything the rules
+// don't say anything about: at every step we take the earliest entry
+// whose requirements are all already placed.
+//
+// Entries in a cycle can't be sorted, so they're left where they are
+// relative to each other after everything else. Validation reports them.
+//
+
+export const sortByLoadAfterRules = (loadOrder: VortexLoadOrder): VortexLoadOrderEntry[] => {
+  const mustComeAfter = mustComeAfterPositionsFor(loadOrder);
+  const placed = new Set<number>();
+  const sorted: VortexLoadOrderEntry[] = [];
+
+  const isReady = (position: number): boolean =>
+    !placed.has(position) && mustComeAfter[position].every((before) => placed.has(before));
+
+  let nextReady = loadOrder.findIndex((_, position) => isReady(position));
+
+  while (nextReady !== -1) {
+    placed.add(nextReady);
+    sorted.push(loadOrder[nextReady]);
+    nextReady = loadOrder.findIndex((_, position) => isReady(position));
+  }
+
+  const stuckInCycles = loadOrder.filter((_, position) => !placed.has(position));
+
+  return [...sorted, ...stuckInCycles];
+};
+
+//
+// Cycles, using Tarjan's strongly connected components
+//
+
+export const findLoadAfterCycles = (loadOrder: VortexLoadOrder): VortexLoadOrderEntry[][] => {
+  const mustComeAfter = mustComeAfterPositionsFor(loadOrder);
+
+  const indexFor = new Map<number, number>();
+  const lowLinkFor = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: VortexLoadOrderEntry[][] = [];
+
+  const visit = (position: number): void => {
+    indexFor.set(position, indexFor.size);
+    lowLinkFor.set(position, indexFor.get(position));
+    stack.push(position);
+    onStack.add(position);
+
+    mustComeAfter[position].forEach((before) => {
+      if (!indexFor.has(before)) {
+        visit(before);
+        lowLinkFor.set(position, Math.min(lowLinkFor.get(position), lowLinkFor.get(before)));
+      } else if (onStack.has(before)) {
+        lowLinkFor.set(position, Math.min(lowLinkFor.get(position), indexFor.get(before)));
+      }
+    });
+
+    if (lowLinkFor.get(position) === indexFor.get(position)) {
+      const component: number[] = [];
+      let member: number;
+
+      do {
+        member = stack.pop();
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== position);
+
+      if (component.length > 1) {
+        cycles.push(component.sort((a, b) => a - b).map((cyclePosition) => loadOrder[cyclePosition]));
+      }
+    }
+  };
+
+  loadOrder.forEach((_, position) => {
+    if (!indexFor.has(position)) {
+      visit(position);
+    }
+  });
+
+  return cycles;
+};
+
+export const describeLoadAfterCycle = (cycle: readonly VortexLoadOrderEntry[]): string =>
+  `These REDmods have load after rules that contradict each other: ${cycle.map(nameOf).join(`, `)}`;
@@ -14,6 +14,7 @@ import {
   none,
   some,
   fromNullable,
+  getOrElse as getOrElseO,
 } from 'fp-ts/lib/Option';
 import {
   filterMap,
@@ -25,7 +26,13 @@ import {
   sortBy,
   toArray as toMutableArray,
 } from "fp-ts/lib/ReadonlyArray";
+import * as J from "fp-ts/lib/Json";
 import {
+  sequenceArray as sequenceArrayT,
+} from "fp-ts/lib/Task";
+import {
+  chainEitherKW,
+  chainFirstTaskK,
   fromEither as fromEitherTE,
   map as mapTE,
   mapLeft as mapLeftTE,
@@ -35,6 +42,7 @@ import {
   tryCatch as tryCatchTE,
 } from "fp-ts/lib/TaskEither";
 import {
+  actions,
   fs,
   selectors,
 } from "@vortex-api-test-shimmed";
@@ -42,6 +50,7 @@ import {
   remove,
 } from "spectacles-ts";
 import {
+  chain as chainE,
   isLeft,
 } from "fp-ts/lib/Either";
 import {
@@ -57,13 +66,17 @@ import {
   decodeLoadOrder,
   LoadOrderEntryDataForVortex,
   IdToIndex,
-  IndexableMaybeEnabledMod,
+  IdToUserDetes,
+  MaybeEnabledMod,
+  LoadOrderUserDetes,
   thenByDirnameAscending,
-  byIndexWithNewAtTheBack,
+  byPinTopFirstBottomLast,
+  thenByIndexWithNewAtTheBack,
   TypedVortexLoadOrderEntry,
   OrderableLoadOrderEntryForVortex,
   TypedOrderableVortexLoadOrderEntry,
   ModList,
+  LoadOrderProblem,
 } from "./load_order.types";
 import {
   VortexApi,
@@ -73,7 +86,6 @@ import {
   VortexLoadOrder,
   VortexLoadOrderEntry,
   VortexMod,
-  VortexModWithEnabledStatus,
   VortexProfile,
   VortexProfileMod,
   VortexProfileModIndex,
@@ -90,6 +102,7 @@ import {
 } from "./vortex-wrapper";
 import {
   bbcodeBasics,
+  constant,
   heredoc,
   jsonp,
   S,
@@ -100,22 +113,91 @@ import {
 import {
   attrModType,
   attrREDmodInfos,
+  decodeREDmodInfo,
   ModType,
   REDmodInfoForVortex,
 } from "./installers.types";
+import {
+  REDMOD_BASEDIR,
+  REDMOD_INFO_FILENAME,
+  REDMOD_SUBTYPE_DIRNAMES,
+} from "./installers.layouts";
 import {
   REDdeployExeRelativePath,
   REDMODDING_RTTI_METADATA_FILE_PATH,
   V2077_LOAD_ORDER_DIR,
   V2077_MODLIST_PATH,
+  V2077_REDMOD_DEPLOY_OUTPUT_PATH,
 } from "./redmodding.metadata";
+import {
+  collectREDmodDeployResult,
+  commandLineFor,
+  describeREDmodDeployErrors,
+  fingerprintREDdeployInputs,
+  forgetLastSuccessfulREDdeployFingerprint,
+  loadLastSuccessfulREDdeployFingerprint,
+  planREDdeploy,
+  saveSuccessfulREDdeployFingerprint,
+  withOutputCapturedTo,
+} from "./redmodding.deploy";
+import {
+  canDeployNatively,
+  deployArchiveOnlyREDmodsNatively,
+  NATIVE_REDMOD_DEPLOY_COMMAND_LINE,
+  REDmodToDeployNatively,
+} from "./redmodding.native";
+import {
+  acquireREDdeployLock,
+  killProcessTree,
+  makeREDdeployQueue,
+  releaseREDdeployLock,
+} from "./redmodding.queue";
+import {
+  REDdeployCancellation,
+  REDdeployFingerprint,
+  REDdeployJobSummary,
+  REDmodDeployCategory,
+  REDmodDeployRun,
+} from "./redmodding.types";
+import {
+  setLastREDmodDeployResultAction,
+  setREDdeployQueueStateAction,
+} from "./actions";
 import {
   InfoNotification,
   showInfoNotification,
+  showInfoNotificationWithActions,
 } from "./ui.notifications";
 import {
   showInvalidLoadOrderFileErrorDialog,
 } from "./ui.dialogs";
+import {
+  LOAD_ORDER_SNAPSHOT_RETENTION_LIMIT,
+  snapshotLoadOrder,
+} from "./load_order.history";
+import {
+  loadOrderFromVortexState,
+  userDetesOf,
+} from "./load_order.functions";
+import {
+  findDuplicateREDmodDirs,
+  findProblemsWithREDmodsOnDisk,
+  findREDmodsNotInGameDir,
+} from "./load_order.validation";
+import {
+  describeLoadAfterCycle,
+  findLoadAfterCycles,
+  sortByLoadAfterRules,
+} from "./load_order.rules";
+import {
+  draggedGroupMembers,
+  groupREDmodsByVortexMod,
+  sameOrder,
+} from "./load_order.groups";
+import {
+  DynamicFeature,
+  storeGetDynamicFeature,
+} from "./features";
 
 // Ensure we're using win32 conventions
 const path = win32;
@@ -126,12 +208,15 @@ const path = win32;
 const me =
   `${EXTENSION_NAME_INTERNAL} Load Order`;
 
+const groupingREDmodsByVortexMod = (vortexState: VortexState): boolean =>
+  storeGetDynamicFeature(vortexUtil, DynamicFeature.GroupREDmodsByVortexMod, vortexState);
+
 const loadOrderFilenameFor = (profile: VortexProfile): string =>
   `${EXTENSION_NAME_INTERNAL}-load-order-${profile.id}.json`;
 
 // Should probably store this somewhere else, maybe in the
 // user profile dir, as long as we show the path somewhere?
-const loadOrderPathFor = (profile: VortexProfile, gameDirPath): string =>
+export const loadOrderPathFor = (profile: VortexProfile, gameDirPath: string): string =>
   path.join(gameDirPath, V2077_LOAD_ORDER_DIR, loadOrderFilenameFor(profile));
 
 
@@ -143,11 +228,16 @@ const LOAD_ORDER_VALIDATION_PASSED_RESULT = undefined;
 
 const DEFAULT_VERSION_FOR_UNVERSIONED_MODS = `0.0.1+V2077`;
 
-const ENABLED_MOD_DISPLAY_MARKER = `✅`;
-const DISABLED_MOD_DISPLAY_MARKER = `🚫`;
+// Shared with the views so everything looks the same
+export const ENABLED_MOD_DISPLAY_MARKER = `✅`;
+export const DISABLED_MOD_DISPLAY_MARKER = `🚫`;
+export const EXTERNAL_MOD_DISPLAY_MARKER = `🌐`;
+export const PINNED_DISPLAY_MARKER = `📌`;
 
-const enabledMarker = (mod: VortexModWithEnabledStatus): string =>
-  (mod.enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER);
+const EXTERNAL_REDMOD_ID_PREFIX = `${EXTENSION_NAME_INTERNAL}-external-`;
+
+const enabledMarker = (enabled: boolean): string =>
+  (enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER);
 
 
 //
@@ -188,12 +278,25 @@ export const loadOrderUsageInstructionsForVortexGui =
     be included in the REDmod deployment. The disabled ones will remember their
     place in the load order, though, so long as you don't uninstall them!
 
+    If a mod has several REDmods in it, you can untick any of them to leave them
+    out of the REDmod deployment without disabling the whole mod. They stay
+    installed, and stay unticked until you tick them again.
+
+    To keep the REDmods of a mod together, turn on the setting for it in the V2077
+    settings. Then dragging the first of them moves them all, and you can click
+    Expand on it if you want to order them one by one after all.
+
     All heritage archive mods that are not autoconverted to REDmod will be loaded
     BEFORE all REDmods, in the usual alphabetical order. That means that if you want
     to override an archive mod, you need to convert it to REDmod first. You can do
     this by making sure the autoconvert setting is on and then reinstalling the mod.
 
-    REDmods that you have installed outside Vortex are NOT supported right now.
+    To order heritage archive mods among themselves, use the Archive Load Order page.
+    It applies the order by renaming the archives with a sort prefix.
+
+    REDmods that you have installed outside Vortex are shown with a 🌐 and can be
+    ordered like any other. Vortex can't enable or disable them, though, so they're
+    included in the REDmod deployment unless you untick them.
 
     The load order is saved automatically, and will be deployed whenever the next
     Vortex deployment occurs - you can also manually click to deploy, if you like!
@@ -204,8 +307,41 @@ export const loadOrderUsageInstructionsForVortexGui =
     You can also click the REDdeploy tool button to run a deployment on-demand. It'll
     (re)deploy the most recently created load order.
 
+    The REDmod Deployment page shows how the last deployment went, along with the
+    exact mod list and redMod command line it used. You can run it again from there.
+
+    If redMod isn't available, like without the REDmod DLC or on Linux, load orders
+    where every REDmod only has archives are still deployed. We write the file that
+    redMod would have, so the game loads them in your order. Disabling every REDmod
+    empties the list, so none of them load. Anything with scripts, tweaks or sounds
+    needs redMod, though.
+
     You can still use the command-line redMod.exe or WolvenKit to deploy or order
     REDmods, but any changes you make there will NOT be reflected in Vortex.
+
+    If a REDmod needs to come after another one, you can add a rule for it instead
+    of keeping them in place by hand: pick the other REDmod in its Load After list.
+    Click a rule to remove it. The list is sorted to follow the rules every time
+    it's loaded, and rules that contradict each other are shown as errors.
+
+    To sort automatically, put a masterlist in the game folder as
+    ${V2077_LOAD_ORDER_DIR}\\${EXTENSION_NAME_INTERNAL}-masterlist.json and use Sort Using Masterlist.
+    It's a JSON file listing sorting \`groups\` (e.g. base, overhaul, patch) in load order
+    list order, and \`entries\` that put REDmods, by \`redmodName\` or \`nexusModId\`, in a
+    \`group\` and can give them \`loadsAfter\` rules. You'll see what would move before
+    anything is changed.
+
+    Every load order you save is also kept as a snapshot, and you can compare and
+    restore them on the Load Order History page. Restoring one is just like ordering
+    things by hand, so it gets deployed the same way. The newest ${LOAD_ORDER_SNAPSHOT_RETENTION_LIMIT} are kept.
+
+    To share your load order, use Export Load Order. Anyone with the same mods can
+    then use Import Load Order to get the same order, with the same REDmods unticked,
+    and they'll be told about any mods they're missing.
+
+    If you have several profiles, Copy From Profile uses another profile's load
+    order in this one, and the Profile Load Orders page shows two of them side
+    by side.
   `));
 
 
@@ -245,55 +381,119 @@ const deserializeLoadOrder = (vortexApi: VortexApi) =>
     );
 
 
-const makeIndexForModIdToCurrentOrderLookup =
+// Positions, pins and notes are per REDmod, not per Vortex mod
+const userDetesKeyFor = (vortexId: string, redmodPath: string): string =>
+  `${vortexId}:${redmodPath}`;
+
+const makeIndexForREDmodToCurrentOrderLookup =
   (deserializedLoadOrder: readonly LoadOrderEntry[]): IdToIndex =>
     pipe(
       deserializedLoadOrder,
       reduceWithIndex(
         {},
-        (index, mapped, entry) => {
+        (_index, mapped, entry) => {
+          // eslint-disable-next-line no-param-reassign
+          mapped[userDetesKeyFor(entry.vortexId, entry.redmodPath)] = entry.index;
+          return mapped;
+        },
+      ),
+    );
+
+const indexFor = (currentOrderIndex: IdToIndex, vortexId: string, redmodPath: string): Option<number> =>
+  fromNullable(currentOrderIndex[userDetesKeyFor(vortexId, redmodPath)]);
+
+const makeUserDetesForREDmodLookup =
+  (deserializedLoadOrder: readonly LoadOrderEntry[]): IdToUserDetes =>
+    pipe(
+      deserializedLoadOrder,
+      reduceWithIndex(
+        {},
+        (_index, mapped, entry) => {
           // eslint-disable-next-line no-param-reassign
-          mapped[entry.vortexId] = index;
+          mapped[userDetesKeyFor(entry.vortexId, entry.redmodPath)] = userDetesOf(entry);
           return mapped;
         },
       ),
     );
 
-const addStatusAndIndexOrDefaults =
+const userDetesFor = (userDetesLookup: IdToUserDetes, vortexId: string, redmodPath: string): LoadOrderUserDetes =>
+  userDetesLookup[userDetesKeyFor(vortexId, redmodPath)] ?? {};
+
+const withUserDetes = (displayName: string, userDetes: LoadOrderUserDetes): string =>
+  [
+    userDetes.pin ? `${PINNED_DISPLAY_MARKER}${displayName}` : displayName,
+    userDetes.loadsAfter?.length > 0 ? ` [after ${userDetes.loadsAfter.join(`, `)}]` : ``,
+    userDetes.note ? ` - ${userDetes.note}` : ``,
+  ].join(``);
+
+//
+// REDmod subtypes
+//
+// Vortex mods aren't necessarily deployed, so we look at them in staging.
+// Unmanaged REDmods are only in the game dir.
+//
+
+export const redmodSubtypesIn = (dirsInREDmod: readonly string[]): string[] =>
+  REDMOD_SUBTYPE_DIRNAMES.filter((subtype) =>
+    dirsInREDmod.some((dir) => dir.toLowerCase() === subtype.toLowerCase()));
+
+const readREDmodSubtypes = async (redmodDirPath: string): Promise<string[]> => {
+  try {
+    return redmodSubtypesIn(await fs.readdirAsync(redmodDirPath));
+  } catch (_error) {
+    return [];
+  }
+};
+
+const makeREDmodSubtypesLookup = async (
+  stagingPath: string,
+  mods: readonly MaybeEnabledMod[],
+): Promise<ReadonlyMap<string, string[]>> => {
+  const keysAndSubtypes = await Promise.all(mods.flatMap((mod) =>
+    attrREDmodInfos(mod).map(async (redmodInfo): Promise<[string, string[]]> => [
+      userDetesKeyFor(mod.id, redmodInfo.relativePath),
+      await readREDmodSubtypes(path.join(stagingPath, mod.installationPath, redmodInfo.relativePath)),
+    ])));
+
+  return new Map(keysAndSubtypes);
+};
+
+const addStatusOrDefaults =
   (
     mod: VortexMod,
     enabledStatusIndex: VortexProfileModIndex,
-    currentOrderIndex: IdToIndex,
-  ): IndexableMaybeEnabledMod => {
-    const indexForMod =
-      fromNullable(currentOrderIndex[mod.id]);
-
+  ): MaybeEnabledMod => {
     const enabledStatusForMod: VortexProfileMod =
       enabledStatusIndex[mod.id] ?? { enabled: false, enabledTime: 0 };
 
     return {
       ...mod,
       ...enabledStatusForMod,
-      index: indexForMod,
     };
   };
 
 const makeVortexLoadOrderEntryFrom =
   (
-    orderableMod: IndexableMaybeEnabledMod,
+    orderableMod: MaybeEnabledMod,
     redmodInfo: REDmodInfoForVortex,
     subModIndex: number,
+    currentOrderIndex: IdToIndex,
     activeProfile: VortexProfile,
+    userDetes: LoadOrderUserDetes,
+    redmodSubtypes: string[],
   ): VortexLoadOrderEntry => {
 
     const everythingNeededToSerializeLoadOrder: OrderableLoadOrderEntryForVortex = {
-      indexForSorting: orderableMod.index,
+      indexForSorting: indexFor(currentOrderIndex, orderableMod.id, redmodInfo.relativePath),
       ownerVortexProfileId: activeProfile.id.toString(),
       vortexId: orderableMod.id.toString(),
       vortexModId: orderableMod.attributes?.modId?.toString(),
       vortexModVersion: orderableMod.attributes?.version ?? DEFAULT_VERSION_FOR_UNVERSIONED_MODS,
       vortexEnabled: orderableMod.enabled,
       redmodInfo,
+      ...userDetes,
+      vortexModName: vortexUtil.renderModName(orderableMod),
+      redmodSubtypes,
     };
 
     const idSuffixIfNeededToDifferentiateSubmods =
@@ -314,16 +514,19 @@ const makeVortexLoadOrderEntryFrom =
       orderableMod.attributes?.variant ? ` +${orderableMod.attributes?.variant}` : ``;
 
     const vortexDisplayName =
-      `${vortexUtil.renderModName(orderableMod)} ${vortexModVersion}${vortexVariant}`;
+      `${everythingNeededToSerializeLoadOrder.vortexModName} ${vortexModVersion}${vortexVariant}`;
 
+    const enabled = orderableMod.enabled && !userDetes.userDisabled;
+
+    // Shown in full by views/load-order-item.tsx, this is for anywhere that only shows the name
     const displayNameWithAsMuchInfoAsWeDareBecauseWeHaveNoControlOverHTML =
-      `${enabledMarker(orderableMod)} ${redmodInfo.name} ${redmodInfo.version} (from ${vortexDisplayName})`;
+      `${enabledMarker(enabled)} ${redmodInfo.name} ${redmodInfo.version} (from ${vortexDisplayName})`;
 
     const loadOrderEntry: VortexLoadOrderEntry = {
       id,
       modId: modIdOrNothing,
-      enabled: orderableMod.enabled,
-      name: displayNameWithAsMuchInfoAsWeDareBecauseWeHaveNoControlOverHTML,
+      enabled,
+      name: withUserDetes(displayNameWithAsMuchInfoAsWeDareBecauseWeHaveNoControlOverHTML, userDetes),
       data: everythingNeededToSerializeLoadOrder,
     };
 
@@ -331,6 +534,246 @@ const makeVortexLoadOrderEntryFrom =
   };
 
 
+//
+// Unmanaged REDmods
+//
+// Anything in `mods\` with a valid info.json that isn't deployed by one of
+// our Vortex mods. Matching is by dir name, case-insensitively because Windows.
+//
+
+export const unmanagedREDmodDirsIn = (
+  dirsInREDmodBasedir: readonly string[],
+  managedREDmodPaths: readonly string[],
+): string[] => {
+  const managedDirs = new Set(
+    managedREDmodPaths.map((relativePath) => path.basename(relativePath).toLowerCase()),
+  );
+
+  return dirsInREDmodBasedir.filter((dir) => !managedDirs.has(dir.toLowerCase()));
+};
+
+const readUnmanagedREDmodInfo =
+  (gameDirPath: string) =>
+    (dir: string): TaskEither<Error, REDmodInfoForVortex> => {
+      const relativePath = path.join(REDMOD_BASEDIR, dir);
+
+      return pipe(
+        fileFromDiskTE({
+          relativePath: path.join(relativePath, REDMOD_INFO_FILENAME),
+          pathOnDisk: path.join(gameDirPath, relativePath, REDMOD_INFO_FILENAME),
+        }),
+        chainEitherKW((file) =>
+          pipe(
+            file.content,
+            J.parse,
+            chainE(decodeREDmodInfo),
+          )),
+        mapLeftTE((error) => new Error(`Not a valid REDmod ${relativePath}: ${error}`)),
+        mapTE((redmodInfo): REDmodInfoForVortex => ({
+          name: redmodInfo.name,
+          version: redmodInfo.version,
+          relativePath,
+          vortexModId: undefined,
+        })),
+      );
+    };
+
+const findUnmanagedREDmods = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  managedREDmodPaths: readonly string[],
+): Promise<readonly REDmodInfoForVortex[]> => {
+  let dirsInREDmodBasedir: string[];
+
+  try {
+    dirsInREDmodBasedir = await fs.readdirAsync(path.join(gameDirPath, REDMOD_BASEDIR));
+  } catch (error) {
+    vortexApi.log(`info`, `${me}: Couldn't read ${REDMOD_BASEDIR}, assuming no unmanaged REDmods: ${error.message}`);
+    return [];
+  }
+
+  const maybeREDmodInfos = await pipe(
+    unmanagedREDmodDirsIn(dirsInREDmodBasedir, managedREDmodPaths),
+    map(readUnmanagedREDmodInfo(gameDirPath)),
+    sequenceArrayT,
+  )();
+
+  return pipe(
+    maybeREDmodInfos,
+    filterMap((maybeREDmodInfo): Option<REDmodInfoForVortex> => {
+      if (isLeft(maybeREDmodInfo)) {
+        vortexApi.log(`debug`, `${me}: Skipping unmanaged dir: ${maybeREDmodInfo.left.message}`);
+        return none;
+      }
+      return some(maybeREDmodInfo.right);
+    }),
+  );
+};
+
+export const makeVortexLoadOrderEntryForUnmanagedREDmod =
+  (
+    redmodInfo: REDmodInfoForVortex,
+    currentOrderIndex: IdToIndex,
+    activeProfile: VortexProfile,
+    userDetes: LoadOrderUserDetes = {},
+    redmodSubtypes: string[] = [],
+  ): VortexLoadOrderEntry => {
+    const vortexId = `${EXTERNAL_REDMOD_ID_PREFIX}${path.basename(redmodInfo.relativePath)}`;
+
+    const everythingNeededToSerializeLoadOrder: OrderableLoadOrderEntryForVortex = {
+      indexForSorting: indexFor(currentOrderIndex, vortexId, redmodInfo.relativePath),
+      ownerVortexProfileId: activeProfile.id.toString(),
+      vortexId,
+      vortexModId: undefined,
+      vortexModVersion: redmodInfo.version,
+      vortexEnabled: true,
+      redmodInfo,
+      external: true,
+      ...userDetes,
+      redmodSubtypes,
+    };
+
+    const displayName =
+      `${EXTERNAL_MOD_DISPLAY_MARKER} ${redmodInfo.name} ${redmodInfo.version} (external, not managed by Vortex)`;
+
+    return {
+      id: vortexId,
+      enabled: !userDetes.userDisabled,
+      name: withUserDetes(displayName, userDetes),
+      data: everythingNeededToSerializeLoadOrder,
+    };
+  };
+
+
+//
+// Putting it all in order
+//
+// Everything we know of in the order it was stored in, which is by position,
+// pins and rules, with new REDmods at the back. Each REDmod keeps its own
+// position, so the REDmods of one Vortex mod can be anywhere.
+//
+
+export interface StoredOrderContext {
+  activeProfile: VortexProfile;
+  redmodSubtypesLookup: ReadonlyMap<string, string[]>;
+  unmanagedREDmodSubtypes: readonly string[][];
+  groupByVortexMod: boolean;
+}
+
+export const makeVortexLoadOrderFromStoredOrder = (
+  storedLoadOrder: readonly LoadOrderEntry[],
+  loadOrderableVortexMods: readonly MaybeEnabledMod[],
+  unmanagedREDmods: readonly REDmodInfoForVortex[],
+  {
+    activeProfile,
+    redmodSubtypesLookup,
+    unmanagedREDmodSubtypes,
+    groupByVortexMod,
+  }: StoredOrderContext,
+): VortexLoadOrderEntry[] => {
+  const indexForCurrentOrderLookup =
+    makeIndexForREDmodToCurrentOrderLookup(storedLoadOrder);
+
+  const userDetesForREDmodLookup =
+    makeUserDetesForREDmodLookup(storedLoadOrder);
+
+  const allIndividualREDmodsInVortexLoadOrderFormat = pipe(
+    loadOrderableVortexMods,
+    map((orderableVortexMod) => pipe(
+      attrREDmodInfos(orderableVortexMod),
+      mapWithIndex((subModIndex, containedREDmod) =>
+        makeVortexLoadOrderEntryFrom(
+          orderableVortexMod,
+          containedREDmod,
+          subModIndex,
+          indexForCurrentOrderLookup,
+          activeProfile,
+          userDetesFor(userDetesForREDmodLookup, orderableVortexMod.id, containedREDmod.relativePath),
+          redmodSubtypesLookup.get(userDetesKeyFor(orderableVortexMod.id, containedREDmod.relativePath)) ?? [],
+        )),
+    )),
+    flatten,
+  );
+
+  const unmanagedREDmodsInVortexLoadOrderFormat = pipe(
+    unmanagedREDmods,
+    mapWithIndex((unmanagedIndex, redmodInfo) =>
+      makeVortexLoadOrderEntryForUnmanagedREDmod(
+        redmodInfo,
+        indexForCurrentOrderLookup,
+        activeProfile,
+        userDetesFor(
+          userDetesForREDmodLookup,
+          `${EXTERNAL_REDMOD_ID_PREFIX}${path.basename(redmodInfo.relativePath)}`,
+          redmodInfo.relativePath,
+        ),
+        unmanagedREDmodSubtypes[unmanagedIndex] ?? [],
+      )),
+  );
+
+  const allOrderableREDmods = [
+    ...allIndividualREDmodsInVortexLoadOrderFormat,
+    ...unmanagedREDmodsInVortexLoadOrderFormat,
+  ];
+
+  const afterLastKnown =
+      allOrderableREDmods.length;
+
+  const loadOrderableModsInOrderUngrouped = pipe(
+    allOrderableREDmods,
+    sortBy([byPinTopFirstBottomLast, thenByIndexWithNewAtTheBack(afterLastKnown), thenByDirnameAscending]),
+    sortByLoadAfterRules,
+  );
+
+  const loadOrderableModsInOrder = groupByVortexMod
+    ? groupREDmodsByVortexMod(loadOrderableModsInOrderUngrouped)
+    : loadOrderableModsInOrderUngrouped;
+
+  return pipe(
+    loadOrderableModsInOrder,
+    map((entry: TypedOrderableVortexLoadOrderEntry): TypedVortexLoadOrderEntry =>
+      pipe(entry, remove(`data.indexForSorting`))),
+    toMutableArray,
+  );
+};
+
+
+//
+// Dragging anything but the first REDmod of a group gets undone by grouping,
+// so we'd better say so or it just looks broken
+//
+
+const positionKeyForVortexEntry = (entry: VortexLoadOrderEntry): string =>
+  userDetesKeyFor(entry.data.vortexId, entry.data.redmodInfo.relativePath);
+
+const tellUserIfGroupMembersWereDragged = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  activeProfile: VortexProfile,
+  vortexLoadOrder: VortexLoadOrder,
+): Promise<void> => {
+  const storedLoadOrder = await pipe(
+    loadOrderPathFor(activeProfile, gameDirPath),
+    deserializeLoadOrder(vortexApi),
+  )();
+
+  if (isLeft(storedLoadOrder)) {
+    return;
+  }
+
+  const keysBefore = [...storedLoadOrder.right]
+    .sort((a, b) => a.index - b.index)
+    .map((entry) => userDetesKeyFor(entry.vortexId, entry.redmodPath));
+
+  const dragged = draggedGroupMembers(keysBefore, vortexLoadOrder, positionKeyForVortexEntry);
+
+  if (dragged.length > 0) {
+    vortexApi.log(`info`, `${me}: REDmods dragged away from their group were moved back`, dragged.map((entry) => entry.id));
+    showInfoNotification(vortexApi, InfoNotification.LoadOrderGroupMemberMoved);
+  }
+};
+
+
 //
 // 'Deserialize' is what Vortex calls this
 //
@@ -344,8 +787,8 @@ const makeVortexLoadOrderEntryFrom =
 // any new ones are added to the end. This could also be done the other
 // way around, but didn't.
 //
-// Unmanaged mods are currently NOT SUPPORTED, maybe TODO:
-// https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/264
+// Unmanaged REDmods, i.e. ones that are in `mods\` but didn't come from
+// Vortex, are added too so that they can be ordered and end up in the modlist.
 //
 
 const compileDetesToGenerateLoadOrderUi: VortexWrappedDeserializeFunc = async (
@@ -381,9 +824,6 @@ const compileDetesToGenerateLoadOrderUi: VortexWrappedDeserializeFunc = async (
     return Promise.reject(deserializedLoadOrder.left);
   }
 
-  const indexForCurrentOrderLookup =
-    makeIndexForModIdToCurrentOrderLookup(deserializedLoadOrder.right);
-
   const indexForEnabledStatusForThisProfile =
     activeProfile.modState;
 
@@ -394,50 +834,49 @@ const compileDetesToGenerateLoadOrderUi: VortexWrappedDeserializeFunc = async (
 
   const allLoadOrderableVortexMods = pipe(
     allModsKnownToVortex,
-    filterMap((mod: VortexMod): Option<IndexableMaybeEnabledMod> => {
+    filterMap((mod: VortexMod): Option<MaybeEnabledMod> => {
 
       if (mod.state === `installed` && attrModType(mod) === ModType.REDmod) {
-        return some(
-          addStatusAndIndexOrDefaults(
-            mod,
-            indexForEnabledStatusForThisProfile,
-            indexForCurrentOrderLookup,
-          ),
-        );
+        return some(addStatusOrDefaults(mod, indexForEnabledStatusForThisProfile));
       }
       return none;
     }),
   );
 
-  const allIndividualREDmodsInVortexLoadOrderFormat = pipe(
-    allLoadOrderableVortexMods,
-    map((orderableVortexMod) => pipe(
-      attrREDmodInfos(orderableVortexMod),
-      mapWithIndex((subModIndex, containedREDmod) =>
-        makeVortexLoadOrderEntryFrom(orderableVortexMod, containedREDmod, subModIndex, activeProfile)),
-    )),
+  const stagingPath: string = selectors.installPathForGame(vortexState, GAME_ID);
+
+  const redmodSubtypesLookup =
+    await makeREDmodSubtypesLookup(stagingPath, allLoadOrderableVortexMods);
+
+  const managedREDmodPaths = pipe(
+    allModsKnownToVortex,
+    filterMap((mod: VortexMod): Option<readonly REDmodInfoForVortex[]> =>
+      (attrModType(mod) === ModType.REDmod ? some(attrREDmodInfos(mod)) : none)),
     flatten,
+    map((redmodInfo) => redmodInfo.relativePath),
   );
 
-  const afterLastKnown =
-      allIndividualREDmodsInVortexLoadOrderFormat.length;
+  const unmanagedREDmods: readonly REDmodInfoForVortex[] =
+    await findUnmanagedREDmods(vortexApi, gameDirPath, managedREDmodPaths);
 
-  const loadOrderableModsInOrder = pipe(
-    allIndividualREDmodsInVortexLoadOrderFormat,
-    sortBy([byIndexWithNewAtTheBack(afterLastKnown), thenByDirnameAscending]),
-  );
+  const unmanagedREDmodSubtypes = await Promise.all(unmanagedREDmods.map((redmodInfo) =>
+    readREDmodSubtypes(path.join(gameDirPath, redmodInfo.relativePath))));
 
-  const loadOrderableModsInOrderWithoutAnyVariableDataThatWouldConfuseVortex =
-    pipe(
-      loadOrderableModsInOrder,
-      map((entry: TypedOrderableVortexLoadOrderEntry): TypedVortexLoadOrderEntry =>
-        pipe(entry, remove(`data.indexForSorting`))),
-      toMutableArray,
-    );
+  const loadOrderableModsInOrder = makeVortexLoadOrderFromStoredOrder(
+    deserializedLoadOrder.right,
+    allLoadOrderableVortexMods,
+    unmanagedREDmods,
+    {
+      activeProfile,
+      redmodSubtypesLookup,
+      unmanagedREDmodSubtypes,
+      groupByVortexMod: groupingREDmodsByVortexMod(vortexState),
+    },
+  );
 
-  vortexApi.log(`debug`, `${me}: Collected detes to create load order selection: `, S(loadOrderableModsInOrderWithoutAnyVariableDataThatWouldConfuseVortex));
+  vortexApi.log(`debug`, `${me}: Collected detes to create load order selection: `, S(loadOrderableModsInOrder));
 
-  return Promise.resolve(loadOrderableModsInOrderWithoutAnyVariableDataThatWouldConfuseVortex);
+  return Promise.resolve(loadOrderableModsInOrder);
 };
 
 
@@ -445,9 +884,15 @@ const compileDetesToGenerateLoadOrderUi: VortexWrappedDeserializeFunc = async (
 // Serialize
 //
 
-const makeV2077LoadOrderEntryFrom = (vortexEntry: VortexLoadOrderEntry): LoadOrderEntry => {
+const makeV2077LoadOrderEntryFrom = (index: number, vortexEntry: VortexLoadOrderEntry): LoadOrderEntry => {
   const modDetesWeNeedForLoadOrder: LoadOrderEntryDataForVortex = vortexEntry.data;
 
+  // Unticking only means something while the Vortex mod is enabled, otherwise
+  // the entry is unticked anyway and we keep whatever the user had chosen
+  const userDisabled = modDetesWeNeedForLoadOrder.vortexEnabled
+    ? vortexEntry.enabled === false
+    : modDetesWeNeedForLoadOrder.userDisabled;
+
   const V2077LoadOrderEntry: LoadOrderEntry = {
     vortexId: modDetesWeNeedForLoadOrder.vortexId,
     vortexModId: modDetesWeNeedForLoadOrder.vortexModId,
@@ -455,7 +900,14 @@ const makeV2077LoadOrderEntryFrom = (vortexEntry: VortexLoadOrderEntry): LoadOrd
     redmodName: modDetesWeNeedForLoadOrder.redmodInfo.name,
     redmodVersion: modDetesWeNeedForLoadOrder.redmodInfo.version,
     redmodPath: modDetesWeNeedForLoadOrder.redmodInfo.relativePath,
-    enabled: modDetesWeNeedForLoadOrder.vortexEnabled,
+    enabled: modDetesWeNeedForLoadOrder.vortexEnabled && !userDisabled,
+    external: modDetesWeNeedForLoadOrder.external,
+    index,
+    pin: modDetesWeNeedForLoadOrder.pin,
+    note: modDetesWeNeedForLoadOrder.note,
+    loadsAfter: modDetesWeNeedForLoadOrder.loadsAfter,
+    userDisabled: userDisabled || undefined,
+    expanded: modDetesWeNeedForLoadOrder.expanded,
   };
 
   return V2077LoadOrderEntry;
@@ -465,10 +917,11 @@ export const makeV2077LoadOrderFrom = (
   vortexLoadOrder: VortexLoadOrder,
   ownerVortexProfileId: string,
   dateAsLoadOrderId: number,
+  groupByVortexMod: boolean = false,
 ): LoadOrder => {
   const v2077LoadOrderEntries = pipe(
-    vortexLoadOrder,
-    map(makeV2077LoadOrderEntryFrom),
+    groupByVortexMod ? groupREDmodsByVortexMod(vortexLoadOrder) : vortexLoadOrder,
+    mapWithIndex(makeV2077LoadOrderEntryFrom),
     toMutableArray,
   );
 
@@ -481,13 +934,16 @@ export const makeV2077LoadOrderFrom = (
 };
 
 
+// Forcing is needed when the order changes, redMod doesn't notice that itself
+// https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/297
 export const redmodDeployRunParameters = (
   gameDirPath: string,
+  force: boolean = true,
 ): VortexRunParameters => {
 
   const redModDeployParametersToCreateNewManifest = [
     `deploy`,
-    `-force`, // TODO: Required until https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/297
+    ...(force ? [`-force`] : []),
     `-root=`,
     `"${gameDirPath}"`,
     `-rttiSchemaFile=`,
@@ -525,16 +981,284 @@ export const loadOrderToREDdeployModList = (
 );
 
 
-export const startREDmodDeployInTheBackgroundWithNotifications = (
+//
+// REDmod deployment
+//
+// Deployments go through a queue so that only one runs at a time, and one
+// requested while another is waiting replaces it: the newest load order is
+// the one that should end up deployed, so there's no point in the others.
+//
+
+interface REDmodDeployJob extends REDdeployJobSummary {
+  vortexApi: VortexApi;
+  gameDirPath: string;
+  v2077LoadOrderToDeploy: LoadOrder;
+  alwaysDeploy: boolean;
+}
+
+const deployLockedREDmodDeployJob = async (
+  {
+    vortexApi,
+    gameDirPath,
+    loID,
+    v2077LoadOrderToDeploy,
+  }: REDmodDeployJob,
+  cancellation: REDdeployCancellation,
+  generatedModList: ModList,
+  fingerprint: REDdeployFingerprint | undefined,
+  force: boolean,
+): Promise<void> => {
+  const redDeploy = withOutputCapturedTo(
+    redmodDeployRunParameters(gameDirPath, force),
+    path.join(gameDirPath, V2077_REDMOD_DEPLOY_OUTPUT_PATH),
+  );
+
+  const startedNotification = isEmpty(v2077LoadOrderToDeploy.entriesInOrderWithEarlierWinning)
+    ? InfoNotification.REDmodDeploymentDefaulted
+    : InfoNotification.REDmodDeploymentStarted;
+
+  if (startedNotification === InfoNotification.REDmodDeploymentDefaulted) {
+    vortexApi.log(`warn`, `${me}: No mods in load order, running default REDdeploy!`);
+  } else {
+    vortexApi.log(`info`, `${me}: Starting REDmod deployment ${loID}!`);
+  }
+
+  showInfoNotificationWithActions(vortexApi, startedNotification, [{
+    title: `Cancel`,
+    action: (dismiss): void => {
+      cancellation.cancel();
+      dismiss();
+    },
+  }]);
+
+  vortexApi.log(`debug`, `${me}: Deployment arguments and command line: `, S(redDeploy));
+
+  const modListPath = path.join(gameDirPath, V2077_MODLIST_PATH);
+
+  const run: REDmodDeployRun = {
+    loID,
+    startedAt: new Date().toISOString(),
+    modList: [...generatedModList],
+    commandLine: commandLineFor(redDeploy),
+  };
+
+  const modListWritten = await pipe(
+    generatedModList,
+    // The line joining MUST be \r\n so that it is Windows line endings. otherwise redmod fails
+    (modList) => modList.join(os.EOL),
+    (encodedLoadOrder) => tryCatchTE(
+      () =>
+        fs.statAsync(path.dirname(modListPath)).then(() =>
+          fs.writeFileAsync(`${modListPath}.${loID}.tmp`, encodedLoadOrder, { encoding: `utf8` })).then(() =>
+          fs.renameAsync(`${modListPath}.${loID}.tmp`, modListPath)).then(() => true),
+      (error) => new Error(`Unable to write load order to disk: ${S(error)}`),
+    ),
+  )();
+
+  // redMod would deploy whatever modlist was there before, so this is a failure
+  // like any other and it mustn't be fingerprinted as having been deployed
+  if (isLeft(modListWritten)) {
+    vortexApi.log(`error`, `${me}: REDmod deployment ${loID} failed!`, modListWritten.left.message);
+    vortexApi.dismissNotification(startedNotification);
+
+    vortexApi.store.dispatch(setLastREDmodDeployResultAction({
+      ...run,
+      finishedAt: new Date().toISOString(),
+      succeeded: false,
+      errors: [{ category: REDmodDeployCategory.Other, message: modListWritten.left.message }],
+    }));
+
+    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentFailed, modListWritten.left.message);
+    return Promise.resolve();
+  }
+
+  const exitedSuccessfully: boolean = cancellation.isCancelled()
+    ? false
+    : await vortexApi.runExecutable(redDeploy.executable, redDeploy.args, {
+      ...redDeploy.options,
+      onSpawned: (pid: number): void => {
+        cancellation.onCancel(() => { killProcessTree(vortexApi, pid); });
+      },
+    })
+      .then(() => true)
+      .catch((error) => {
+        vortexApi.log(`error`, `${me}: REDmod deployment ${loID} exited with an error!`, S(error));
+        return false;
+      });
+
+  vortexApi.dismissNotification(startedNotification);
+
+  if (cancellation.isCancelled()) {
+    vortexApi.log(`info`, `${me}: REDmod deployment ${loID} cancelled`);
+    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentCancelled);
+    return Promise.resolve();
+  }
+
+  const result = await collectREDmodDeployResult(vortexApi, gameDirPath, run, exitedSuccessfully);
+
+  vortexApi.store.dispatch(setLastREDmodDeployResultAction(result));
+
+  if (result.succeeded) {
+    vortexApi.log(`info`, `${me}: REDmod deployment ${loID} complete!`);
+    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentSucceeded);
+
+    return fingerprint !== undefined
+      ? saveSuccessfulREDdeployFingerprint(vortexApi, gameDirPath, fingerprint)
+      : Promise.resolve();
+  }
+
+  vortexApi.log(`error`, `${me}: REDmod deployment ${loID} failed!`, result.errors);
+  showInfoNotification(
+    vortexApi,
+    InfoNotification.REDmodDeploymentFailed,
+    result.errors.length > 0
+      ? `These mods had errors:\n${describeREDmodDeployErrors(result.errors)}`
+      : undefined,
+  );
+
+  return Promise.resolve();
+};
+
+//
+// Without redMod
+//
+// If redMod.exe isn't there, an archive-only load order can still be
+// deployed by writing what redMod would have, see redmodding.native.ts
+//
+
+const redModIsAvailable = async (gameDirPath: string): Promise<boolean> =>
+  fs.statAsync(path.join(gameDirPath, REDdeployExeRelativePath)).then(() => true, () => false);
+
+const enabledREDmodsToDeployNatively = async (
+  gameDirPath: string,
+  v2077LoadOrderToDeploy: LoadOrder,
+): Promise<REDmodToDeployNatively[]> => {
+  const enabledEntries = v2077LoadOrderToDeploy.entriesInOrderWithEarlierWinning.filter((entry) => entry.enabled);
+
+  return Promise.all(enabledEntries.map(async (entry) => ({
+    entry,
+    subtypes: await readREDmodSubtypes(path.join(gameDirPath, entry.redmodPath)),
+  })));
+};
+
+const deployLockedREDmodDeployJobNatively = async (
+  {
+    vortexApi,
+    gameDirPath,
+    loID,
+  }: REDmodDeployJob,
+  redmodsToDeploy: readonly REDmodToDeployNatively[],
+  generatedModList: ModList,
+): Promise<void> => {
+  vortexApi.log(`info`, `${me}: redMod isn't available, deploying archive-only load order ${loID} without it`);
+
+  const run: REDmodDeployRun = {
+    loID,
+    startedAt: new Date().toISOString(),
+    modList: [...generatedModList],
+    commandLine: NATIVE_REDMOD_DEPLOY_COMMAND_LINE,
+  };
+
+  const result = await deployArchiveOnlyREDmodsNatively(
+    vortexApi,
+    gameDirPath,
+    run,
+    redmodsToDeploy.map((redmod) => redmod.entry),
+  );
+
+  vortexApi.store.dispatch(setLastREDmodDeployResultAction(result));
+
+  if (!result.succeeded) {
+    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentFailed);
+    return Promise.resolve();
+  }
+
+  vortexApi.log(`info`, `${me}: REDmod deployment ${loID} complete!`);
+  showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentSucceeded);
+
+  // No fingerprint: we haven't checked what we write against a mods.json
+  // from an actual redMod run yet, so the next deployment writes it again
+  // instead of trusting this one and skipping it as unchanged.
+  return Promise.resolve();
+};
+
+// Unless told to deploy always, nothing is run if nothing's changed since the last successful run
+const runREDmodDeployJob = async (
+  job: REDmodDeployJob,
+  cancellation: REDdeployCancellation,
+): Promise<void> => {
+  const {
+    vortexApi,
+    gameDirPath,
+    loID,
+    v2077LoadOrderToDeploy,
+    alwaysDeploy,
+  } = job;
+
+  // The queue doesn't report errors, so nothing may escape from here
+  let locked = false;
+
+  try {
+    const generatedModList = loadOrderToREDdeployModList(v2077LoadOrderToDeploy);
+
+    const fingerprint = await fingerprintREDdeployInputs(vortexApi, gameDirPath, generatedModList);
+    const plan = planREDdeploy(await loadLastSuccessfulREDdeployFingerprint(vortexApi, gameDirPath), fingerprint);
+
+    if (!plan.needed && !alwaysDeploy) {
+      vortexApi.log(`info`, `${me}: Nothing changed since the last successful REDmod deployment, skipping ${loID}`);
+      showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentNotNeeded);
+      return Promise.resolve();
+    }
+
+    locked = await acquireREDdeployLock(vortexApi, gameDirPath, loID);
+
+    if (!locked) {
+      showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentLocked);
+      return Promise.resolve();
+    }
+
+    await forgetLastSuccessfulREDdeployFingerprint(vortexApi, gameDirPath);
+
+    const redmodsToDeploy = await enabledREDmodsToDeployNatively(gameDirPath, v2077LoadOrderToDeploy);
+
+    if (!(await redModIsAvailable(gameDirPath)) && canDeployNatively(redmodsToDeploy)) {
+      await deployLockedREDmodDeployJobNatively(job, redmodsToDeploy, generatedModList);
+    } else {
+      await deployLockedREDmodDeployJob(job, cancellation, generatedModList, fingerprint, plan.force || alwaysDeploy);
+    }
+  } catch (error) {
+    vortexApi.log(`error`, `${me}: REDmod deployment ${loID} failed unexpectedly!`, S(error));
+    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentFailed);
+  } finally {
+    if (locked) {
+      await releaseREDdeployLock(vortexApi, gameDirPath);
+    }
+  }
+
+  return Promise.resolve();
+};
+
+const REDmodDeployQueue = makeREDdeployQueue<REDmodDeployJob>(
+  runREDmodDeployJob,
+  (queueState, job) => {
+    job.vortexApi.store.dispatch(setREDdeployQueueStateAction(queueState));
+  },
+);
+
+export const cancelRunningREDmodDeploy = (): boolean =>
+  REDmodDeployQueue.cancelRunning();
+
+// Resolves once the load order, or a newer one that replaced it, has been deployed
+export const startREDmodDeployInTheBackgroundWithNotifications = async (
   vortexApi: VortexApi,
   gameDirPath: string,
   loID: number,
   v2077LoadOrderToDeploy: LoadOrder,
-  vortexFormatLoadOrderForComparison: VortexLoadOrder,
+  alwaysDeploy: boolean = false,
 ): Promise<void> => {
   const tag = `${me}: REDmod Background Deploy`;
 
-  vortexApi.log(`info`, `${tag}: Starting background deploy for load order ${loID}`);
+  vortexApi.log(`info`, `${tag}: Queuing background deploy for load order ${loID}`);
 
   const vortexState: VortexState = vortexApi.store.getState();
   const activeProfile = selectors.activeProfile(vortexState);
@@ -546,68 +1270,54 @@ export const startREDmodDeployInTheBackgroundWithNotifications = (
     return Promise.resolve();
   }
 
-  const newestGeneratedLoadOrder: readonly VortexLoadOrderEntry[] =
-    vortexUtil.getSafe(vortexState, [`persistent`, `loadOrder`, ownerProfileId], undefined);
-
-  if (!newestGeneratedLoadOrder) {
-    vortexApi.log(`error`, `${tag}: Unable to find the current load order, canceling! It should be *this* one (${loID}) if nothing else.`);
-    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentFailed);
+  const { running, pending } = REDmodDeployQueue.state();
 
-    return Promise.resolve();
+  if (pending !== undefined) {
+    vortexApi.log(`info`, `${tag}: Load order ${loID} replaces ${pending.loID} that was waiting to be deployed`);
   }
-
-  // Are we still the current load order? Maybe not!
-  //
-  // Maybe there's a better way to do this check.. but this is what Vortex itself
-  // uses, so we can't give an actually unique ID to the vortex load order because
-  // then it won't match the previous run..
-  if (JSON.stringify(vortexFormatLoadOrderForComparison) !== JSON.stringify(newestGeneratedLoadOrder)) {
-    vortexApi.log(`info`, `${tag}: Load order ${loID} no longer most recent, this is ok, canceling!`);
-    // No need to notify, it's fine if this has been superceded
-    return Promise.resolve();
+  if (running !== undefined) {
+    vortexApi.log(`info`, `${tag}: Load order ${loID} will be deployed once ${running.loID} is done`);
   }
 
-  const redDeploy =
-    redmodDeployRunParameters(gameDirPath);
+  return REDmodDeployQueue.request({
+    loID,
+    vortexApi,
+    gameDirPath,
+    v2077LoadOrderToDeploy,
+    alwaysDeploy,
+  });
+};
 
+// Run even if nothing's changed, since the user asked for it
+export const deployLatestLoadOrderOnRequest = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  activeProfile: VortexProfile,
+): Promise<void> => {
+  // TODO: Generate load order if none found?
+  //       https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/285
+  const latestLoadOrderInVortexFormat: VortexLoadOrder = pipe(
+    loadOrderFromVortexState(vortexApi.store.getState(), activeProfile),
+    getOrElseO(constant([])),
+  );
 
-  if (isEmpty(v2077LoadOrderToDeploy.entriesInOrderWithEarlierWinning)) {
-    vortexApi.log(`warn`, `${me}: No mods in load order, running default REDdeploy!`);
-    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentDefaulted);
-  } else {
-    vortexApi.log(`info`, `${me}: Starting REDmod deployment ${loID}!`);
-    showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentStarted);
-  }
+  const timestampAsLoadOrderId = Date.now();
 
-  vortexApi.log(`debug`, `${me}: Deployment arguments and command line: `, S(redDeploy));
+  const latestLoadOrder: LoadOrder =
+    makeV2077LoadOrderFrom(
+      latestLoadOrderInVortexFormat,
+      activeProfile.id,
+      timestampAsLoadOrderId,
+      groupingREDmodsByVortexMod(vortexApi.store.getState()),
+    );
 
-  // Should really figure out how to get the output from this.
-  // TODO: https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/321
-  const modListPath = path.join(gameDirPath, V2077_MODLIST_PATH);
-  const REDdeployment: Promise<void> =
-    pipe(
-      loadOrderToREDdeployModList(v2077LoadOrderToDeploy),
-      // The line joining MUST be \r\n so that it is Windows line endings. otherwise redmod fails
-      (generatedModList) => generatedModList.join(os.EOL),
-      (encodedLoadOrder) => tryCatchTE(
-        () =>
-          fs.statAsync(path.dirname(modListPath)).then(() =>
-            fs.writeFileAsync(`${modListPath}.${loID}.tmp`, encodedLoadOrder, { encoding: `utf8` })).then(() =>
-            fs.renameAsync(`${modListPath}.${loID}.tmp`, modListPath)).then(() => true),
-        (error) => new Error(`Unable to write load order to disk: ${S(error)}`),
-      ),
-    )().then(() =>
-      vortexApi.runExecutable(redDeploy.executable, redDeploy.args, redDeploy.options)
-        .then(() => {
-          vortexApi.log(`info`, `${me}: REDmod deployment ${loID} complete!`);
-          showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentSucceeded);
-        })
-        .catch((error) => {
-          vortexApi.log(`error`, `${me}: REDmod deployment ${loID} failed!`, S(error));
-          showInfoNotification(vortexApi, InfoNotification.REDmodDeploymentFailed);
-        }));
-
-  return REDdeployment;
+  return startREDmodDeployInTheBackgroundWithNotifications(
+    vortexApi,
+    gameDirPath,
+    timestampAsLoadOrderId,
+    latestLoadOrder,
+    true,
+  );
 };
 
 const writeLoadOrderToDisk = (
@@ -670,10 +1380,25 @@ const deployAndSerializeNewLoadOrder: VortexWrappedSerializeFunc = (
   const vortexState: VortexState = vortexApi.store.getState();
   const activeProfile = selectors.activeProfile(vortexState);
 
+  // Vortex only moved what was dragged, so the rest of the group has to be
+  // moved after it. Giving the grouped order back to Vortex gets us here
+  // again with it, and that's the one we deploy and store.
+  const groupByVortexMod = groupingREDmodsByVortexMod(vortexState);
+
+  if (groupByVortexMod) {
+    const groupedLoadOrder = groupREDmodsByVortexMod(vortexLoadOrder);
+
+    if (!sameOrder(vortexLoadOrder, groupedLoadOrder)) {
+      vortexApi.log(`info`, `${me}: Serialize: Moving REDmods to be with the rest of their group`);
+      vortexApi.store.dispatch(actions.setFBLoadOrder(activeProfile.id, groupedLoadOrder));
+      return tellUserIfGroupMembersWereDragged(vortexApi, gameDirPath, activeProfile, vortexLoadOrder);
+    }
+  }
+
   const ownerVortexProfileId = activeProfile.id;
   const loID = Date.now();
 
-  const v2077LoadOrder = makeV2077LoadOrderFrom(vortexLoadOrder, ownerVortexProfileId, loID);
+  const v2077LoadOrder = makeV2077LoadOrderFrom(vortexLoadOrder, ownerVortexProfileId, loID, groupByVortexMod);
 
   vortexApi.log(`info`, `${me}: New load order ${loID} ready to be deployed and serialized!`);
   vortexApi.log(`debug`, `${me}: Load order ${loID}:`, S(v2077LoadOrder));
@@ -681,7 +1406,7 @@ const deployAndSerializeNewLoadOrder: VortexWrappedSerializeFunc = (
   // We want to wait until there's been a deployment - either the automatic one
   // from an enable or something like that, or a manually triggered one.
   vortexApi.events.once(`did-deploy`, () => {
-    startREDmodDeployInTheBackgroundWithNotifications(vortexApi, gameDirPath, loID, v2077LoadOrder, vortexLoadOrder);
+    startREDmodDeployInTheBackgroundWithNotifications(vortexApi, gameDirPath, loID, v2077LoadOrder);
   });
 
   vortexApi.log(`info`, `${me}: Queuing REDmod deployment for load order ${loID} to run after next Vortex deployment!`);
@@ -703,6 +1428,8 @@ const deployAndSerializeNewLoadOrder: VortexWrappedSerializeFunc = (
         showInfoNotification(vortexApi, InfoNotification.LoadOrderWriteFailed);
         return error;
       }),
+      chainFirstTaskK(() => () =>
+        snapshotLoadOrder(vortexApi, activeProfile, gameDirPath, loID, serializedLoadOrder)),
     );
 
   return maybeSuccessfullyWroteLoadOrderToDisk();
@@ -712,16 +1439,45 @@ const deployAndSerializeNewLoadOrder: VortexWrappedSerializeFunc = (
 //
 // 'Validate' the load order
 //
-// That's nice I guess, but for now it's an autopass.
+// Load after rules that form a cycle can't be satisfied, and REDmods that
+// share a dir, are missing from the game dir or are broken on disk won't
+// deploy right, so they're errors on the entry.
 //
 
 const validate: VortexWrappedValidateFunc = async (
   vortexApi: VortexApi,
   _previousLoadOrder: VortexLoadOrder,
-  _currentLoadOrder: VortexLoadOrder,
+  currentLoadOrder: VortexLoadOrder,
 ): Promise<VortexValidationResult> => {
-  vortexApi.log(`debug`, `${me}: Load order validation autosucceeds for now, we've already done all validation`);
-  return Promise.resolve(LOAD_ORDER_VALIDATION_PASSED_RESULT);
+  const loadOrder = currentLoadOrder ?? [];
+
+  const cycles = findLoadAfterCycles(loadOrder);
+
+  if (cycles.length > 0) {
+    vortexApi.log(`warn`, `${me}: Load after rules contain cycles`, cycles.map(describeLoadAfterCycle));
+  }
+
+  const gameDirPath = getDiscoveryPath(vortexApi);
+
+  const problemsOnDisk = gameDirPath !== undefined
+    ? await findProblemsWithREDmodsOnDisk(vortexApi, gameDirPath, loadOrder)
+    : [];
+
+  const notInGameDir = gameDirPath !== undefined
+    ? await findREDmodsNotInGameDir(gameDirPath, loadOrder)
+    : [];
+
+  const problems: LoadOrderProblem[] = [
+    ...cycles.flatMap((cycle) =>
+      cycle.map((entry) => ({ id: entry.id, reason: describeLoadAfterCycle(cycle) }))),
+    ...findDuplicateREDmodDirs(loadOrder),
+    ...notInGameDir,
+    ...problemsOnDisk,
+  ];
+
+  return problems.length > 0
+    ? { invalid: problems }
+    : LOAD_ORDER_VALIDATION_PASSED_RESULT;
 };
 
 
@@ -9,6 +9,10 @@ import {
   getOrElse,
   Option,
 } from "fp-ts/lib/Option";
+import {
+  Either,
+  map as mapE,
+} from "fp-ts/lib/Either";
 import * as t from "io-ts";
 import path from "path";
 import {
@@ -24,7 +28,8 @@ import {
   VortexWrappedValidateFunc,
 } from "./vortex-wrapper";
 
-export const LOAD_ORDER_TYPE_VERSION = `1.0.0`;
+export const LOAD_ORDER_TYPE_VERSION = `2.0.0`;
+export const LOAD_ORDER_TYPE_VERSION_V1 = `1.0.0`;
 
 export interface LoadOrderer {
   validate: VortexWrappedValidateFunc;
@@ -39,6 +44,16 @@ export interface LoadOrderEntryDataForVortex {
   vortexModVersion: string;
   vortexEnabled: boolean;
   redmodInfo: REDmodInfoForVortex;
+  // Installed outside Vortex, so there's no actual Vortex mod behind it
+  external?: boolean;
+  pin?: LoadOrderPin;
+  note?: string;
+  loadsAfter?: string[];
+  userDisabled?: boolean;
+  expanded?: boolean;
+  // Only for showing in the load order, see views/load-order-item.tsx
+  vortexModName?: string;
+  redmodSubtypes?: string[];
 }
 
 export interface OrderableLoadOrderEntryForVortex extends LoadOrderEntryDataForVortex {
@@ -53,12 +68,15 @@ export interface TypedOrderableVortexLoadOrderEntry extends Omit<VortexLoadOrder
   data: OrderableLoadOrderEntryForVortex;
 }
 
-// We're not explicitly storing the index for now,
-// but it might not be a bad idea in the long run.
-export const LoadOrderEntryType =
+//
+// v1 only stored the sequence, so it's only here to be migrated
+//
+
+export const LoadOrderEntryV1Type =
   t.intersection([
     t.partial({
       vortexModId: t.string,
+      external: t.boolean,
     }),
     t.type({
       vortexId: t.string,
@@ -68,6 +86,64 @@ export const LoadOrderEntryType =
       redmodPath: t.string,
       enabled: t.boolean,
     }),
+  ], `LoadOrderEntryV1Type`);
+export type LoadOrderEntryV1 = t.TypeOf<typeof LoadOrderEntryV1Type>;
+
+export const LoadOrderV1Type =
+  t.type(
+    {
+      loadOrderFormatVersion: t.literal(LOAD_ORDER_TYPE_VERSION_V1),
+      generatedAt: t.string,
+      ownerVortexProfileId: t.string,
+      entriesInOrderWithEarlierWinning: t.array(LoadOrderEntryV1Type),
+    },
+    `LoadOrderV1Type`,
+  );
+export type LoadOrderV1 = t.TypeOf<typeof LoadOrderV1Type>;
+
+//
+// v2 (current)
+//
+// The index is what the entries are sorted by, so the list itself can be
+// in any order. Pinned entries stay at the top or bottom no matter where
+// the rest are moved, and the note is just for the user.
+//
+// `loadsAfter` lists the REDmod names this one must come after, see
+// load_order.rules.ts
+//
+// `enabled` is whether the REDmod goes in the modlist. That takes both its
+// Vortex mod being enabled and the REDmod itself not being unticked in the
+// load order, which is what `userDisabled` records so that a REDmod in a mod
+// with several of them can be left out on its own.
+//
+// `expanded` is only for Vortex mods with several REDmods, when they're
+// grouped: the REDmods of an expanded mod are ordered individually, see
+// load_order.groups.ts
+//
+
+export const enum LoadOrderPin {
+  Top = `top`,
+  Bottom = `bottom`,
+}
+
+export const LoadOrderPinType = t.union([
+  t.literal(LoadOrderPin.Top),
+  t.literal(LoadOrderPin.Bottom),
+], `LoadOrderPinType`);
+
+export const LoadOrderEntryType =
+  t.intersection([
+    LoadOrderEntryV1Type,
+    t.type({
+      index: t.number,
+    }),
+    t.partial({
+      pin: LoadOrderPinType,
+      note: t.string,
+      loadsAfter: t.array(t.string),
+      userDisabled: t.boolean,
+      expanded: t.boolean,
+    }),
   ], `LoadOrderEntryType`);
 export type LoadOrderEntry = t.TypeOf<typeof LoadOrderEntryType>;
 
@@ -83,12 +159,285 @@ export const LoadOrderType =
   );
 export type LoadOrder = t.TypeOf<typeof LoadOrderType>;
 
+export const AnyVersionLoadOrderType =
+  t.union([LoadOrderType, LoadOrderV1Type], `AnyVersionLoadOrderType`);
+export type AnyVersionLoadOrder = t.TypeOf<typeof AnyVersionLoadOrderType>;
+
+
+export const migrateLoadOrderV1ToV2 = (loadOrderV1: LoadOrderV1): LoadOrder => ({
+  ...loadOrderV1,
+  loadOrderFormatVersion: LOAD_ORDER_TYPE_VERSION,
+  entriesInOrderWithEarlierWinning:
+    loadOrderV1.entriesInOrderWithEarlierWinning.map((entry, index) => ({ ...entry, index })),
+});
+
+export const migrateLoadOrderToCurrentVersion = (loadOrder: AnyVersionLoadOrder): LoadOrder =>
+  (loadOrder.loadOrderFormatVersion === LOAD_ORDER_TYPE_VERSION_V1
+    ? migrateLoadOrderV1ToV2(loadOrder)
+    : loadOrder);
+
 
 export const encodeLoadOrder = (loadOrder: LoadOrder): string =>
   jsonpp(loadOrder);
 
 
-export const decodeLoadOrder = decodeWith(LoadOrderType.decode);
+// Older versions are migrated, so this always gives you the current one
+export const decodeLoadOrder = (jsonString: string): Either<Error, LoadOrder> =>
+  pipe(
+    jsonString,
+    decodeWith(AnyVersionLoadOrderType.decode),
+    mapE(migrateLoadOrderToCurrentVersion),
+  );
+
+//
+// Validation
+//
+// Problems are reported to Vortex per entry, by the entry's id.
+//
+
+export interface LoadOrderProblem {
+  id: string;
+  reason: string;
+}
+
+//
+// Snapshots
+//
+// Every load order we serialize is also kept as a copy with the load order id
+// (the time it was generated) in the name, so that it can be compared with and
+// restored later. Only the newest ones are kept.
+//
+
+export interface LoadOrderSnapshot {
+  loID: number;
+  path: string;
+  loadOrder: LoadOrder;
+}
+
+export interface LoadOrderEntryMove {
+  entry: LoadOrderEntry;
+  from: number;
+  to: number;
+}
+
+// Positions for moves are among the entries in both, so that
+// adding or removing something doesn't count as moving the rest
+export interface LoadOrderEntryUserDetesChange {
+  entry: LoadOrderEntry;
+  changed: (keyof LoadOrderUserDetes)[];
+}
+
+export interface LoadOrderDiff {
+  added: LoadOrderEntry[];
+  removed: LoadOrderEntry[];
+  moved: LoadOrderEntryMove[];
+  enabledChanged: LoadOrderEntry[];
+  userDetesChanged: LoadOrderEntryUserDetesChange[];
+}
+
+export interface LoadOrderSnapshotRestore {
+  // Everything orderable, in the snapshot order where we found a match
+  loadOrder: VortexLoadOrderEntry[];
+  missing: LoadOrderEntry[];
+}
+
+//
+// Profiles
+//
+
+export interface ProfileLoadOrderCopy {
+  // Everything orderable, in the other profile's order where we found a match
+  loadOrder: VortexLoadOrderEntry[];
+  missing: LoadOrderEntry[];
+}
+
+//
+// Masterlist
+//
+// A local file that knows about REDmods in general, not about anyone's
+// install in particular. Entries are matched by REDmod name or Nexus mod
+// id and put in a group. Groups are listed in the order they should be in
+// the load order list, and the REDmods in them are kept in the current
+// order otherwise. Known relationships are load after rules, same as the
+// ones in the load order itself.
+//
+
+export const MASTERLIST_TYPE_VERSION = `1.0.0`;
+
+export const DEFAULT_MASTERLIST_GROUP = `default`;
+
+export const MasterlistEntryType =
+  t.partial({
+    redmodName: t.string,
+    nexusModId: t.string,
+    group: t.string,
+    loadsAfter: t.array(t.string),
+  }, `MasterlistEntryType`);
+export type MasterlistEntry = t.TypeOf<typeof MasterlistEntryType>;
+
+export const MasterlistType =
+  t.type(
+    {
+      masterlistFormatVersion: t.literal(MASTERLIST_TYPE_VERSION),
+      groups: t.array(t.string),
+      entries: t.array(MasterlistEntryType),
+    },
+    `MasterlistType`,
+  );
+export type Masterlist = t.TypeOf<typeof MasterlistType>;
+
+
+export const decodeMasterlist = decodeWith(MasterlistType.decode);
+
+export interface MasterlistSortChange {
+  redmodName: string;
+  from: number;
+  to: number;
+}
+
+
+//
+// Portable load order
+//
+// Vortex ids only mean something in one Vortex install, so the portable
+// format uses what anyone with the same mods has: the Nexus mod id, the
+// file version and the REDmod name. `enabled` is whether the REDmod was in
+// use, and REDmods that weren't are unticked on import.
+//
+
+export const PORTABLE_LOAD_ORDER_TYPE_VERSION = `1.0.0`;
+
+export const PortableLoadOrderEntryType =
+  t.intersection([
+    t.partial({
+      nexusModId: t.string,
+    }),
+    t.type({
+      fileVersion: t.string,
+      redmodName: t.string,
+      enabled: t.boolean,
+    }),
+  ], `PortableLoadOrderEntryType`);
+export type PortableLoadOrderEntry = t.TypeOf<typeof PortableLoadOrderEntryType>;
+
+export const PortableLoadOrderType =
+  t.type(
+    {
+      portableLoadOrderFormatVersion: t.literal(PORTABLE_LOAD_ORDER_TYPE_VERSION),
+      exportedAt: t.string,
+      entriesInOrderWithEarlierWinning: t.array(PortableLoadOrderEntryType),
+    },
+    `PortableLoadOrderType`,
+  );
+export type PortableLoadOrder = t.TypeOf<typeof PortableLoadOrderType>;
+
+
+export const encodePortableLoadOrder = (portableLoadOrder: PortableLoadOrder): string =>
+  jsonpp(portableLoadOrder);
+
+
+export const decodePortableLoadOrder = decodeWith(PortableLoadOrderType.decode);
+
+export interface PortableLoadOrderImport {
+  // Everything orderable, in the imported order where we found a match
+  loadOrder: VortexLoadOrderEntry[];
+  missing: PortableLoadOrderEntry[];
+  differentVersion: PortableLoadOrderEntry[];
+}
+
+
+//
+// Heritage archive load order
+//
+// Archives in `archive/pc/mod` load alphabetically, so the order is applied by
+// renaming them with a sort prefix. We store the original name so that we can
+// always get back to it.
+//
+
+export const ARCHIVE_LOAD_ORDER_TYPE_VERSION = `1.0.0`;
+
+export const ArchiveLoadOrderEntryType =
+  t.intersection([
+    t.partial({
+      vortexModId: t.string,
+    }),
+    t.type({
+      vortexId: t.string,
+      archiveName: t.string,
+    }),
+  ], `ArchiveLoadOrderEntryType`);
+export type ArchiveLoadOrderEntry = t.TypeOf<typeof ArchiveLoadOrderEntryType>;
+
+export const ArchiveLoadOrderType =
+  t.type(
+    {
+      archiveLoadOrderFormatVersion: t.literal(ARCHIVE_LOAD_ORDER_TYPE_VERSION),
+      generatedAt: t.string,
+      ownerVortexProfileId: t.string,
+      entriesInOrderWithEarlierWinning: t.array(ArchiveLoadOrderEntryType),
+    },
+    `ArchiveLoadOrderType`,
+  );
+export type ArchiveLoadOrder = t.TypeOf<typeof ArchiveLoadOrderType>;
+
+
+export const encodeArchiveLoadOrder = (archiveLoadOrder: ArchiveLoadOrder): string =>
+  jsonpp(archiveLoadOrder);
+
+
+export const decodeArchiveLoadOrder = decodeWith(ArchiveLoadOrderType.decode);
+
+// The staging folder is shared by all profiles, so what we've renamed is kept
+// there too. That way it doesn't matter which profile did the renaming.
+export const ARCHIVE_RENAMES_TYPE_VERSION = `1.0.0`;
+
+export const RenamedArchiveType =
+  t.type(
+    {
+      vortexId: t.string,
+      archiveName: t.string,
+      nameOnDisk: t.string,
+    },
+    `RenamedArchiveType`,
+  );
+export type RenamedArchive = t.TypeOf<typeof RenamedArchiveType>;
+
+export const ArchiveRenamesType =
+  t.type(
+    {
+      archiveRenamesFormatVersion: t.literal(ARCHIVE_RENAMES_TYPE_VERSION),
+      generatedAt: t.string,
+      renamed: t.array(RenamedArchiveType),
+    },
+    `ArchiveRenamesType`,
+  );
+export type ArchiveRenames = t.TypeOf<typeof ArchiveRenamesType>;
+
+
+export const encodeArchiveRenames = (archiveRenames: ArchiveRenames): string =>
+  jsonpp(archiveRenames);
+
+
+export const decodeArchiveRenames = decodeWith(ArchiveRenamesType.decode);
+
+// One archive in some mod's staging folder. `archiveName` is the
+// original name, `nameOnDisk` may have a sort prefix we've added.
+export interface OrderableArchive {
+  vortexId: string;
+  vortexModId?: string;
+  modName: string;
+  enabled: boolean;
+  archiveName: string;
+  nameOnDisk: string;
+}
+
+// Relative to the mod's archive dir in staging
+export interface ArchiveRename {
+  vortexId: string;
+  from: string;
+  to: string;
+}
+
 
 // We're not explicitly storing the index for now,
 // but it might not be a bad idea in the long run.
@@ -107,12 +456,30 @@ export const encodeModList = (loadOrder: LoadOrder): string =>
 export const decodeModList = decodeWith(LoadOrderType.decode);
 
 
-export type IndexableMaybeEnabledMod = VortexModWithEnabledStatus & { index: Option<number> };
+export type MaybeEnabledMod = VortexModWithEnabledStatus;
 export type IdToIndex = { [id: string]: number };
 
+export type LoadOrderUserDetes = Pick<LoadOrderEntry, `pin` | `note` | `loadsAfter` | `userDisabled` | `expanded`>;
+export type IdToUserDetes = { [id: string]: LoadOrderUserDetes };
+
 export const DEFAULT_INDEX_SO_NEW_MODS_SORTED_TO_TOP = -1;
 
-export const byIndexWithNewAtTheBack =
+const PINNED_POSITION: Record<LoadOrderPin, number> = {
+  [LoadOrderPin.Top]: 0,
+  [LoadOrderPin.Bottom]: 2,
+};
+const UNPINNED_POSITION = 1;
+
+const pinnedPositionFor = (pin: LoadOrderPin | undefined): number =>
+  (pin !== undefined ? PINNED_POSITION[pin] : UNPINNED_POSITION);
+
+export const byPinTopFirstBottomLast: Ord<VortexLoadOrderEntry> =
+  pipe(
+    NumericOrd,
+    contramap((mod: VortexLoadOrderEntry) => pinnedPositionFor(mod.data.pin)),
+  );
+
+export const thenByIndexWithNewAtTheBack =
   (backIndex: number): Ord<VortexLoadOrderEntry> =>
     pipe(
       NumericOrd,
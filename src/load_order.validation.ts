@@ -0,0 +1,172 @@
+import {
+  win32,
+} from "path";
+import * as J from "fp-ts/lib/Json";
+import {
+  pipe,
+} from "fp-ts/lib/function";
+import {
+  chain as chainE,
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  fs,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+} from "./index.metadata";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  REDMOD_CUSTOMSOUNDS_DIRNAME,
+  REDMOD_INFO_FILENAME,
+} from "./installers.layouts";
+import {
+  decodeREDmodInfo,
+  REDmodInfo,
+} from "./installers.types";
+import {
+  LoadOrderEntryDataForVortex,
+  LoadOrderProblem,
+} from "./load_order.types";
+import {
+  VortexApi,
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+} from "./vortex-wrapper";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} Load Order Validation`;
+
+const dataFor = (entry: VortexLoadOrderEntry): LoadOrderEntryDataForVortex =>
+  entry.data;
+
+const dirNameOf = (entry: VortexLoadOrderEntry): string =>
+  path.basename(dataFor(entry).redmodInfo.relativePath);
+
+// Unticked REDmods and disabled Vortex mods aren't deployed, so there's nothing of them to check
+const isToBeDeployed = (entry: VortexLoadOrderEntry): boolean =>
+  entry.enabled && dataFor(entry).vortexEnabled;
+
+
+//
+// Duplicate REDmod dirs
+//
+// redMod only knows REDmods by their dir, so two Vortex mods deploying the
+// same one would overwrite each other and only one of them would end up in
+// the deployment. Windows doesn't care about case, so neither do we.
+//
+
+export const findDuplicateREDmodDirs = (loadOrder: VortexLoadOrder): LoadOrderProblem[] => {
+  const entriesByDir = new Map<string, VortexLoadOrderEntry[]>();
+
+  loadOrder.filter(isToBeDeployed).forEach((entry) => {
+    const dir = dirNameOf(entry).toLowerCase();
+    entriesByDir.set(dir, [...(entriesByDir.get(dir) ?? []), entry]);
+  });
+
+  return [...entriesByDir.values()]
+    .filter((entries) => new Set(entries.map((entry) => dataFor(entry).vortexId)).size > 1)
+    .flatMap((entries) =>
+      entries.map((entry) => ({
+        id: entry.id,
+        reason: `${dirNameOf(entry)} is also installed by ${entries
+          .filter((other) => dataFor(other).vortexId !== dataFor(entry).vortexId)
+          .map((other) => dataFor(other).redmodInfo.name)
+          .join(`, `)}, only one of them can be deployed`,
+      })));
+};
+
+
+//
+// REDmods on disk
+//
+// Every REDmod to be deployed needs to be in the game dir. Anything that is
+// there needs a valid info.json, and sounds that aren't skipped need the file
+// they name under `customSounds\`.
+//
+
+export const customSoundFilesRequiredBy = (redmodInfo: REDmodInfo): string[] =>
+  (redmodInfo.customSounds ?? [])
+    .filter((sound) => sound.type !== `mod_skip` && sound.file !== undefined)
+    .map((sound) => path.join(REDMOD_CUSTOMSOUNDS_DIRNAME, sound.file));
+
+const existsOnDisk = async (pathOnDisk: string): Promise<boolean> =>
+  fs.statAsync(pathOnDisk).then(() => true, () => false);
+
+const problemWithREDmodOnDisk = async (
+  gameDirPath: string,
+  entry: VortexLoadOrderEntry,
+): Promise<string | undefined> => {
+  const { relativePath } = dataFor(entry).redmodInfo;
+  const redmodPath = path.join(gameDirPath, relativePath);
+
+  if (!(await existsOnDisk(redmodPath))) {
+    return undefined;
+  }
+
+  const infoJsonPath = path.join(redmodPath, REDMOD_INFO_FILENAME);
+
+  const maybeREDmodInfo = pipe(
+    await fileFromDiskTE({ relativePath: path.join(relativePath, REDMOD_INFO_FILENAME), pathOnDisk: infoJsonPath })(),
+    chainE((file) => pipe(
+      J.parse(file.content),
+      chainE(decodeREDmodInfo),
+    )),
+  );
+
+  if (isLeft(maybeREDmodInfo)) {
+    return `${path.join(relativePath, REDMOD_INFO_FILENAME)} is missing or invalid: ${maybeREDmodInfo.left.message}`;
+  }
+
+  const soundFiles = customSoundFilesRequiredBy(maybeREDmodInfo.right);
+  const soundFilesFound = await Promise.all(soundFiles.map((file) => existsOnDisk(path.join(redmodPath, file))));
+  const missingSoundFiles = soundFiles.filter((_file, index) => !soundFilesFound[index]);
+
+  return missingSoundFiles.length > 0
+    ? `${relativePath} has custom sounds without their files: ${missingSoundFiles.join(`, `)}`
+    : undefined;
+};
+
+export const findREDmodsNotInGameDir = async (
+  gameDirPath: string,
+  loadOrder: VortexLoadOrder,
+): Promise<LoadOrderProblem[]> => {
+  const entriesToCheck = loadOrder.filter(isToBeDeployed);
+
+  const found = await Promise.all(entriesToCheck.map((entry) =>
+    existsOnDisk(path.join(gameDirPath, dataFor(entry).redmodInfo.relativePath))));
+
+  return entriesToCheck
+    .filter((_entry, index) => !found[index])
+    .map((entry) => ({
+      id: entry.id,
+      reason: `${dataFor(entry).redmodInfo.relativePath} isn't in the game dir, you may need to deploy or reinstall the mod`,
+    }));
+};
+
+export const findProblemsWithREDmodsOnDisk = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  loadOrder: VortexLoadOrder,
+): Promise<LoadOrderProblem[]> => {
+  const entriesToCheck = loadOrder.filter(isToBeDeployed);
+
+  const maybeProblems = await Promise.all(entriesToCheck.map((entry) => problemWithREDmodOnDisk(gameDirPath, entry)));
+
+  const problems = entriesToCheck.flatMap((entry, index) =>
+    (maybeProblems[index] !== undefined ? [{ id: entry.id, reason: maybeProblems[index] }] : []));
+
+  if (problems.length > 0) {
+    vortexApi.log(`warn`, `${me}: Found problems with REDmods on disk`, problems);
+  }
+
+  return problems;
+};
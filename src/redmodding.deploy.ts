@@ -0,0 +1,365 @@
+import {
+  win32,
+} from "path";
+import {
+  createHash,
+} from "crypto";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  fs,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  VORTEX_STORE_PATHS,
+} from "./index.metadata";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  REDMOD_BASEDIR,
+} from "./installers.layouts";
+import {
+  ModList,
+} from "./load_order.types";
+import {
+  REDMODDING_LOG_FILE_PATH,
+  REDMODDING_RTTI_METADATA_FILE_PATH,
+  V2077_REDDEPLOY_FINGERPRINT_PATH,
+  V2077_REDMOD_DEPLOY_OUTPUT_PATH,
+} from "./redmodding.metadata";
+import {
+  decodeREDdeployFingerprint,
+  REDDEPLOY_FINGERPRINT_TYPE_VERSION,
+  REDdeployFingerprint,
+  REDdeployPlan,
+  REDmodDeployCategory,
+  REDmodDeployError,
+  REDmodDeployResult,
+  REDmodDeployRun,
+} from "./redmodding.types";
+import {
+  jsonpp,
+} from "./util.functions";
+import {
+  VortexApi,
+  VortexRunParameters,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} REDmod Deploy`;
+
+export const LAST_REDMOD_DEPLOY_RESULT_KEY = `lastREDmodDeployResult`;
+
+const MAX_ERRORS_TO_SHOW = 5;
+
+export const lastREDmodDeployResultFrom = (vortexState: VortexState): REDmodDeployResult | undefined =>
+  vortexUtil.getSafe(vortexState, [...VORTEX_STORE_PATHS.persistent, LAST_REDMOD_DEPLOY_RESULT_KEY], undefined);
+
+
+//
+// Capturing the output
+//
+// redMod.exe is already run through the shell, so the simplest way to get
+// what it prints is to have the shell put it in a file for us.
+//
+
+export const withOutputCapturedTo = (
+  runParameters: VortexRunParameters,
+  outputPath: string,
+): VortexRunParameters => ({
+  ...runParameters,
+  args: [...runParameters.args, `>`, `"${outputPath}"`, `2>&1`],
+});
+
+export const commandLineFor = (runParameters: VortexRunParameters): string =>
+  [`"${runParameters.executable}"`, ...runParameters.args].join(` `);
+
+
+//
+// Parsing
+//
+// Lines usually look like `[ ERROR - <timestamp> ] message`, but not all of
+// them have the prefix. Errors are attributed to a category by what they say
+// or, failing that, by the step redMod was last reported to be doing. The mod
+// is found from a path under `mods\` or a quoted mod name.
+//
+
+const PREFIXED_LINE = /^\s*\[\s*(?<level>[A-Za-z]+)\s*(?:-[^\]]*)?\]\s*(?<message>.*)$/;
+const UNPREFIXED_ERROR_LINE = /^\s*(?:error\b|.*\berror:)/i;
+
+const MOD_PATH = /[\\/]mods[\\/](?<modName>[^\\/'"]+)[\\/]/i;
+const QUOTED_MOD_NAME = /\bmod\s+['"](?<modName>[^'"]+)['"]/i;
+
+const categoryIn = (message: string): REDmodDeployCategory | undefined => {
+  if (/script/i.test(message)) {
+    return REDmodDeployCategory.Scripts;
+  }
+  if (/tweak/i.test(message)) {
+    return REDmodDeployCategory.Tweaks;
+  }
+  if (/sound/i.test(message)) {
+    return REDmodDeployCategory.Sounds;
+  }
+  return undefined;
+};
+
+const modNameIn = (message: string): string | undefined =>
+  (MOD_PATH.exec(message) ?? QUOTED_MOD_NAME.exec(message))?.groups?.modName;
+
+interface ParsedLine {
+  isError: boolean;
+  message: string;
+}
+
+const parseLine = (line: string): ParsedLine => {
+  const prefixed = PREFIXED_LINE.exec(line);
+
+  return prefixed
+    ? { isError: prefixed.groups.level.toUpperCase() === `ERROR`, message: prefixed.groups.message.trim() }
+    : { isError: UNPREFIXED_ERROR_LINE.test(line), message: line.trim() };
+};
+
+export const parseREDmodDeployOutput = (output: string): REDmodDeployError[] => {
+  const errors: REDmodDeployError[] = [];
+  let currentCategory = REDmodDeployCategory.Other;
+
+  output.split(/\r?\n/).map(parseLine).forEach(({ isError, message }) => {
+    if (message === ``) {
+      return;
+    }
+
+    const category = categoryIn(message);
+
+    if (!isError) {
+      currentCategory = category ?? currentCategory;
+      return;
+    }
+
+    errors.push({
+      modName: modNameIn(message),
+      category: category ?? currentCategory,
+      message,
+    });
+  });
+
+  return errors;
+};
+
+// The same error can be both printed and logged
+export const uniqueREDmodDeployErrors = (errors: readonly REDmodDeployError[]): REDmodDeployError[] =>
+  errors.filter((error, index) =>
+    errors.findIndex((other) => other.modName === error.modName && other.message === error.message) === index);
+
+export const describeREDmodDeployErrors = (errors: readonly REDmodDeployError[]): string => {
+  const shown = errors
+    .slice(0, MAX_ERRORS_TO_SHOW)
+    .map((error) => `${error.modName ?? `Unknown mod`} (${error.category}): ${error.message}`);
+
+  const notShownCount = errors.length - shown.length;
+
+  return notShownCount > 0
+    ? [...shown, `...and ${notShownCount} more, check the log for the rest!`].join(`\n`)
+    : shown.join(`\n`);
+};
+
+
+//
+// Collecting the result
+//
+
+// A log left over from an earlier run would only confuse things
+const contentIfWrittenSince = async (
+  vortexApi: VortexApi,
+  filePath: string,
+  since: number,
+): Promise<string> => {
+  try {
+    const stats = await fs.statAsync(filePath);
+
+    if (stats.mtimeMs < since) {
+      vortexApi.log(`debug`, `${me}: ${filePath} is from an earlier run, ignoring it`);
+      return ``;
+    }
+  } catch (error) {
+    vortexApi.log(`debug`, `${me}: No ${filePath} to check for errors: ${error.message}`);
+    return ``;
+  }
+
+  const maybeFile = await fileFromDiskTE({ relativePath: filePath, pathOnDisk: filePath })();
+
+  if (isLeft(maybeFile)) {
+    vortexApi.log(`warn`, `${me}: Couldn't read ${filePath}: ${maybeFile.left.message}`);
+    return ``;
+  }
+
+  return maybeFile.right.content;
+};
+
+export const collectREDmodDeployResult = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  run: REDmodDeployRun,
+  exitedSuccessfully: boolean,
+): Promise<REDmodDeployResult> => {
+  const { loID } = run;
+  const startedAt = Date.parse(run.startedAt);
+
+  const output =
+    await contentIfWrittenSince(vortexApi, path.join(gameDirPath, V2077_REDMOD_DEPLOY_OUTPUT_PATH), startedAt);
+  const log =
+    await contentIfWrittenSince(vortexApi, path.join(gameDirPath, REDMODDING_LOG_FILE_PATH), startedAt);
+
+  const errors = uniqueREDmodDeployErrors([
+    ...parseREDmodDeployOutput(output),
+    ...parseREDmodDeployOutput(log),
+  ]);
+
+  if (errors.length > 0) {
+    vortexApi.log(`warn`, `${me}: REDmod deployment ${loID} reported errors`, errors);
+  }
+
+  return {
+    ...run,
+    finishedAt: new Date().toISOString(),
+    succeeded: exitedSuccessfully && errors.length === 0,
+    errors,
+  };
+};
+
+
+//
+// Fingerprint
+//
+// Deploying takes a good while with script and tweak mods, so if nothing's
+// changed since the last successful run we don't need to do it again. The
+// RTTI metadata is included because it changes when the game is updated.
+//
+
+export interface FileSizeAndTime {
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+const hashOf = (lines: readonly string[]): string =>
+  createHash(`sha256`).update(lines.join(`\n`)).digest(`hex`);
+
+export const makeREDdeployFingerprint = (
+  modList: ModList,
+  filesInDeployment: readonly FileSizeAndTime[],
+): REDdeployFingerprint => ({
+  fingerprintFormatVersion: REDDEPLOY_FINGERPRINT_TYPE_VERSION,
+  modList: hashOf(modList),
+  content: hashOf(filesInDeployment
+    .map((file) => `${file.relativePath.toLowerCase()}|${file.size}|${file.mtimeMs}`)
+    .sort()),
+});
+
+// Anything we can't fingerprint has to be deployed, with force to be sure
+export const planREDdeploy = (
+  lastSuccessful: REDdeployFingerprint | undefined,
+  current: REDdeployFingerprint | undefined,
+): REDdeployPlan => {
+  if (lastSuccessful === undefined || current === undefined || lastSuccessful.modList !== current.modList) {
+    return { needed: true, force: true };
+  }
+
+  return lastSuccessful.content !== current.content
+    ? { needed: true, force: false }
+    : { needed: false, force: false };
+};
+
+const sizesAndTimesOfFilesUnder = async (
+  gameDirPath: string,
+  relativeDirPath: string,
+): Promise<FileSizeAndTime[]> => {
+  const entries: string[] = await fs.readdirAsync(path.join(gameDirPath, relativeDirPath));
+
+  const filesInEntries = await Promise.all(entries.map(async (entry): Promise<FileSizeAndTime[]> => {
+    const relativePath = path.join(relativeDirPath, entry);
+    const stats = await fs.statAsync(path.join(gameDirPath, relativePath));
+
+    return stats.isDirectory()
+      ? sizesAndTimesOfFilesUnder(gameDirPath, relativePath)
+      : [{ relativePath, size: stats.size, mtimeMs: stats.mtimeMs }];
+  }));
+
+  return filesInEntries.flat();
+};
+
+export const fingerprintREDdeployInputs = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  modList: ModList,
+): Promise<REDdeployFingerprint | undefined> => {
+  try {
+    const metadataStats = await fs.statAsync(path.join(gameDirPath, REDMODDING_RTTI_METADATA_FILE_PATH));
+
+    const filesInMods = await Promise.all(modList.map((modDir) =>
+      sizesAndTimesOfFilesUnder(gameDirPath, path.join(REDMOD_BASEDIR, modDir))));
+
+    return makeREDdeployFingerprint(modList, [
+      { relativePath: REDMODDING_RTTI_METADATA_FILE_PATH, size: metadataStats.size, mtimeMs: metadataStats.mtimeMs },
+      ...filesInMods.flat(),
+    ]);
+  } catch (error) {
+    vortexApi.log(`warn`, `${me}: Couldn't fingerprint the deployment, it'll have to run: ${error.message}`);
+    return undefined;
+  }
+};
+
+export const loadLastSuccessfulREDdeployFingerprint = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+): Promise<REDdeployFingerprint | undefined> => {
+  const fingerprintPath = path.join(gameDirPath, V2077_REDDEPLOY_FINGERPRINT_PATH);
+  const maybeFile = await fileFromDiskTE({ relativePath: fingerprintPath, pathOnDisk: fingerprintPath })();
+
+  const maybeFingerprint = isLeft(maybeFile)
+    ? maybeFile
+    : decodeREDdeployFingerprint(maybeFile.right.content);
+
+  if (isLeft(maybeFingerprint)) {
+    vortexApi.log(`debug`, `${me}: No usable fingerprint from an earlier deployment: ${maybeFingerprint.left.message}`);
+    return undefined;
+  }
+
+  return maybeFingerprint.right;
+};
+
+// Forgotten before every run, so that a failed one can't leave
+// us thinking the earlier successful deployment is still there
+export const forgetLastSuccessfulREDdeployFingerprint = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+): Promise<void> => {
+  try {
+    await fs.removeAsync(path.join(gameDirPath, V2077_REDDEPLOY_FINGERPRINT_PATH));
+  } catch (error) {
+    vortexApi.log(`debug`, `${me}: No fingerprint to forget: ${error.message}`);
+  }
+};
+
+export const saveSuccessfulREDdeployFingerprint = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  fingerprint: REDdeployFingerprint,
+): Promise<void> => {
+  const fingerprintPath = path.join(gameDirPath, V2077_REDDEPLOY_FINGERPRINT_PATH);
+
+  try {
+    await fs.writeFileAsync(fingerprintPath, jsonpp(fingerprint), { encoding: `utf8` });
+  } catch (error) {
+    vortexApi.log(`warn`, `${me}: Couldn't save the deployment fingerprint, the next one will run anyway: ${error.message}`);
+  }
+};
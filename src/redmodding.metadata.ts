@@ -7,9 +7,14 @@ export const REDMODDING_REQUIRED_DIR_FOR_MODS = `mods`;
 export const REDMODDING_REQUIRED_DIR_FOR_GENERATED_FILES = path.join(`r6\\cache\\modded`);
 
 export const REDMODDING_RTTI_METADATA_FILE_PATH = path.join(`tools\\redmod\\metadata.json`);
+export const REDMODDING_LOG_FILE_PATH = path.join(`tools\\redmod\\bin\\REDmodLog.txt`);
+export const REDMODDING_MODS_JSON_PATH = path.join(`r6\\cache\\modded\\mods.json`);
 
 export const V2077_LOAD_ORDER_DIR = path.join(`${V2077_DIR}\\Load Order`);
 export const V2077_MODLIST_PATH = path.join(`${V2077_DIR}\\modlist.txt`);
+export const V2077_REDDEPLOY_LOCK_PATH = path.join(`${V2077_DIR}\\reddeploy.lock`);
+export const V2077_REDDEPLOY_FINGERPRINT_PATH = path.join(`${V2077_DIR}\\reddeploy-fingerprint.json`);
+export const V2077_REDMOD_DEPLOY_OUTPUT_PATH = path.join(`${V2077_DIR}\\redmod-deploy-output.txt`);
 
 export const REDlauncherExeRelativePath = path.join(`REDprelauncher.exe`);
 export const REDdeployExeRelativePath = path.join(`tools\\redmod\\bin\\redMod.exe`);
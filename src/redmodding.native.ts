@@ -0,0 +1,112 @@
+import {
+  win32,
+} from "path";
+import {
+  fs,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+} from "./index.metadata";
+import {
+  REDMOD_ARCHIVES_DIRNAME,
+} from "./installers.layouts";
+import {
+  LoadOrderEntry,
+} from "./load_order.types";
+import {
+  REDMODDING_MODS_JSON_PATH,
+} from "./redmodding.metadata";
+import {
+  REDmodDeployCategory,
+  REDmodDeployResult,
+  REDmodDeployRun,
+  REDmodModsJson,
+} from "./redmodding.types";
+import {
+  jsonpp,
+} from "./util.functions";
+import {
+  VortexApi,
+} from "./vortex-wrapper";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} REDmod Native Deploy`;
+
+export const NATIVE_REDMOD_DEPLOY_COMMAND_LINE =
+  `<redMod not run, ${REDMODDING_MODS_JSON_PATH} written by ${EXTENSION_NAME_INTERNAL}>`;
+
+export interface REDmodToDeployNatively {
+  entry: LoadOrderEntry;
+  subtypes: string[];
+}
+
+
+//
+// Native deployment
+//
+// Anything other than archives has to be compiled or converted by redMod,
+// so we only do this when every REDmod in the load order is archives only.
+// That's also all that's needed on Linux or without the REDmod DLC, since
+// redMod can't be run there anyway. With no REDmods enabled at all, that
+// means writing an empty list so the game stops loading the previous ones.
+//
+
+const isArchiveOnly = (subtypes: readonly string[]): boolean =>
+  subtypes.length === 1 && subtypes[0] === REDMOD_ARCHIVES_DIRNAME;
+
+export const canDeployNatively = (redmods: readonly REDmodToDeployNatively[]): boolean =>
+  redmods.every((redmod) => isArchiveOnly(redmod.subtypes));
+
+export const makeREDmodModsJson = (enabledEntries: readonly LoadOrderEntry[]): REDmodModsJson => ({
+  mods: enabledEntries.map((entry) => ({
+    name: entry.redmodName,
+    folder: path.basename(entry.redmodPath),
+    enabled: true,
+    deployed: true,
+    deployedVersion: entry.redmodVersion,
+    customSounds: [],
+  })),
+});
+
+export const encodeREDmodModsJson = (modsJson: REDmodModsJson): string =>
+  jsonpp(modsJson);
+
+export const deployArchiveOnlyREDmodsNatively = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  run: REDmodDeployRun,
+  enabledEntries: readonly LoadOrderEntry[],
+): Promise<REDmodDeployResult> => {
+  const modsJsonPath = path.join(gameDirPath, REDMODDING_MODS_JSON_PATH);
+  const tempPath = `${modsJsonPath}.${run.loID}.tmp`;
+
+  vortexApi.log(`info`, `${me}: Writing ${modsJsonPath} for load order ${run.loID}`);
+
+  try {
+    await fs.ensureDirWritableAsync(path.dirname(modsJsonPath));
+    await fs.writeFileAsync(tempPath, encodeREDmodModsJson(makeREDmodModsJson(enabledEntries)), { encoding: `utf8` });
+    await fs.renameAsync(tempPath, modsJsonPath);
+  } catch (error) {
+    vortexApi.log(`error`, `${me}: Couldn't write ${modsJsonPath}: ${error.message}`);
+
+    return {
+      ...run,
+      finishedAt: new Date().toISOString(),
+      succeeded: false,
+      errors: [{ category: REDmodDeployCategory.Other, message: `Couldn't write ${modsJsonPath}: ${error.message}` }],
+    };
+  }
+
+  return {
+    ...run,
+    finishedAt: new Date().toISOString(),
+    succeeded: true,
+    errors: [],
+  };
+};
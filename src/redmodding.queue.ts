@@ -0,0 +1,284 @@
+import {
+  win32,
+} from "path";
+import {
+  execFile,
+} from "child_process";
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  fs,
+} from "@vortex-api-test-shimmed";
+import {
+  EXTENSION_NAME_INTERNAL,
+  VORTEX_STORE_PATHS,
+} from "./index.metadata";
+import {
+  fileFromDiskTE,
+} from "./installers.shared";
+import {
+  V2077_REDDEPLOY_LOCK_PATH,
+} from "./redmodding.metadata";
+import {
+  decodeREDdeployLock,
+  REDDEPLOY_LOCK_TYPE_VERSION,
+  REDdeployCancellation,
+  REDdeployJobSummary,
+  REDdeployLock,
+  REDdeployQueueState,
+} from "./redmodding.types";
+import {
+  jsonpp,
+} from "./util.functions";
+import {
+  VortexApi,
+  VortexState,
+  vortexUtil,
+} from "./vortex-wrapper";
+
+// Ensure we're using win32 conventions
+const path = win32;
+
+
+// Defs
+
+const me =
+  `${EXTENSION_NAME_INTERNAL} REDmod Deploy Queue`;
+
+export const REDDEPLOY_QUEUE_STATE_KEY = `REDdeployQueue`;
+
+export const REDdeployQueueStateFrom = (vortexState: VortexState): REDdeployQueueState =>
+  vortexUtil.getSafe(vortexState, [...VORTEX_STORE_PATHS.session, REDDEPLOY_QUEUE_STATE_KEY], {});
+
+
+//
+// Cancellation
+//
+
+export const makeREDdeployCancellation = (): REDdeployCancellation => {
+  let cancelled = false;
+  const handlers: (() => void)[] = [];
+
+  return {
+    isCancelled: (): boolean => cancelled,
+    onCancel: (handler: () => void): void => {
+      if (cancelled) {
+        handler();
+        return;
+      }
+      handlers.push(handler);
+    },
+    cancel: (): void => {
+      if (cancelled) {
+        return;
+      }
+      cancelled = true;
+      handlers.forEach((handler) => { handler(); });
+    },
+  };
+};
+
+// redMod.exe is run through the shell, so the whole tree has to go
+export const killProcessTree = (vortexApi: VortexApi, pid: number): void => {
+  execFile(`taskkill`, [`/PID`, `${pid}`, `/T`, `/F`], (error) => {
+    if (error) {
+      vortexApi.log(`warn`, `${me}: Couldn't stop process ${pid}: ${error.message}`);
+    }
+  });
+};
+
+
+//
+// Queue
+//
+// Requests resolve when the deployment that covers them is done, which
+// for a request that got replaced is the one that replaced it. Errors
+// are for the job to report, the queue just carries on.
+//
+
+interface PendingJob<Job> {
+  job: Job;
+  waiters: (() => void)[];
+}
+
+interface RunningJob<Job> {
+  job: Job;
+  cancellation: REDdeployCancellation;
+}
+
+export interface REDdeployQueue<Job> {
+  request: (job: Job) => Promise<void>;
+  cancelRunning: () => boolean;
+  state: () => REDdeployQueueState;
+}
+
+export const makeREDdeployQueue = <Job extends REDdeployJobSummary>(
+  runJob: (job: Job, cancellation: REDdeployCancellation) => Promise<void>,
+  onStateChange: (state: REDdeployQueueState, job: Job) => void,
+): REDdeployQueue<Job> => {
+  let running: RunningJob<Job> | undefined;
+  let pending: PendingJob<Job> | undefined;
+
+  const state = (): REDdeployQueueState => ({
+    ...(running !== undefined ? { running: { loID: running.job.loID } } : {}),
+    ...(pending !== undefined ? { pending: { loID: pending.job.loID } } : {}),
+  });
+
+  const runNext = (): void => {
+    if (running !== undefined || pending === undefined) {
+      return;
+    }
+
+    const { job, waiters } = pending;
+    const cancellation = makeREDdeployCancellation();
+
+    pending = undefined;
+    running = { job, cancellation };
+    onStateChange(state(), job);
+
+    runJob(job, cancellation)
+      .catch((): void => undefined)
+      .then((): void => {
+        running = undefined;
+        waiters.forEach((done) => { done(); });
+        onStateChange(state(), job);
+        runNext();
+      });
+  };
+
+  return {
+    request: (job: Job): Promise<void> =>
+      new Promise((resolve) => {
+        pending = { job, waiters: [...(pending?.waiters ?? []), resolve] };
+        onStateChange(state(), job);
+        runNext();
+      }),
+    cancelRunning: (): boolean => {
+      if (running === undefined) {
+        return false;
+      }
+      running.cancellation.cancel();
+      return true;
+    },
+    state,
+  };
+};
+
+
+//
+// Lock file
+//
+// The queue keeps us from running two deployments, the lock keeps anyone
+// else using the same game dir from doing it at the same time. A lock is
+// stale when the process that took it is gone, or if it's our own since
+// we only take it when we're not already deploying. It's also stale when
+// it's older than any deployment takes, in case the pid has been reused.
+//
+// A lock we can't read is probably still being written, but only for a
+// moment. If it stays that way, whoever wrote it crashed doing so.
+//
+
+export const REDDEPLOY_LOCK_MAX_AGE_MS = 60 * 60 * 1000;
+export const REDDEPLOY_UNREADABLE_LOCK_MAX_AGE_MS = 5 * 1000;
+
+export const makeREDdeployLock = (pid: number, loID: number, lockedAt: number): REDdeployLock => ({
+  lockFormatVersion: REDDEPLOY_LOCK_TYPE_VERSION,
+  pid,
+  loID,
+  lockedAt: new Date(lockedAt).toISOString(),
+});
+
+const isOlderThan = (maxAgeMs: number, since: number, now: number): boolean =>
+  Number.isNaN(since) || now - since > maxAgeMs;
+
+export const isREDdeployLockStale = (
+  lock: REDdeployLock,
+  ownPid: number,
+  isProcessAlive: (pid: number) => boolean,
+  now: number,
+): boolean =>
+  lock.pid === ownPid
+  || !isProcessAlive(lock.pid)
+  || isOlderThan(REDDEPLOY_LOCK_MAX_AGE_MS, Date.parse(lock.lockedAt), now);
+
+export const isUnreadableREDdeployLockStale = (modifiedAt: number, now: number): boolean =>
+  isOlderThan(REDDEPLOY_UNREADABLE_LOCK_MAX_AGE_MS, modifiedAt, now);
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it's there, we just can't touch it
+    return error.code === `EPERM`;
+  }
+};
+
+const readLock = async (lockPath: string): Promise<REDdeployLock | undefined> => {
+  const maybeFile = await fileFromDiskTE({ relativePath: lockPath, pathOnDisk: lockPath })();
+
+  const maybeLock = isLeft(maybeFile)
+    ? maybeFile
+    : decodeREDdeployLock(maybeFile.right.content);
+
+  return isLeft(maybeLock) ? undefined : maybeLock.right;
+};
+
+// Gone by now counts as stale, there's nothing left to wait for
+const lockModifiedAt = async (lockPath: string): Promise<number> =>
+  fs.statAsync(lockPath).then((stats) => stats.mtimeMs, () => Number.NaN);
+
+const writeLockIfNoneExists = async (lockPath: string, lock: REDdeployLock): Promise<boolean> => {
+  try {
+    await fs.writeFileAsync(lockPath, jsonpp(lock), { encoding: `utf8`, flag: `wx` });
+    return true;
+  } catch (error) {
+    if (error.code === `EEXIST`) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Resolves to whether we got the lock
+export const acquireREDdeployLock = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+  loID: number,
+): Promise<boolean> => {
+  const lockPath = path.join(gameDirPath, V2077_REDDEPLOY_LOCK_PATH);
+  const lock = makeREDdeployLock(process.pid, loID, Date.now());
+
+  if (await writeLockIfNoneExists(lockPath, lock)) {
+    return true;
+  }
+
+  const existingLock = await readLock(lockPath);
+  const now = Date.now();
+
+  const stale = existingLock !== undefined
+    ? isREDdeployLockStale(existingLock, process.pid, isProcessAlive, now)
+    : isUnreadableREDdeployLockStale(await lockModifiedAt(lockPath), now);
+
+  if (!stale) {
+    vortexApi.log(`warn`, `${me}: Someone else is deploying REDmods in this game dir`, existingLock);
+    return false;
+  }
+
+  vortexApi.log(`info`, `${me}: Taking over stale lock`, existingLock ?? `(unreadable)`);
+  await fs.removeAsync(lockPath);
+
+  return writeLockIfNoneExists(lockPath, lock);
+};
+
+export const releaseREDdeployLock = async (
+  vortexApi: VortexApi,
+  gameDirPath: string,
+): Promise<void> => {
+  try {
+    await fs.removeAsync(path.join(gameDirPath, V2077_REDDEPLOY_LOCK_PATH));
+  } catch (error) {
+    vortexApi.log(`warn`, `${me}: Couldn't remove the lock file, the next deployment will take it over: ${error.message}`);
+  }
+};
@@ -1,5 +1,9 @@
 
+import * as t from "io-ts";
 import { FeatureSet } from "./features";
+import {
+  decodeWith,
+} from "./installers.types";
 import {
   IREDmodProps,
   VortexActionConditionResult,
@@ -55,3 +59,127 @@ export interface V2077SettingsView {
   condition: V2077ActionConditionFunc;
   // test: V2077CheckFunc;
 }
+
+//
+// REDmod deployment results
+//
+// redMod.exe only tells us whether it succeeded by its exit code, so we
+// also look at what it prints and logs to find out which mods failed.
+//
+
+export const enum REDmodDeployCategory {
+  Scripts = `scripts`,
+  Tweaks = `tweaks`,
+  Sounds = `sounds`,
+  Other = `other`,
+}
+
+export interface REDmodDeployError {
+  // Not every error can be traced back to a mod
+  modName?: string;
+  category: REDmodDeployCategory;
+  message: string;
+}
+
+// What was asked of redMod, so that it can be shown to the user afterwards
+export interface REDmodDeployRun {
+  loID: number;
+  startedAt: string;
+  modList: string[];
+  commandLine: string;
+}
+
+export interface REDmodDeployResult extends REDmodDeployRun {
+  finishedAt: string;
+  succeeded: boolean;
+  errors: REDmodDeployError[];
+}
+
+//
+// REDmod deployment fingerprint
+//
+// What went into the last successful deployment: the modlist, and the size
+// and modification time of everything in the deployed REDmods. The modlist
+// is kept separately because changing the order is what redMod itself won't
+// notice without `-force`, while changed files it picks up on its own.
+//
+
+export const REDDEPLOY_FINGERPRINT_TYPE_VERSION = `1.0.0`;
+
+export const REDdeployFingerprintType =
+  t.type(
+    {
+      fingerprintFormatVersion: t.literal(REDDEPLOY_FINGERPRINT_TYPE_VERSION),
+      modList: t.string,
+      content: t.string,
+    },
+    `REDdeployFingerprintType`,
+  );
+export type REDdeployFingerprint = t.TypeOf<typeof REDdeployFingerprintType>;
+
+export const decodeREDdeployFingerprint = decodeWith(REDdeployFingerprintType.decode);
+
+export interface REDdeployPlan {
+  needed: boolean;
+  force: boolean;
+}
+
+//
+// REDmod deployment queue
+//
+// Only one deployment runs at a time. Anything requested meanwhile waits,
+// and if there's already something waiting it's replaced by the newer one
+// since that's the one that should end up deployed.
+//
+
+export interface REDdeployJobSummary {
+  loID: number;
+}
+
+export interface REDdeployQueueState {
+  running?: REDdeployJobSummary;
+  pending?: REDdeployJobSummary;
+}
+
+export interface REDdeployCancellation {
+  isCancelled: () => boolean;
+  onCancel: (handler: () => void) => void;
+  cancel: () => void;
+}
+
+export const REDDEPLOY_LOCK_TYPE_VERSION = `1.0.0`;
+
+export const REDdeployLockType =
+  t.type(
+    {
+      lockFormatVersion: t.literal(REDDEPLOY_LOCK_TYPE_VERSION),
+      pid: t.number,
+      loID: t.number,
+      lockedAt: t.string,
+    },
+    `REDdeployLockType`,
+  );
+export type REDdeployLock = t.TypeOf<typeof REDdeployLockType>;
+
+export const decodeREDdeployLock = decodeWith(REDdeployLockType.decode);
+
+//
+// Native deployment
+//
+// redMod writes the REDmods it deployed to `mods.json`, in load order, and
+// that's what the game goes by. For archives there's nothing else to it, so
+// we can write it ourselves when redMod can't be run.
+//
+
+export interface REDmodModsJsonEntry {
+  name: string;
+  folder: string;
+  enabled: boolean;
+  deployed: boolean;
+  deployedVersion: string;
+  customSounds: unknown[];
+}
+
+export interface REDmodModsJson {
+  mods: REDmodModsJsonEntry[];
+}
@@ -5,6 +5,16 @@ import {
   DynamicFeatureDefaults,
   storeSetDynamicFeature,
 } from "./features";
+import {
+  LAST_REDMOD_DEPLOY_RESULT_KEY,
+} from "./redmodding.deploy";
+import {
+  REDDEPLOY_QUEUE_STATE_KEY,
+} from "./redmodding.queue";
+import {
+  REDdeployQueueState,
+  REDmodDeployResult,
+} from "./redmodding.types";
 import { VortexReducerSpec } from "./vortex-wrapper";
 
 
@@ -12,6 +22,30 @@ export const makeSettingsReducer = (settingsDefaultsUnnested: DynamicFeatureDefa
   reducers: {
     [actions.setREDmodAutoconvertArchivesAction.toString()]: (stateSliceForJustOurStuff, payload: boolean) =>
       storeSetDynamicFeature(vortexUtil, DynamicFeature.REDmodAutoconvertArchives, stateSliceForJustOurStuff, payload),
+    [actions.setDetectAmbiguousInstallersAction.toString()]: (stateSliceForJustOurStuff, payload: boolean) =>
+      storeSetDynamicFeature(vortexUtil, DynamicFeature.DetectAmbiguousInstallers, stateSliceForJustOurStuff, payload),
+    [actions.setVariantSelectionAction.toString()]: (stateSliceForJustOurStuff, payload: boolean) =>
+      storeSetDynamicFeature(vortexUtil, DynamicFeature.VariantSelection, stateSliceForJustOurStuff, payload),
+    [actions.setGroupREDmodsByVortexModAction.toString()]: (stateSliceForJustOurStuff, payload: boolean) =>
+      storeSetDynamicFeature(vortexUtil, DynamicFeature.GroupREDmodsByVortexMod, stateSliceForJustOurStuff, payload),
   },
   defaults: settingsDefaultsUnnested,
 });
+
+// Only for this session, nothing's running or waiting after a restart
+export const makeSessionReducer = (): VortexReducerSpec => ({
+  reducers: {
+    [actions.setREDdeployQueueStateAction.toString()]: (stateSliceForJustOurStuff, payload: REDdeployQueueState) =>
+      vortexUtil.setSafe(stateSliceForJustOurStuff, [REDDEPLOY_QUEUE_STATE_KEY], payload),
+  },
+  defaults: {},
+});
+
+// Kept over restarts, so you can still see why the last deployment failed
+export const makePersistentReducer = (): VortexReducerSpec => ({
+  reducers: {
+    [actions.setLastREDmodDeployResultAction.toString()]: (stateSliceForJustOurStuff, payload: REDmodDeployResult) =>
+      vortexUtil.setSafe(stateSliceForJustOurStuff, [LAST_REDMOD_DEPLOY_RESULT_KEY], payload),
+  },
+  defaults: {},
+});
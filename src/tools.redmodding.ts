@@ -1,6 +1,3 @@
-import {
-  getOrElse as getOrElseO,
-} from "fp-ts/lib/Option";
 import {
   pipe,
 } from "fp-ts/lib/function";
@@ -17,15 +14,8 @@ import {
   GAME_EXE_RELATIVE_PATH,
 } from "./index.metadata";
 import {
-  makeV2077LoadOrderFrom,
-  startREDmodDeployInTheBackgroundWithNotifications,
+  deployLatestLoadOrderOnRequest,
 } from "./load_order";
-import {
-  loadOrderFromVortexState,
-} from "./load_order.functions";
-import {
-  LoadOrder,
-} from "./load_order.types";
 import {
   REDlauncherExeRelativePath,
   REDdeployExeRelativePath,
@@ -42,7 +32,6 @@ import {
 import {
   VortexApi,
   VortexExtensionContext,
-  VortexLoadOrder,
   VortexRunParameters,
   VortexToolShim,
 } from "./vortex-wrapper";
@@ -158,26 +147,8 @@ export const makeREDdeployManualHookToGetLoadOrder: MakeToolStartHookWithStateFu
           return Promise.reject(new vortexApiLib.util.ProcessCanceled(errorMessage));
         }
 
-        // TODO: Generate load order if none found?
-        //       https://github.com/E1337Kat/cyberpunk2077_ext_redux/issues/285
-        const latestLoadOrderInVortexFormat: VortexLoadOrder = pipe(
-          loadOrderFromVortexState(vortexApi.store.getState(), activeProfile),
-          getOrElseO(constant([])),
-        );
-
-        const timestampAsLoadOrderId = Date.now();
-
-        const latestLoadOrder: LoadOrder =
-          makeV2077LoadOrderFrom(latestLoadOrderInVortexFormat, activeProfile.id, timestampAsLoadOrderId);
-
         try {
-          await startREDmodDeployInTheBackgroundWithNotifications(
-            vortexApi,
-            gameDir,
-            timestampAsLoadOrderId,
-            latestLoadOrder,
-            latestLoadOrderInVortexFormat,
-          );
+          await deployLatestLoadOrderOnRequest(vortexApi, gameDir, activeProfile);
 
           vortexApi.log(`info`, `${me}: REDdeploy through tool completed`);
           return DummyCmdExeCallForToolToCallAfterRealWorkDone;
@@ -15,12 +15,18 @@ import {
   InstallDecision,
   InstallerType,
 } from "./installers.types";
+import {
+  LoadOrderEntry,
+  MasterlistSortChange,
+  PortableLoadOrderEntry,
+} from "./load_order.types";
 import {
   heredoc,
 } from "./util.functions";
 import {
   VortexApi,
   VortexDialogResult,
+  VortexProfile,
 } from "./vortex-wrapper";
 
 export const enum InstallChoices {
@@ -232,6 +238,168 @@ export const promptUserOnUnresolvableLayout = async (
   );
 };
 
+export const promptUserToChooseBetweenAmbiguousInstallers = async (
+  api: VortexApi,
+  competingInstallers: readonly { id: string, type: InstallerType }[],
+  files: string[],
+): Promise<string | undefined> => {
+  api.log(`info`, `More than one installer can install this mod, asking user to choose`, {
+    competingInstallers: competingInstallers.map((installer) => installer.id),
+  });
+
+  const competingLayoutDescriptions = competingInstallers.map((installer) => `
+    **${installer.id}**
+
+    ${LayoutDescriptions.get(installer.type) ?? `(No layout description available)`}
+    `).join(`\n`);
+
+  const explanationForUser = `
+    More than one installer thinks it can install this mod. Normally I'd just
+    use the first one, but you've asked me to check. This can mean the mod is
+    packaged in an unusual way, or it might just be a mod that legitimately
+    fits more than one type.
+
+    The installers are listed in the order I'd normally try them in. Pick the
+    one whose layout matches what the mod is meant to be.
+
+    ${competingLayoutDescriptions}
+
+    ${INSTRUCTIONS_TO_REPORT_ISSUE}
+
+    These are the files in the mod:
+
+    \`\`\`
+    ${files.join(`\n`)}
+    \`\`\``;
+
+  const dialogResponse: VortexDialogResult = await api.showDialog(
+    `question`,
+    `Multiple Installers Match This Mod`,
+    {
+      md: heredoc(explanationForUser),
+    },
+    [
+      { label: InstallChoices.Cancel },
+      ...competingInstallers.map((installer) => ({ label: installer.id })),
+    ],
+  );
+
+  return competingInstallers.some((installer) => installer.id === dialogResponse.action)
+    ? dialogResponse.action
+    : undefined;
+};
+
+export const enum VariantChoices {
+  Install = `Install Selected Variants`,
+}
+
+export const promptUserToChooseVariants = async (
+  api: VortexApi,
+  installerType: InstallerType,
+  variants: string[],
+): Promise<string[]> => {
+  api.log(`info`, `Mod has variants for ${installerType}, asking user to choose`, variants);
+
+  const explanationForUser = `
+    This mod comes with several variants, each of which looks like a complete
+    ${installerType} mod on its own. Usually you only want one of them (they
+    may conflict with each other), so pick the one(s) you want to install.
+
+    Check the mod page or any included readme if you're not sure which one to pick!
+
+    If you want to change your choice later, you can reinstall the mod. I'll
+    remember what you picked this time, so to choose again, install the mod
+    as a new copy (or remove it first.)
+    `;
+
+  const dialogResponse: VortexDialogResult = await api.showDialog(
+    `question`,
+    `Choose Which Variant(s) To Install`,
+    {
+      md: heredoc(explanationForUser),
+      checkboxes: variants.map((variant, index) => ({ id: variant, text: variant, value: index === 0 })),
+    },
+    [{ label: InstallChoices.Cancel }, { label: VariantChoices.Install }],
+  );
+
+  if (dialogResponse.action !== VariantChoices.Install) {
+    return [];
+  }
+
+  return variants.filter((variant) => dialogResponse.input[variant] === true);
+};
+
+export const showOverlappingVariantsErrorDialog = (
+  api: VortexApi,
+  message: string,
+  selectedVariants: string[],
+  overlappingPaths: string[],
+): void => {
+  api.showDialog(
+    `error`,
+    message,
+    {
+      md: heredoc(`
+        Installation cancelled!
+
+        Some of the variants you picked contain the same files, so installing them
+        together would mean one of them silently overwrites the other. They're most
+        likely alternatives to each other. Reinstall the mod and pick only one of
+        these, or check the mod page or readme to see which ones go together:
+
+        \`\`\`
+        ${selectedVariants.join(`\n`)}
+        \`\`\`
+
+        These are the files that are in more than one of them:
+
+        \`\`\`
+        ${overlappingPaths.join(`\n`)}
+        \`\`\`
+      `),
+    },
+    [{ label: `Understood!` }],
+  );
+};
+
+export const promptUserToChooseGameVersionDir = async (
+  api: VortexApi,
+  gameVersion: string,
+  versionDirNames: string[],
+): Promise<string | undefined> => {
+  api.log(`info`, `No game version dir matches ${gameVersion}, asking user to choose`, versionDirNames);
+
+  const explanationForUser = `
+    This mod comes in separate versions for different versions of the game, but
+    I couldn't match any of them to the game version you have (${gameVersion}).
+
+    Installing more than one of them will most likely break things, so pick the
+    one that's meant for your game. Check the mod page or any included readme
+    if you're not sure!
+
+    These are the versions in the mod:
+
+    \`\`\`
+    ${versionDirNames.join(`\n`)}
+    \`\`\``;
+
+  const dialogResponse: VortexDialogResult = await api.showDialog(
+    `question`,
+    `Choose Which Game Version To Install For`,
+    {
+      md: heredoc(explanationForUser),
+    },
+    [
+      { label: InstallChoices.Cancel },
+      ...versionDirNames.map((versionDirName) => ({ label: versionDirName })),
+    ],
+  );
+
+  return versionDirNames.includes(dialogResponse.action)
+    ? dialogResponse.action
+    : undefined;
+};
+
 export const promptUserToInstallOrCancelOnDeprecatedCoreMod = async (
   api: VortexApi,
   coreModType: InstallerType,
@@ -521,3 +689,136 @@ export const showInvalidLoadOrderFileErrorDialog = (
     },
     [{ label: `Understood!` }],
   );
+
+export const showLoadOrderImportReportDialog = (
+  api: VortexApi,
+  importedFilePath: string,
+  missing: readonly PortableLoadOrderEntry[],
+  differentVersion: readonly PortableLoadOrderEntry[],
+): void => {
+  const describe = (entry: PortableLoadOrderEntry): string =>
+    `${entry.redmodName} ${entry.fileVersion}` + (entry.nexusModId ? ` (Nexus mod ${entry.nexusModId})` : ``);
+
+  const missingExplanation = missing.length > 0
+    ? heredoc(`
+      These REDmods are in the imported load order but you don't have them installed,
+      so they were skipped:
+
+      ${missing.map(describe).join(`\n`)}
+    `)
+    : `You have every REDmod in the imported load order installed, nice!`;
+
+  const differentVersionExplanation = differentVersion.length > 0
+    ? heredoc(`
+      These REDmods were ordered, but the version you have installed is different from
+      the one in the imported load order. That's usually fine, but if something breaks,
+      these are the first ones to check:
+
+      ${differentVersion.map(describe).join(`\n`)}
+    `)
+    : ``;
+
+  api.showDialog(
+    missing.length > 0 ? `info` : `success`,
+    `Load Order Imported`,
+    {
+      text: heredoc(`
+        The load order in ${importedFilePath} has been applied to the current profile.
+        Anything you have installed that wasn't in the imported order comes after it.
+      `) + `\n\n` + missingExplanation + (differentVersionExplanation ? `\n\n` + differentVersionExplanation : ``),
+    },
+    [{ label: `Understood!` }],
+  );
+};
+
+export const enum MasterlistSortChoices {
+  Apply = `Apply Sorted Order`,
+  Cancel = `Keep Current Order`,
+}
+
+export const promptUserToApplyMasterlistSort = async (
+  api: VortexApi,
+  changes: readonly MasterlistSortChange[],
+): Promise<boolean> => {
+  const describe = (change: MasterlistSortChange): string =>
+    `${change.redmodName}: ${change.from + 1} → ${change.to + 1}`;
+
+  const dialogResponse: VortexDialogResult = await api.showDialog(
+    `question`,
+    `Sort Load Order Using Masterlist?`,
+    {
+      text: heredoc(`
+        Sorting using the masterlist would move these REDmods (positions count
+        from the top of the load order, and earlier ones win):
+
+        ${changes.map(describe).join(`\n`)}
+
+        Pinned REDmods stay pinned and your own load after rules are still followed.
+        Nothing is changed unless you apply the sorted order.
+      `),
+    },
+    [{ label: MasterlistSortChoices.Cancel }, { label: MasterlistSortChoices.Apply }],
+  );
+
+  return dialogResponse.action === MasterlistSortChoices.Apply;
+};
+
+export const enum LoadOrderCopyChoices {
+  Cancel = `Cancel`,
+  Copy = `Copy Load Order`,
+}
+
+export const promptUserToChooseProfileToCopyLoadOrderFrom = async (
+  api: VortexApi,
+  profiles: readonly VortexProfile[],
+): Promise<VortexProfile | undefined> => {
+  // Profile names don't have to be unique, so the choice is made by id
+  const dialogResponse: VortexDialogResult = await api.showDialog(
+    `question`,
+    `Copy Load Order From Another Profile`,
+    {
+      text: heredoc(`
+        Pick the profile whose load order you want to use in the current profile. Anything
+        you have in this profile that isn't in theirs keeps its order after everything that is.
+      `),
+      choices: profiles.map((profile, index) => ({ id: profile.id, text: profile.name, value: index === 0 })),
+    },
+    [
+      { label: LoadOrderCopyChoices.Cancel },
+      { label: LoadOrderCopyChoices.Copy },
+    ],
+  );
+
+  if (dialogResponse.action !== LoadOrderCopyChoices.Copy) {
+    return undefined;
+  }
+
+  return profiles.find((profile) => dialogResponse.input[profile.id] === true);
+};
+
+export const showLoadOrderCopyReportDialog = (
+  api: VortexApi,
+  fromProfileName: string,
+  missing: readonly LoadOrderEntry[],
+): void => {
+  const missingExplanation = missing.length > 0
+    ? heredoc(`
+      These REDmods are in the load order of ${fromProfileName} but couldn't be matched
+      to anything in this profile, so they were skipped:
+
+      ${missing.map((entry) => `${entry.redmodName} ${entry.redmodVersion} (${entry.redmodPath})`).join(`\n`)}
+    `)
+    : `Every REDmod in it was found in this profile, nice!`;
+
+  api.showDialog(
+    missing.length > 0 ? `info` : `success`,
+    `Load Order Copied`,
+    {
+      text: heredoc(`
+        The load order of ${fromProfileName} has been applied to the current profile, with its
+        pins, notes, load after rules and unticked REDmods. Anything that wasn't in it comes after.
+      `) + `\n\n` + missingExplanation,
+    },
+    [{ label: `Understood!` }],
+  );
+};
@@ -4,6 +4,7 @@ import {
 import {
   VortexApi,
   VortexNotification,
+  VortexNotificationAction,
 } from "./vortex-wrapper";
 
 export type Notification = Required<Pick<VortexNotification, `id` | `type` | `title` | `message`>>;
@@ -29,6 +30,20 @@ export const enum InfoNotification {
   REDmodDeploymentSucceeded = `V2077-notify-success-redmod-deployment-succeeded`,
   REDmodDeploymentFailed = `V2077-notify-error-redmod-deployment-failed`,
   REDmodDeploymentDefaulted = `V2077-notify-warn-redmod-deployment-default`,
+  REDmodDeploymentNotNeeded = `V2077-notify-info-redmod-deployment-not-needed`,
+  REDmodDeploymentLocked = `V2077-notify-warn-redmod-deployment-locked`,
+  REDmodDeploymentCancelled = `V2077-notify-info-redmod-deployment-cancelled`,
+  ArchiveLoadOrderApplied = `V2077-notify-success-archive-loadorder-applied`,
+  ArchiveLoadOrderApplyFailed = `V2077-notify-error-archive-loadorder-apply-failed`,
+  LoadOrderExported = `V2077-notify-success-loadorder-exported`,
+  LoadOrderExportFailed = `V2077-notify-error-loadorder-export-failed`,
+  LoadOrderImportFailed = `V2077-notify-error-loadorder-import-failed`,
+  MasterlistLoadFailed = `V2077-notify-error-masterlist-load-failed`,
+  MasterlistSortedAlready = `V2077-notify-info-masterlist-sorted-already`,
+  LoadOrderSnapshotRestored = `V2077-notify-success-loadorder-snapshot-restored`,
+  LoadOrderCopyNoOtherProfiles = `V2077-notify-info-loadorder-copy-no-other-profiles`,
+  LoadOrderCopyFailed = `V2077-notify-error-loadorder-copy-failed`,
+  LoadOrderGroupMemberMoved = `V2077-notify-info-loadorder-group-member-moved`,
 }
 
 //
@@ -117,6 +132,33 @@ const InfoNotificationsUnsafeMap = new Map<InfoNotification, Notification>([
       message: `Oh no! Something went wrong with the REDmod deployment. Check the log for details!`,
     },
   ],
+  [
+    InfoNotification.REDmodDeploymentNotNeeded,
+    {
+      id: InfoNotification.REDmodDeploymentNotNeeded,
+      type: `info`,
+      title: `Nothing To Deploy`,
+      message: `Nothing has changed since the last successful REDmod deployment, so you're still good to go!`,
+    },
+  ],
+  [
+    InfoNotification.REDmodDeploymentLocked,
+    {
+      id: InfoNotification.REDmodDeploymentLocked,
+      type: `warning`,
+      title: `REDmod Deployment Already Running!`,
+      message: `Something else is deploying REDmods for this game right now, so this deployment was skipped. Try again once it's done!`,
+    },
+  ],
+  [
+    InfoNotification.REDmodDeploymentCancelled,
+    {
+      id: InfoNotification.REDmodDeploymentCancelled,
+      type: `info`,
+      title: `REDmod Deployment Cancelled`,
+      message: `The REDmod deployment was stopped. Your mods will be deployed again on the next deployment.`,
+    },
+  ],
   [
     InfoNotification.REDmodDeploymentDefaulted,
     {
@@ -126,6 +168,105 @@ const InfoNotificationsUnsafeMap = new Map<InfoNotification, Notification>([
       message: `There was no load order defined, running the default (everything in \`mods/\`)!`,
     },
   ],
+  [
+    InfoNotification.ArchiveLoadOrderApplied,
+    {
+      id: InfoNotification.ArchiveLoadOrderApplied,
+      type: `success`,
+      title: `Archive Load Order Applied!`,
+      message: `Your archive mods have been renamed and deployed in the order you chose.`,
+    },
+  ],
+  [
+    InfoNotification.ArchiveLoadOrderApplyFailed,
+    {
+      id: InfoNotification.ArchiveLoadOrderApplyFailed,
+      type: `error`,
+      title: `Applying Archive Load Order Failed!`,
+      message: `Couldn't rename or deploy your archive mods. Check the log for details!`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderExported,
+    {
+      id: InfoNotification.LoadOrderExported,
+      type: `success`,
+      title: `Load Order Exported!`,
+      message: `Anyone with the same mods can now import your load order.`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderExportFailed,
+    {
+      id: InfoNotification.LoadOrderExportFailed,
+      type: `error`,
+      title: `Exporting Load Order Failed!`,
+      message: `Couldn't export the load order. Check the log for details!`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderImportFailed,
+    {
+      id: InfoNotification.LoadOrderImportFailed,
+      type: `error`,
+      title: `Importing Load Order Failed!`,
+      message: `Couldn't read the load order file, make sure it's one exported from Vortex. Check the log for details!`,
+    },
+  ],
+  [
+    InfoNotification.MasterlistLoadFailed,
+    {
+      id: InfoNotification.MasterlistLoadFailed,
+      type: `error`,
+      title: `Sorting Using Masterlist Failed!`,
+      message: `Couldn't read the masterlist, make sure it exists and is valid. Check the log for details!`,
+    },
+  ],
+  [
+    InfoNotification.MasterlistSortedAlready,
+    {
+      id: InfoNotification.MasterlistSortedAlready,
+      type: `info`,
+      title: `Load Order Already Sorted`,
+      message: `The load order already matches the masterlist, nothing to change.`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderSnapshotRestored,
+    {
+      id: InfoNotification.LoadOrderSnapshotRestored,
+      type: `success`,
+      title: `Load Order Restored!`,
+      message: `The restored load order will be deployed on the next deployment.`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderCopyNoOtherProfiles,
+    {
+      id: InfoNotification.LoadOrderCopyNoOtherProfiles,
+      type: `info`,
+      title: `No Other Profiles`,
+      message: `There are no other Cyberpunk 2077 profiles to copy a load order from.`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderCopyFailed,
+    {
+      id: InfoNotification.LoadOrderCopyFailed,
+      type: `error`,
+      title: `Copying Load Order Failed!`,
+      message: `Couldn't read the other profile's load order, it may not have one saved yet. Check the log for details!`,
+    },
+  ],
+  [
+    InfoNotification.LoadOrderGroupMemberMoved,
+    {
+      id: InfoNotification.LoadOrderGroupMemberMoved,
+      type: `info`,
+      title: `REDmod Moved Back To Its Mod`,
+      message: `The REDmods of a mod move together while they're grouped. Drag the first one to move them all, or Expand the mod to order them one by one.`,
+    },
+  ],
 ]);
 
 const getInfoNotificationOrThrow = (
@@ -163,3 +304,14 @@ export const showInfoNotification = async (
 
   return NotificationStatus.Complete;
 };
+
+export const showInfoNotificationWithActions = async (
+  api: VortexApi,
+  id: InfoNotification,
+  actions: VortexNotificationAction[],
+  overrideMessage?: string,
+): Promise<NotificationStatus> => {
+  api.sendNotification({ ...getInfoNotificationOrThrow(api, id, overrideMessage), actions });
+
+  return NotificationStatus.Complete;
+};
@@ -0,0 +1,124 @@
+import I18next from 'i18next';                   // eslint-disable-line import/no-extraneous-dependencies
+import * as React from 'react';                  // eslint-disable-line import/no-extraneous-dependencies
+import { Button } from 'react-bootstrap';        // eslint-disable-line import/no-extraneous-dependencies
+import { withTranslation } from 'react-i18next'; // eslint-disable-line import/no-extraneous-dependencies
+import {
+  DraggableList,
+  MainPage,
+} from 'vortex-api';
+import {
+  DISABLED_MOD_DISPLAY_MARKER,
+  ENABLED_MOD_DISPLAY_MARKER,
+} from '../load_order';
+import {
+  applyArchiveLoadOrder,
+  compileArchiveLoadOrder,
+} from '../load_order.archives';
+import {
+  OrderableArchive,
+} from '../load_order.types';
+import {
+  squashAllWhitespace,
+} from '../util.functions';
+import {
+  VortexApi,
+} from '../vortex-wrapper';
+
+interface IBaseProps {
+  t: typeof I18next.t;
+  api: VortexApi;
+}
+
+const idFor = (archive: OrderableArchive): string =>
+  `${archive.vortexId}/${archive.archiveName}`;
+
+const withoutArchive = (archives: OrderableArchive[], archive: OrderableArchive): OrderableArchive[] =>
+  archives.filter((other) => idFor(other) !== idFor(archive));
+
+const ArchiveLoadOrder = (props: IBaseProps): JSX.Element => {
+  const { t, api } = props;
+
+  const [ordered, setOrdered] = React.useState<OrderableArchive[]>([]);
+  const [unordered, setUnordered] = React.useState<OrderableArchive[]>([]);
+  const [busy, setBusy] = React.useState(false);
+
+  const refresh = (): Promise<void> =>
+    compileArchiveLoadOrder(api)
+      .then((detes) => {
+        setOrdered(detes.ordered);
+        setUnordered(detes.unordered);
+      })
+      .catch((error) => {
+        api.log(`error`, `Couldn't compile archive load order: ${error.message}`);
+      });
+
+  React.useEffect((): void => { refresh(); }, []);
+
+  const apply = (archivesInOrder: OrderableArchive[]): void => {
+    setBusy(true);
+    applyArchiveLoadOrder(api, archivesInOrder)
+      .then(refresh)
+      .catch((): void => undefined) // Already logged and notified
+      .finally((): void => { setBusy(false); });
+  };
+
+  const addToOrder = (archive: OrderableArchive): void => {
+    setOrdered([...ordered, archive]);
+    setUnordered(withoutArchive(unordered, archive));
+  };
+
+  const removeFromOrder = (archive: OrderableArchive): void => {
+    setOrdered(withoutArchive(ordered, archive));
+    setUnordered([...unordered, archive]);
+  };
+
+  const describe = (archive: OrderableArchive): string =>
+    `${archive.enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER} ${archive.archiveName} (from ${archive.modName})`;
+
+  const OrderedItem = ({ item }: { item: OrderableArchive }): JSX.Element => (
+    <div className='v2077-archive-load-order-item'>
+      {describe(item)}
+      <Button onClick={(): void => { removeFromOrder(item); }}>{t(`Remove`)}</Button>
+    </div>
+  );
+
+  return (
+    <MainPage>
+      <MainPage.Body>
+        <p>
+          {t(squashAllWhitespace(`
+            Drag the archive mods you want to order here. Archives higher up the list win any
+            conflicts. Applying the order renames the archives with a sort prefix (like 0010_)
+            and deploys them. Anything you remove from the order gets its original name back.
+            The renaming happens in the staging folder, so it applies to every profile until
+            you apply another order.
+          `))}
+        </p>
+        <DraggableList
+          id='v2077-archive-load-order'
+          itemTypeId='v2077-archive-load-order-item'
+          items={ordered}
+          idFunc={idFor}
+          itemRenderer={OrderedItem}
+          apply={setOrdered}
+          disabled={busy}
+        />
+        <h4>{t(`Not ordered`)}</h4>
+        {unordered.map((archive) => (
+          <div key={idFor(archive)} className='v2077-archive-load-order-item'>
+            {describe(archive)}
+            <Button onClick={(): void => { addToOrder(archive); }}>{t(`Add`)}</Button>
+          </div>
+        ))}
+        <Button disabled={busy} onClick={(): void => { apply(ordered); }}>{t(`Apply Order`)}</Button>
+        <Button disabled={busy} onClick={(): void => { apply([]); }}>{t(`Restore All Original Names`)}</Button>
+        <Button disabled={busy} onClick={refresh}>{t(`Refresh`)}</Button>
+      </MainPage.Body>
+    </MainPage>
+  );
+};
+
+export default
+withTranslation([`common`, `redmod-integration`])(
+  ArchiveLoadOrder as any,
+) as React.ComponentClass<{ api: VortexApi }>;
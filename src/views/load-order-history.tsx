@@ -0,0 +1,159 @@
+import I18next from 'i18next';                   // eslint-disable-line import/no-extraneous-dependencies
+import * as React from 'react';                  // eslint-disable-line import/no-extraneous-dependencies
+import { Button } from 'react-bootstrap';        // eslint-disable-line import/no-extraneous-dependencies
+import { withTranslation } from 'react-i18next'; // eslint-disable-line import/no-extraneous-dependencies
+import {
+  MainPage,
+} from 'vortex-api';
+import {
+  DISABLED_MOD_DISPLAY_MARKER,
+  ENABLED_MOD_DISPLAY_MARKER,
+  internalLoadOrderer,
+} from '../load_order';
+import {
+  diffLoadOrders,
+  loadLoadOrderSnapshots,
+  restoreLoadOrderSnapshot,
+} from '../load_order.history';
+import {
+  LoadOrderEntry,
+  LoadOrderSnapshot,
+} from '../load_order.types';
+import {
+  squashAllWhitespace,
+} from '../util.functions';
+import {
+  VortexApi,
+} from '../vortex-wrapper';
+
+interface IBaseProps {
+  t: typeof I18next.t;
+  api: VortexApi;
+}
+
+const describeSnapshot = (snapshot: LoadOrderSnapshot): string =>
+  `${new Date(snapshot.loID).toLocaleString()} (${snapshot.loadOrder.entriesInOrderWithEarlierWinning.length} REDmods)`;
+
+const describeEntry = (entry: LoadOrderEntry): string =>
+  `${entry.enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER} ${entry.redmodName} (${entry.redmodPath})`;
+
+interface IDiffLine {
+  key: string;
+  text: string;
+}
+
+const diffLineFor = (entry: LoadOrderEntry, detail?: string): IDiffLine => ({
+  key: `${entry.vortexId}:${entry.redmodPath}`,
+  text: detail !== undefined ? `${describeEntry(entry)}: ${detail}` : describeEntry(entry),
+});
+
+const DiffSection = ({ t, title, lines }: { t: typeof I18next.t, title: string, lines: IDiffLine[] }): JSX.Element => (
+  lines.length > 0
+    ? (
+      <div>
+        <h5>{t(title)}</h5>
+        <ul>{lines.map((line) => <li key={line.key}>{line.text}</li>)}</ul>
+      </div>
+    )
+    : null
+);
+
+const LoadOrderHistory = (props: IBaseProps): JSX.Element => {
+  const { t, api } = props;
+
+  // Newest first
+  const [snapshots, setSnapshots] = React.useState<LoadOrderSnapshot[]>([]);
+  const [compareFrom, setCompareFrom] = React.useState<LoadOrderSnapshot>(undefined);
+  const [compareTo, setCompareTo] = React.useState<LoadOrderSnapshot>(undefined);
+  const [busy, setBusy] = React.useState(false);
+
+  const refresh = (): Promise<void> =>
+    loadLoadOrderSnapshots(api)
+      .then((loaded) => {
+        setSnapshots(loaded);
+        setCompareFrom(loaded[1]);
+        setCompareTo(loaded[0]);
+      })
+      .catch((error) => {
+        api.log(`error`, `Couldn't load load order snapshots: ${error.message}`);
+      });
+
+  React.useEffect((): void => { refresh(); }, []);
+
+  const restore = (snapshot: LoadOrderSnapshot): void => {
+    setBusy(true);
+    internalLoadOrderer.deserializeLoadOrder(api)
+      .then((orderableEntries) => restoreLoadOrderSnapshot(api, snapshot, orderableEntries))
+      .then(refresh)
+      .catch((error) => {
+        api.log(`error`, `Couldn't restore load order snapshot ${snapshot.loID}: ${error.message}`);
+      })
+      .finally((): void => { setBusy(false); });
+  };
+
+  const diff = compareFrom !== undefined && compareTo !== undefined
+    ? diffLoadOrders(compareFrom.loadOrder, compareTo.loadOrder)
+    : undefined;
+
+  return (
+    <MainPage>
+      <MainPage.Body>
+        <p>
+          {t(squashAllWhitespace(`
+            Every load order saved for this profile is kept here, newest first. Pick two
+            to compare, or restore an earlier one. Restoring puts REDmods back in the order
+            they were in, with the pins, notes, load after rules and ticks they had then, and
+            the order gets deployed like any other change. Anything installed since then goes
+            after them.
+          `))}
+        </p>
+        {snapshots.map((snapshot) => (
+          <div key={snapshot.loID} className='v2077-load-order-history-item'>
+            {describeSnapshot(snapshot)}
+            <Button
+              active={snapshot === compareFrom}
+              onClick={(): void => { setCompareFrom(snapshot); }}
+            >
+              {t(`Compare From`)}
+            </Button>
+            <Button
+              active={snapshot === compareTo}
+              onClick={(): void => { setCompareTo(snapshot); }}
+            >
+              {t(`Compare To`)}
+            </Button>
+            <Button disabled={busy} onClick={(): void => { restore(snapshot); }}>{t(`Restore`)}</Button>
+          </div>
+        ))}
+        {diff !== undefined && (
+          <div className='v2077-load-order-history-diff'>
+            <h4>
+              {t(`Changes from {{from}} to {{to}}`, {
+                replace: { from: describeSnapshot(compareFrom), to: describeSnapshot(compareTo) },
+              })}
+            </h4>
+            <DiffSection t={t} title='Added' lines={diff.added.map((entry) => diffLineFor(entry))} />
+            <DiffSection t={t} title='Removed' lines={diff.removed.map((entry) => diffLineFor(entry))} />
+            <DiffSection
+              t={t}
+              title='Moved'
+              lines={diff.moved.map((move) => diffLineFor(move.entry, `${move.from + 1} → ${move.to + 1}`))}
+            />
+            <DiffSection t={t} title='Enabled or disabled' lines={diff.enabledChanged.map((entry) => diffLineFor(entry))} />
+            <DiffSection
+              t={t}
+              title='Pins, notes and rules'
+              lines={diff.userDetesChanged.map((change) => diffLineFor(change.entry, change.changed.join(`, `)))}
+            />
+          </div>
+        )}
+        <Button disabled={busy} onClick={refresh}>{t(`Refresh`)}</Button>
+      </MainPage.Body>
+    </MainPage>
+  );
+};
+
+export default
+withTranslation([`common`, `redmod-integration`])(
+  LoadOrderHistory as any,
+) as React.ComponentClass<{ api: VortexApi }>;
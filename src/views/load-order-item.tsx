@@ -0,0 +1,240 @@
+import I18next from 'i18next';                                // eslint-disable-line import/no-extraneous-dependencies
+import * as React from 'react';                               // eslint-disable-line import/no-extraneous-dependencies
+import { Button, ListGroupItem } from 'react-bootstrap';      // eslint-disable-line import/no-extraneous-dependencies
+import { withTranslation } from 'react-i18next';              // eslint-disable-line import/no-extraneous-dependencies
+import { connect } from 'react-redux';                        // eslint-disable-line import/no-extraneous-dependencies
+import * as Redux from 'redux';                               // eslint-disable-line import/no-extraneous-dependencies
+import { ThunkDispatch } from 'redux-thunk';                  // eslint-disable-line import/no-extraneous-dependencies
+import {
+  actions,
+  Icon,
+  selectors,
+  util as vortexUtil,
+} from 'vortex-api';
+import {
+  DynamicFeature,
+  storeGetDynamicFeature,
+} from '../features';
+import {
+  REDMOD_AUTOCONVERTED_NAME_TAG,
+} from '../installers.layouts';
+import {
+  DISABLED_MOD_DISPLAY_MARKER,
+  ENABLED_MOD_DISPLAY_MARKER,
+  EXTERNAL_MOD_DISPLAY_MARKER,
+  PINNED_DISPLAY_MARKER,
+} from '../load_order';
+import {
+  isGroupExpanded,
+  isGroupLead,
+  redmodCountForVortexMod,
+  withGroupExpanded,
+} from '../load_order.groups';
+import {
+  LoadOrderEntryDataForVortex,
+  LoadOrderPin,
+} from '../load_order.types';
+import {
+  VortexLoadOrder,
+  VortexLoadOrderEntry,
+  VortexLoadOrderItemRendererProps,
+  VortexProfile,
+  VortexState,
+} from '../vortex-wrapper';
+
+//
+// Vortex's own item only has room for one line of text, so this is the
+// same thing with the REDmod details laid out properly. Dragging and the
+// checkbox work like they do in Vortex's.
+//
+// When REDmods are grouped by Vortex mod, the first REDmod of a mod with
+// several is where the group is expanded or put back together.
+//
+// Load after rules are added by picking the other REDmod from the list
+// and removed by clicking them. They're applied on the next load.
+//
+
+interface IBaseProps {
+  t: typeof I18next.t;
+  className?: string;
+  item: VortexLoadOrderItemRendererProps;
+}
+
+interface IConnectedProps {
+  profile: VortexProfile;
+  loadOrder: VortexLoadOrder;
+  groupByVortexMod: boolean;
+}
+
+interface IActionProps {
+  onSetLoadOrderEntry: (profileId: string, entry: VortexLoadOrderEntry) => void;
+  onSetLoadOrder: (profileId: string, loadOrder: VortexLoadOrderEntry[]) => void;
+}
+
+type IProps = IBaseProps & IConnectedProps & IActionProps;
+
+const sourceOf = (t: typeof I18next.t, data: LoadOrderEntryDataForVortex): string =>
+  (data.external
+    ? t(`not managed by Vortex`)
+    : t(`from {{mod}} {{version}}`, {
+      replace: { mod: data.vortexModName ?? data.vortexId, version: data.vortexModVersion },
+    }));
+
+// Subtypes come from the REDmod info as they are, so only our own tags are translated
+const tagsFor = (t: typeof I18next.t, data: LoadOrderEntryDataForVortex): string[] => [
+  ...(data.redmodSubtypes ?? []),
+  ...(data.redmodInfo.name.includes(REDMOD_AUTOCONVERTED_NAME_TAG) ? [t(`autoconverted`)] : []),
+  ...(data.pin === LoadOrderPin.Top ? [t(`pinned to top`)] : []),
+  ...(data.pin === LoadOrderPin.Bottom ? [t(`pinned to bottom`)] : []),
+];
+
+const loadsAfterCandidatesFor = (entry: VortexLoadOrderEntry, loadOrder: VortexLoadOrder): string[] => {
+  const { data }: { data: LoadOrderEntryDataForVortex } = entry;
+
+  const names: string[] = loadOrder.map((other) => other.data.redmodInfo.name);
+
+  return [...new Set(names)]
+    .filter((name) => name !== data.redmodInfo.name && !(data.loadsAfter ?? []).includes(name))
+    .sort((a, b) => a.localeCompare(b));
+};
+
+const LoadOrderItem = (props: IProps): JSX.Element => {
+  const {
+    t,
+    className,
+    item,
+    profile,
+    loadOrder,
+    groupByVortexMod,
+    onSetLoadOrderEntry,
+    onSetLoadOrder,
+  } = props;
+
+  const { loEntry: entry } = item;
+  const { data }: { data: LoadOrderEntryDataForVortex } = entry;
+
+  const position = loadOrder.findIndex((other) => other.id === entry.id) + 1;
+
+  const problems = (item.invalidEntries ?? [])
+    .filter((invalid) => invalid.id === entry.id)
+    .map((invalid) => invalid.reason);
+
+  const classes = [
+    `load-order-entry`,
+    `v2077-load-order-item`,
+    ...(className ? className.split(` `) : []),
+    ...(problems.length > 0 ? [`invalid`] : []),
+  ];
+
+  const marker = [
+    data.external ? EXTERNAL_MOD_DISPLAY_MARKER : ``,
+    entry.enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER,
+    data.pin !== undefined ? PINNED_DISPLAY_MARKER : ``,
+  ].join(``);
+
+  const groupSize = redmodCountForVortexMod(loadOrder, data.vortexId);
+  const expanded = isGroupExpanded(loadOrder, data.vortexId);
+
+  const showGroupToggle = groupByVortexMod && groupSize > 1 && isGroupLead(entry);
+
+  const tags = [
+    ...tagsFor(t, data),
+    ...(groupByVortexMod && groupSize > 1 && !expanded ? [t(`group of {{count}}`, { replace: { count: groupSize } })] : []),
+  ];
+
+  const onGroupToggle = (): void => {
+    onSetLoadOrder(profile.id, withGroupExpanded(loadOrder, data.vortexId, !expanded));
+  };
+
+  const onStatusChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    onSetLoadOrderEntry(profile.id, { ...entry, enabled: event.target.checked });
+  };
+
+  const loadsAfter = data.loadsAfter ?? [];
+
+  const onLoadsAfterChange = (newLoadsAfter: string[]): void => {
+    onSetLoadOrderEntry(profile.id, {
+      ...entry,
+      data: { ...data, loadsAfter: newLoadsAfter.length > 0 ? newLoadsAfter : undefined },
+    });
+  };
+
+  const onLoadsAfterAdded = (event: React.ChangeEvent<HTMLSelectElement>): void => {
+    onLoadsAfterChange([...loadsAfter, event.target.value]);
+  };
+
+  return (
+    <ListGroupItem className={classes.join(` `)} ref={item.setRef}>
+      <Icon className='drag-handle-icon' name='drag-handle' />
+      <p className='load-order-index'>{position}</p>
+      <div className='v2077-load-order-item-details'>
+        <p className='v2077-load-order-item-name'>
+          {`${marker} ${data.redmodInfo.name} ${data.redmodInfo.version}`}
+        </p>
+        <p className='v2077-load-order-item-source'>{sourceOf(t, data)}</p>
+        {tags.length > 0 && <p className='v2077-load-order-item-tags'>{tags.join(` · `)}</p>}
+        {data.note && <p className='v2077-load-order-item-note'>{data.note}</p>}
+        <div className='v2077-load-order-item-loads-after'>
+          {loadsAfter.map((name) => (
+            <Button
+              key={name}
+              className='v2077-load-order-item-loads-after-rule'
+              title={t(`Remove this rule`)}
+              onClick={(): void => { onLoadsAfterChange(loadsAfter.filter((other) => other !== name)); }}
+            >
+              {t(`after {{name}}`, { replace: { name } })}
+              <Icon name='remove' />
+            </Button>
+          ))}
+          <select value='' onChange={onLoadsAfterAdded}>
+            <option value='' disabled>{t(`Load after...`)}</option>
+            {loadsAfterCandidatesFor(entry, loadOrder).map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        {problems.map((reason) => (
+          <p key={reason} className='v2077-load-order-item-problem'>
+            <Icon name='feedback-warning' />
+            {` ${reason}`}
+          </p>
+        ))}
+      </div>
+      {showGroupToggle && (
+        <Button className='v2077-load-order-item-group-toggle' onClick={onGroupToggle}>
+          {expanded ? t(`Group`) : t(`Expand`)}
+        </Button>
+      )}
+      {item.displayCheckboxes && (
+        <input
+          type='checkbox'
+          className='entry-checkbox'
+          checked={entry.enabled}
+          onChange={onStatusChange}
+        />
+      )}
+    </ListGroupItem>
+  );
+};
+
+export const mapStateToProps = (fullVortexState: unknown): IConnectedProps => {
+  const profile: VortexProfile = selectors.activeProfile(fullVortexState as VortexState);
+
+  return {
+    profile,
+    loadOrder: vortexUtil.getSafe(fullVortexState, [`persistent`, `loadOrder`, profile?.id], []),
+    groupByVortexMod: storeGetDynamicFeature(vortexUtil, DynamicFeature.GroupREDmodsByVortexMod, fullVortexState),
+  };
+};
+
+export const mapDispatchToProps = (dispatch: ThunkDispatch<VortexState, null, Redux.Action>): IActionProps => ({
+  onSetLoadOrderEntry: (profileId: string, entry: VortexLoadOrderEntry) =>
+    dispatch(actions.setFBLoadOrderEntry(profileId, entry)),
+  onSetLoadOrder: (profileId: string, loadOrder: VortexLoadOrderEntry[]) =>
+    dispatch(actions.setFBLoadOrder(profileId, loadOrder)),
+});
+
+export default
+withTranslation([`common`, `redmod-integration`])(
+  connect(mapStateToProps, mapDispatchToProps)(
+    LoadOrderItem,
+  ) as any,
+) as React.ComponentClass<{ className?: string, item: VortexLoadOrderItemRendererProps }>;
@@ -0,0 +1,198 @@
+import I18next from 'i18next';                   // eslint-disable-line import/no-extraneous-dependencies
+import * as React from 'react';                  // eslint-disable-line import/no-extraneous-dependencies
+import { Button } from 'react-bootstrap';        // eslint-disable-line import/no-extraneous-dependencies
+import { withTranslation } from 'react-i18next'; // eslint-disable-line import/no-extraneous-dependencies
+import {
+  MainPage,
+  selectors,
+} from 'vortex-api';
+import {
+  isLeft,
+} from 'fp-ts/lib/Either';
+import {
+  DISABLED_MOD_DISPLAY_MARKER,
+  ENABLED_MOD_DISPLAY_MARKER,
+} from '../load_order';
+import {
+  diffLoadOrders,
+} from '../load_order.history';
+import {
+  copyLoadOrderFromProfile,
+  gameProfilesIn,
+  loadProfileLoadOrder,
+} from '../load_order.profiles';
+import {
+  LoadOrder,
+  LoadOrderEntry,
+} from '../load_order.types';
+import {
+  squashAllWhitespace,
+} from '../util.functions';
+import {
+  VortexApi,
+  VortexProfile,
+} from '../vortex-wrapper';
+
+interface IBaseProps {
+  t: typeof I18next.t;
+  api: VortexApi;
+}
+
+const describeEntry = (entry: LoadOrderEntry): string =>
+  `${entry.enabled ? ENABLED_MOD_DISPLAY_MARKER : DISABLED_MOD_DISPLAY_MARKER} ${entry.redmodName} (${entry.redmodPath})`;
+
+interface IDiffLine {
+  key: string;
+  text: string;
+}
+
+const diffLineFor = (entry: LoadOrderEntry, detail?: string): IDiffLine => ({
+  key: `${entry.vortexId}:${entry.redmodPath}`,
+  text: detail !== undefined ? `${describeEntry(entry)}: ${detail}` : describeEntry(entry),
+});
+
+const DiffSection = ({ t, title, lines }: { t: typeof I18next.t, title: string, lines: IDiffLine[] }): JSX.Element => (
+  lines.length > 0
+    ? (
+      <div>
+        <h5>{t(title)}</h5>
+        <ul>{lines.map((line) => <li key={line.key}>{line.text}</li>)}</ul>
+      </div>
+    )
+    : null
+);
+
+const entriesInOrder = (loadOrder: LoadOrder | undefined): LoadOrderEntry[] =>
+  [...(loadOrder?.entriesInOrderWithEarlierWinning ?? [])].sort((a, b) => a.index - b.index);
+
+const ProfileLoadOrders = (props: IBaseProps): JSX.Element => {
+  const { t, api } = props;
+
+  const profiles = gameProfilesIn(api.store.getState());
+  const activeProfile: VortexProfile = selectors.activeProfile(api.store.getState());
+
+  const [compareFrom, setCompareFrom] = React.useState<VortexProfile>(undefined);
+  const [compareTo, setCompareTo] = React.useState<VortexProfile>(activeProfile);
+  const [fromLoadOrder, setFromLoadOrder] = React.useState<LoadOrder>(undefined);
+  const [toLoadOrder, setToLoadOrder] = React.useState<LoadOrder>(undefined);
+  const [busy, setBusy] = React.useState(false);
+
+  const load = (profile: VortexProfile | undefined, setLoadOrder: (loadOrder: LoadOrder) => void): void => {
+    if (profile === undefined) {
+      setLoadOrder(undefined);
+      return;
+    }
+
+    loadProfileLoadOrder(api, profile)
+      .then((maybeLoadOrder) => {
+        setLoadOrder(isLeft(maybeLoadOrder) ? undefined : maybeLoadOrder.right);
+      })
+      .catch((error) => {
+        api.log(`error`, `Couldn't load the load order of profile ${profile.id}: ${error.message}`);
+      });
+  };
+
+  React.useEffect((): void => { load(compareFrom, setFromLoadOrder); }, [compareFrom]);
+  React.useEffect((): void => { load(compareTo, setToLoadOrder); }, [compareTo]);
+
+  const copyIntoActiveProfile = (profile: VortexProfile): void => {
+    setBusy(true);
+    copyLoadOrderFromProfile(api, profile)
+      .catch((error) => {
+        api.log(`error`, `Couldn't copy the load order of profile ${profile.id}: ${error.message}`);
+      })
+      .finally((): void => { setBusy(false); });
+  };
+
+  const diff = fromLoadOrder !== undefined && toLoadOrder !== undefined
+    ? diffLoadOrders(fromLoadOrder, toLoadOrder)
+    : undefined;
+
+  const fromEntries = entriesInOrder(fromLoadOrder);
+  const toEntries = entriesInOrder(toLoadOrder);
+  const rowCount = Math.max(fromEntries.length, toEntries.length);
+
+  return (
+    <MainPage>
+      <MainPage.Body>
+        <p>
+          {t(squashAllWhitespace(`
+            Compare the load orders of two profiles side by side, or copy another profile's
+            load order into the active one. Copying matches REDmods by mod and name, and
+            anything that isn't in the other profile's order goes after it.
+          `))}
+        </p>
+        {profiles.map((profile) => (
+          <div key={profile.id} className='v2077-profile-load-orders-item'>
+            {profile.id === activeProfile?.id ? `${profile.name} (${t(`active`)})` : profile.name}
+            <Button
+              active={profile.id === compareFrom?.id}
+              onClick={(): void => { setCompareFrom(profile); }}
+            >
+              {t(`Compare From`)}
+            </Button>
+            <Button
+              active={profile.id === compareTo?.id}
+              onClick={(): void => { setCompareTo(profile); }}
+            >
+              {t(`Compare To`)}
+            </Button>
+            <Button
+              disabled={busy || profile.id === activeProfile?.id}
+              onClick={(): void => { copyIntoActiveProfile(profile); }}
+            >
+              {t(`Copy Into Active Profile`)}
+            </Button>
+          </div>
+        ))}
+        {compareFrom !== undefined && compareTo !== undefined && (
+          <table className='v2077-profile-load-orders-side-by-side'>
+            <thead>
+              <tr>
+                <th />
+                <th>{compareFrom.name}</th>
+                <th>{compareTo.name}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...Array(rowCount).keys()].map((row) => (
+                <tr key={row}>
+                  <td>{row + 1}</td>
+                  <td>{fromEntries[row] !== undefined ? describeEntry(fromEntries[row]) : ``}</td>
+                  <td>{toEntries[row] !== undefined ? describeEntry(toEntries[row]) : ``}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {diff !== undefined && (
+          <div className='v2077-profile-load-orders-diff'>
+            <h4>{t(`Changes from {{from}} to {{to}}`, { replace: { from: compareFrom.name, to: compareTo.name } })}</h4>
+            <DiffSection t={t} title='Only in the second' lines={diff.added.map((entry) => diffLineFor(entry))} />
+            <DiffSection t={t} title='Only in the first' lines={diff.removed.map((entry) => diffLineFor(entry))} />
+            <DiffSection
+              t={t}
+              title='In a different place'
+              lines={diff.moved.map((move) => diffLineFor(move.entry, `${move.from + 1} → ${move.to + 1}`))}
+            />
+            <DiffSection
+              t={t}
+              title='Enabled in one but not the other'
+              lines={diff.enabledChanged.map((entry) => diffLineFor(entry))}
+            />
+            <DiffSection
+              t={t}
+              title='Different pins, notes or rules'
+              lines={diff.userDetesChanged.map((change) => diffLineFor(change.entry, change.changed.join(`, `)))}
+            />
+          </div>
+        )}
+      </MainPage.Body>
+    </MainPage>
+  );
+};
+
+export default
+withTranslation([`common`, `redmod-integration`])(
+  ProfileLoadOrders as any,
+) as React.ComponentClass<{ api: VortexApi }>;
@@ -0,0 +1,143 @@
+import I18next from 'i18next';                   // eslint-disable-line import/no-extraneous-dependencies
+import * as React from 'react';                  // eslint-disable-line import/no-extraneous-dependencies
+import { Button } from 'react-bootstrap';        // eslint-disable-line import/no-extraneous-dependencies
+import { withTranslation } from 'react-i18next'; // eslint-disable-line import/no-extraneous-dependencies
+import { connect } from 'react-redux';           // eslint-disable-line import/no-extraneous-dependencies
+import {
+  MainPage,
+  selectors,
+} from 'vortex-api';
+import {
+  isLeft,
+} from 'fp-ts/lib/Either';
+import {
+  cancelRunningREDmodDeploy,
+  deployLatestLoadOrderOnRequest,
+} from '../load_order';
+import {
+  describeREDmodDeployErrors,
+  lastREDmodDeployResultFrom,
+} from '../redmodding.deploy';
+import {
+  REDdeployQueueStateFrom,
+} from '../redmodding.queue';
+import {
+  REDdeployQueueState,
+  REDmodDeployResult,
+} from '../redmodding.types';
+import {
+  gameDirPath,
+} from '../state.functions';
+import {
+  squashAllWhitespace,
+} from '../util.functions';
+import {
+  VortexApi,
+  VortexState,
+} from '../vortex-wrapper';
+
+interface IBaseProps {
+  t: typeof I18next.t;
+  api: VortexApi;
+}
+
+interface IConnectedProps {
+  lastResult: REDmodDeployResult | undefined;
+  queueState: REDdeployQueueState;
+}
+
+type IProps = IBaseProps & IConnectedProps;
+
+const describeDuration = (result: REDmodDeployResult): string => {
+  const seconds = Math.round((Date.parse(result.finishedAt) - Date.parse(result.startedAt)) / 1000);
+
+  return seconds >= 60
+    ? `${Math.floor(seconds / 60)} min ${seconds % 60} s`
+    : `${seconds} s`;
+};
+
+const REDmodDeployment = (props: IProps): JSX.Element => {
+  const {
+    t,
+    api,
+    lastResult,
+    queueState,
+  } = props;
+
+  const deployCurrentLoadOrder = (): void => {
+    const maybeGameDir = gameDirPath(api);
+
+    if (isLeft(maybeGameDir)) {
+      api.log(`error`, `Can't deploy REDmods: ${maybeGameDir.left.message}`);
+      return;
+    }
+
+    deployLatestLoadOrderOnRequest(api, maybeGameDir.right, selectors.activeProfile(api.store.getState()))
+      .catch((error) => {
+        api.log(`error`, `REDmod deployment from the deployment page failed: ${error.message}`);
+      });
+  };
+
+  const isDeploying = queueState.running !== undefined;
+
+  return (
+    <MainPage>
+      <MainPage.Body>
+        <p>
+          {t(squashAllWhitespace(`
+            This is how the last REDmod deployment went. Deploy Current Load Order runs redMod
+            with the load order as it is now, which may differ from the one shown here, even if
+            nothing's changed since the last time.
+          `))}
+        </p>
+        {isDeploying && (
+          <div className='v2077-redmod-deployment-running'>
+            {t(`Deploying load order {{loID}}...`, { replace: { loID: queueState.running.loID } })}
+            {queueState.pending !== undefined && ` ${t(`Another deployment is waiting to run after it.`)}`}
+            <Button onClick={(): void => { cancelRunningREDmodDeploy(); }}>{t(`Cancel`)}</Button>
+          </div>
+        )}
+        {lastResult === undefined
+          ? <p>{t(`No REDmod deployment has finished yet.`)}</p>
+          : (
+            <div className='v2077-redmod-deployment-last'>
+              <h4>{t(lastResult.succeeded ? `Last Deployment Succeeded` : `Last Deployment Failed`)}</h4>
+              <p>
+                {t(`Finished {{finishedAt}}, took {{duration}}`, {
+                  replace: {
+                    finishedAt: new Date(lastResult.finishedAt).toLocaleString(),
+                    duration: describeDuration(lastResult),
+                  },
+                })}
+              </p>
+              {lastResult.errors.length > 0 && (
+                <div>
+                  <h5>{t(`Errors`)}</h5>
+                  <pre>{describeREDmodDeployErrors(lastResult.errors)}</pre>
+                </div>
+              )}
+              <h5>{t(`Mod List`)}</h5>
+              {lastResult.modList.length > 0
+                ? <ol>{lastResult.modList.map((modDir) => <li key={modDir}>{modDir}</li>)}</ol>
+                : <p>{t(`No REDmods, so redMod deployed the game defaults.`)}</p>}
+              <h5>{t(`Command Line`)}</h5>
+              <pre>{lastResult.commandLine}</pre>
+            </div>
+          )}
+        <Button disabled={isDeploying} onClick={deployCurrentLoadOrder}>{t(`Deploy Current Load Order`)}</Button>
+      </MainPage.Body>
+    </MainPage>
+  );
+};
+
+export const mapStateToProps = (fullVortexState: unknown): IConnectedProps => ({
+  lastResult: lastREDmodDeployResultFrom(fullVortexState as VortexState),
+  queueState: REDdeployQueueStateFrom(fullVortexState as VortexState),
+});
+
+export default
+withTranslation([`common`, `redmod-integration`])(
+  connect(mapStateToProps)(
+    REDmodDeployment,
+  ) as any,
+) as React.ComponentClass<{ api: VortexApi }>;
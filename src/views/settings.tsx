@@ -9,7 +9,12 @@ import {
   Toggle,
   util as vortexUtil,
 } from 'vortex-api';
-import { setREDmodAutoconvertArchivesAction } from '../actions';
+import {
+  setDetectAmbiguousInstallersAction,
+  setGroupREDmodsByVortexModAction,
+  setREDmodAutoconvertArchivesAction,
+  setVariantSelectionAction,
+} from '../actions';
 import {
   DynamicFeature,
   storeGetDynamicFeature,
@@ -23,10 +28,16 @@ interface IBaseProps {
 
 interface IConnectedProps {
   redmodAutoconvertArchives: boolean;
+  detectAmbiguousInstallers: boolean;
+  variantSelection: boolean;
+  groupREDmodsByVortexMod: boolean;
 }
 
 interface IActionProps {
   onREDmodAutoconvertArchives: (enable: boolean) => void;
+  onDetectAmbiguousInstallers: (enable: boolean) => void;
+  onVariantSelection: (enable: boolean) => void;
+  onGroupREDmodsByVortexMod: (enable: boolean) => void;
 }
 
 type IProps = IBaseProps & IConnectedProps & IActionProps;
@@ -36,6 +47,12 @@ const Settings = (props: IProps): JSX.Element => {
     t,
     redmodAutoconvertArchives,
     onREDmodAutoconvertArchives,
+    detectAmbiguousInstallers,
+    onDetectAmbiguousInstallers,
+    variantSelection,
+    onVariantSelection,
+    groupREDmodsByVortexMod,
+    onGroupREDmodsByVortexMod,
   } = props;
   return (
     <div>
@@ -57,17 +74,73 @@ const Settings = (props: IProps): JSX.Element => {
           `)}\n\n`)}
         </More>
       </Toggle>
+      <Toggle
+        checked={detectAmbiguousInstallers}
+        onToggle={onDetectAmbiguousInstallers}
+      >
+        {t(`Check every installer and ask me when more than one could install a mod`)}
+        <More
+          id='red-ambiguous-installers-setting'
+          name={t(`Detect ambiguous installer matches`)}>
+          {t(`${squashAllWhitespace(`
+            Normally the first installer that recognizes a mod gets to install it. With this setting
+            on, every installer is checked, and if more than one of them thinks it can install the mod,
+            you'll be shown the competing installers and their supported layouts so that you can pick
+            the right one. The competing installers are also written to the Vortex log. This is mostly
+            useful for mod authors checking their packaging, or when a mod gets installed the wrong way.
+          `)}\n\n`)}
+        </More>
+      </Toggle>
+      <Toggle
+        checked={variantSelection}
+        onToggle={onVariantSelection}
+      >
+        {t(`Let me choose which variant to install when a mod comes with several (recommended)`)}
+        <More
+          id='red-variant-selection-setting'
+          name={t(`Choose mod variants`)}>
+          {t(`${squashAllWhitespace(`
+            Some mods ship several alternative versions in separate folders, for example 'Option A - Short
+            hair' and 'Option B - Long hair'. When each of those folders looks like a complete mod of the
+            same type, you'll be asked which one(s) you want, and only those are installed. Your choice is
+            remembered when you reinstall the mod. With this off, those mods are installed the old way,
+            which usually means everything goes in via the Fallback installer.
+          `)}\n\n`)}
+        </More>
+      </Toggle>
+      <Toggle
+        checked={groupREDmodsByVortexMod}
+        onToggle={onGroupREDmodsByVortexMod}
+      >
+        {t(`Keep the REDmods of a mod together in the load order`)}
+        <More
+          id='red-group-redmods-setting'
+          name={t(`Group REDmods by mod`)}>
+          {t(`${squashAllWhitespace(`
+            Some mods come with several REDmods, and each of them gets its own place in the load order.
+            With this setting on, the REDmods of a mod move together as one block: drag the first one
+            and the rest follow it. If you need to put them in different places, use Expand on the
+            mod's entry to order them one by one, and Group to put them back together.
+          `)}\n\n`)}
+        </More>
+      </Toggle>
     </div>
   );
 };
 
 export const mapStateToProps = (fullVortexState: unknown): IConnectedProps => ({
   redmodAutoconvertArchives: storeGetDynamicFeature(vortexUtil, DynamicFeature.REDmodAutoconvertArchives, fullVortexState),
+  detectAmbiguousInstallers: storeGetDynamicFeature(vortexUtil, DynamicFeature.DetectAmbiguousInstallers, fullVortexState),
+  variantSelection: storeGetDynamicFeature(vortexUtil, DynamicFeature.VariantSelection, fullVortexState),
+  groupREDmodsByVortexMod: storeGetDynamicFeature(vortexUtil, DynamicFeature.GroupREDmodsByVortexMod, fullVortexState),
 });
 
 
 export const mapDispatchToProps = (dispatch: ThunkDispatch<VortexState, null, Redux.Action>): IActionProps => ({
   onREDmodAutoconvertArchives: (enable: boolean) => dispatch(setREDmodAutoconvertArchivesAction(enable)),
+  onDetectAmbiguousInstallers: (enable: boolean) => dispatch(setDetectAmbiguousInstallersAction(enable)),
+  onVariantSelection: (enable: boolean) => dispatch(setVariantSelectionAction(enable)),
+  onGroupREDmodsByVortexMod: (enable: boolean) => dispatch(setGroupREDmodsByVortexModAction(enable)),
 });
 
 export default
@@ -40,6 +40,7 @@ export type VortexDialogResult = Vortex.IDialogResult;
 export type VortexLoadOrder = Vortex.LoadOrder;
 export type VortexLoadOrderEntry = Vortex.ILoadOrderEntry;
 export type VortexLoadOrderGameInfo = Vortex.ILoadOrderGameInfo;
+export type VortexLoadOrderItemRendererProps = Vortex.IItemRendererProps;
 export type VortexValidationResult = Vortex.IValidationResult;
 
 export const vortexUtil = util;
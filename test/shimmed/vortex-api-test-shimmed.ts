@@ -2,11 +2,13 @@ import {
   VortexProfile,
 } from "../../src/vortex-wrapper";
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 const fail = (...args: any[]) => {
   throw new Error(`This is a test shim and shouldn't be called, args: ${args}`);
 };
 
+// Outside of Jest (e.g. `script/check-install.ts`) there's nothing to mock with
+const shimFn = (): ((...args: unknown[]) => unknown) => (typeof jest !== `undefined` ? jest.fn() : fail);
+
 export const mockedActiveProfile: VortexProfile = {
   id: `xyZzZyx`,
   name: `Test Profile`,
@@ -16,22 +18,29 @@ export const mockedActiveProfile: VortexProfile = {
 };
 
 export const fs = {
-  ensureDirWritableAsync: jest.fn(),
-  statAsync: jest.fn(),
-  writeFileAsync: jest.fn(),
-  renameAsync: jest.fn(),
+  ensureDirWritableAsync: shimFn(),
+  statAsync: shimFn(),
+  writeFileAsync: shimFn(),
+  renameAsync: shimFn(),
+  readdirAsync: shimFn(),
+  removeAsync: shimFn(),
+};
+
+export const actions = {
+  setFBLoadOrder: shimFn(),
 };
 
 export const selectors = {
   activeProfile: (..._args): VortexProfile => mockedActiveProfile,
+  installPathForGame: shimFn(),
 };
 
 export const util = {
   GameStoreHelper: {
-    findByAppId: jest.fn(),
+    findByAppId: shimFn(),
   },
-  getSafe: jest.fn(),
-  NotFound: jest.fn(),
-  opn: jest.fn(),
-  renderModName: jest.fn(),
+  getSafe: shimFn(),
+  NotFound: shimFn(),
+  opn: shimFn(),
+  renderModName: shimFn(),
 };
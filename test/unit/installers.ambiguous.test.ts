@@ -0,0 +1,120 @@
+import path from "path";
+import {
+  mockDeep,
+  DeepMockProxy,
+} from "jest-mock-extended";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  internalPipelineInstaller,
+  PipelinePlacement,
+  registerInstallerInPipeline,
+  wrapInstall,
+} from "../../src/installers";
+import {
+  InstallerType,
+} from "../../src/installers.types";
+import {
+  InstallChoices,
+} from "../../src/ui.dialogs";
+import {
+  VortexExtensionContext,
+  VortexInstallResult,
+  VortexInstruction,
+} from "../../src/vortex-wrapper";
+import {
+  BaselineFeatureSetForTests,
+  FeatureSet,
+  FeatureState,
+} from "../../src/features";
+import {
+  FAKE_MOD_NAME,
+  FAKE_STAGING_PATH,
+  REDS_PREFIX,
+  getMockVortexLog,
+  movedFromTo,
+} from "./utils.helper";
+
+
+const COMPETING_INSTALLER_ID = `test-competing-redscript-installer`;
+
+const competingInstruction: VortexInstruction = {
+  type: `copy`,
+  source: path.join(`script.reds`),
+  destination: path.join(`r6`, `competing`, `script.reds`),
+};
+
+registerInstallerInPipeline({
+  installer: {
+    type: InstallerType.ThirdParty,
+    id: COMPETING_INSTALLER_ID,
+    testSupported: async () => ({ supported: true, requiredFiles: [] }),
+    install: async () => ({ instructions: [competingInstruction] }),
+  },
+  placement: PipelinePlacement.After,
+  relativeToInstallerId: InstallerType.Redscript,
+});
+
+const FEATURES_DETECTING_AMBIGUITY: FeatureSet = {
+  ...BaselineFeatureSetForTests,
+  DetectAmbiguousInstallers: () => FeatureState.Enabled,
+};
+
+const redsScript = path.join(`script.reds`);
+const redsScriptInstalled = movedFromTo(`script.reds`, `${REDS_PREFIX}/${FAKE_MOD_NAME}/script.reds`);
+
+const installWithDialogChoice = async (
+  features: FeatureSet,
+  dialogChoice: string,
+): Promise<[VortexInstallResult, DeepMockProxy<VortexExtensionContext>]> => {
+  const mockVortexExtensionContext: DeepMockProxy<VortexExtensionContext> =
+    mockDeep<VortexExtensionContext>();
+
+  mockVortexExtensionContext.api.showDialog.mockResolvedValue({ action: dialogChoice, input: {} });
+
+  const wrappedInstall = wrapInstall(
+    mockVortexExtensionContext,
+    { log: getMockVortexLog() },
+    internalPipelineInstaller,
+    features,
+  );
+
+  const installResult = await wrappedInstall([redsScript], FAKE_STAGING_PATH, GAME_ID, null);
+
+  return [installResult, mockVortexExtensionContext];
+};
+
+describe(`Ambiguous installer matches`, () => {
+  test(`aren't checked for unless the feature is enabled`, async () => {
+    const [installResult, context] =
+      await installWithDialogChoice(BaselineFeatureSetForTests, COMPETING_INSTALLER_ID);
+
+    expect(installResult.instructions).toEqual([redsScriptInstalled]);
+    expect(context.api.showDialog).not.toHaveBeenCalled();
+  });
+
+  test(`let the user choose between the competing installers`, async () => {
+    const [installResult, context] =
+      await installWithDialogChoice(FEATURES_DETECTING_AMBIGUITY, COMPETING_INSTALLER_ID);
+
+    expect(installResult.instructions).toEqual([competingInstruction]);
+    expect(context.api.showDialog).toHaveBeenCalledTimes(1);
+
+    const offeredChoices = context.api.showDialog.mock.calls[0][3].map((action) => action.label);
+
+    expect(offeredChoices).toEqual([InstallChoices.Cancel, InstallerType.Redscript, COMPETING_INSTALLER_ID]);
+  });
+
+  test(`use the earlier installer when the user chooses it`, async () => {
+    const [installResult] =
+      await installWithDialogChoice(FEATURES_DETECTING_AMBIGUITY, InstallerType.Redscript);
+
+    expect(installResult.instructions).toEqual([redsScriptInstalled]);
+  });
+
+  test(`cancel the installation when the user cancels`, async () => {
+    await expect(installWithDialogChoice(FEATURES_DETECTING_AMBIGUITY, InstallChoices.Cancel))
+      .rejects.toThrowError(new Error(`${InstallerType.Pipeline}: user chose to cancel installation`));
+  });
+});
@@ -0,0 +1,122 @@
+import path from "path";
+import {
+  mockDeep,
+  DeepMockProxy,
+} from "jest-mock-extended";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  bestGameVersionDirFor,
+  internalPipelineInstaller,
+  UNKNOWN_GAME_VERSION,
+  wrapInstall,
+} from "../../src/installers";
+import {
+  InstallChoices,
+} from "../../src/ui.dialogs";
+import {
+  VortexExtensionContext,
+  VortexInstallResult,
+  VortexInstruction,
+} from "../../src/vortex-wrapper";
+import {
+  BaselineFeatureSetForTests,
+} from "../../src/features";
+import {
+  ARCHIVE_PREFIX,
+  FAKE_STAGING_PATH,
+  getMockVortexLog,
+  movedFromTo,
+} from "./utils.helper";
+
+
+describe(`Choosing the dir for the game version`, () => {
+  test(`picks the dir whose version matches the game`, () => {
+    expect(bestGameVersionDirFor(`1.6.2`, [`1.6`, `2.0`])).toBe(`1.6`);
+    expect(bestGameVersionDirFor(`2.0`, [`1.6`, `2.0`])).toBe(`2.0`);
+  });
+
+  test(`treats a '+' dir as that version or later`, () => {
+    expect(bestGameVersionDirFor(`2.12`, [`1.6`, `2.1+`])).toBe(`2.1+`);
+    expect(bestGameVersionDirFor(`2.0`, [`1.6`, `2.1+`])).toBeUndefined();
+  });
+
+  test(`prefers an exact match, then the newest one that applies`, () => {
+    expect(bestGameVersionDirFor(`2.1`, [`2.0+`, `2.1`, `1.6`])).toBe(`2.1`);
+    expect(bestGameVersionDirFor(`2.13`, [`2.0+`, `2.1+`, `1.6`])).toBe(`2.1+`);
+  });
+
+  test(`understands some common ways of naming the dirs`, () => {
+    expect(bestGameVersionDirFor(`1.63`, [`v1.63`, `v2.0`])).toBe(`v1.63`);
+    expect(bestGameVersionDirFor(`1.6.1`, [`1.6.x`, `2.x`])).toBe(`1.6.x`);
+    expect(bestGameVersionDirFor(`2.1`, [`Patch 1.6`, `2.0 and up`])).toBe(`2.0 and up`);
+  });
+
+  test(`doesn't take plain numbered dirs for game versions`, () => {
+    expect(bestGameVersionDirFor(`2.1`, [`1`, `2`])).toBeUndefined();
+    expect(bestGameVersionDirFor(`2.1`, [`v1`, `v2+`])).toBeUndefined();
+  });
+
+  test(`doesn't pick anything when the game version is unknown`, () => {
+    expect(bestGameVersionDirFor(UNKNOWN_GAME_VERSION, [`1.6`, `2.0+`])).toBeUndefined();
+    expect(bestGameVersionDirFor(`not a version`, [`1.6`, `2.0+`])).toBeUndefined();
+  });
+});
+
+const archiveFor = (versionDir: string): string =>
+  path.join(versionDir, ARCHIVE_PREFIX, `mod.archive`);
+
+const archiveInstalledFor = (versionDir: string): VortexInstruction =>
+  movedFromTo(archiveFor(versionDir), path.join(ARCHIVE_PREFIX, `mod.archive`));
+
+const versionedFiles = [`1.6`, `2.1+`].flatMap((versionDir) => [
+  path.join(versionDir, path.sep),
+  path.join(versionDir, `archive`, path.sep),
+  path.join(versionDir, `archive`, `pc`, path.sep),
+  path.join(versionDir, ARCHIVE_PREFIX, path.sep),
+  archiveFor(versionDir),
+]);
+
+const installForGameVersion = async (
+  gameVersion: string,
+  dialogChoice: string,
+): Promise<[VortexInstallResult, DeepMockProxy<VortexExtensionContext>]> => {
+  const mockVortexExtensionContext: DeepMockProxy<VortexExtensionContext> =
+    mockDeep<VortexExtensionContext>();
+
+  mockVortexExtensionContext.api.showDialog.mockResolvedValue({ action: dialogChoice, input: {} });
+
+  const wrappedInstall = wrapInstall(
+    mockVortexExtensionContext,
+    { log: getMockVortexLog() },
+    internalPipelineInstaller,
+    BaselineFeatureSetForTests,
+    () => Promise.resolve(gameVersion),
+  );
+
+  const installResult = await wrappedInstall(versionedFiles, FAKE_STAGING_PATH, GAME_ID, null);
+
+  return [installResult, mockVortexExtensionContext];
+};
+
+describe(`Mods with game version specific dirs`, () => {
+  test(`install only the dir for the current game version`, async () => {
+    const [installResult, context] = await installForGameVersion(`2.12`, InstallChoices.Cancel);
+
+    expect(installResult.instructions).toEqual([archiveInstalledFor(`2.1+`)]);
+    expect(context.api.showDialog).not.toHaveBeenCalled();
+  });
+
+  test(`let the user choose when no dir matches the game version`, async () => {
+    const [installResult, context] = await installForGameVersion(UNKNOWN_GAME_VERSION, `1.6`);
+
+    expect(context.api.showDialog).toHaveBeenCalledTimes(1);
+    expect(installResult.instructions).toEqual([archiveInstalledFor(`1.6`)]);
+  });
+
+  test(`cancel the installation when the user cancels`, async () => {
+    await expect(installForGameVersion(`1.5`, InstallChoices.Cancel))
+      .rejects.toThrowError(`user chose to cancel installation`);
+  });
+});
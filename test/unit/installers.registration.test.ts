@@ -0,0 +1,148 @@
+import path from "path";
+import {
+  mockDeep,
+  DeepMockProxy,
+} from "jest-mock-extended";
+import {
+  isLeft,
+  isRight,
+} from "fp-ts/lib/Either";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  installerPipelineInUse,
+  internalPipelineInstaller,
+  PipelinePlacement,
+  registerInstallerInPipeline,
+  wrapInstall,
+} from "../../src/installers";
+import {
+  Installer,
+  InstallerType,
+} from "../../src/installers.types";
+import {
+  VortexExtensionContext,
+  VortexInstruction,
+} from "../../src/vortex-wrapper";
+import {
+  BaselineFeatureSetForTests,
+} from "../../src/features";
+import {
+  FAKE_STAGING_PATH,
+  getMockVortexLog,
+} from "./utils.helper";
+
+
+const THIRD_PARTY_FILE = path.join(`thirdparty`, `something.3p`);
+
+const thirdPartyInstruction: VortexInstruction = {
+  type: `copy`,
+  source: THIRD_PARTY_FILE,
+  destination: path.join(`r6`, `thirdparty`, `something.3p`),
+};
+
+const thirdPartyInstallerWithId = (id: string): Installer => ({
+  type: InstallerType.ThirdParty,
+  id,
+  testSupported: async (_api, fileTree) =>
+    ({ supported: fileTree !== undefined, requiredFiles: [] }),
+  install: async () => ({ instructions: [thirdPartyInstruction] }),
+});
+
+const pipelineIds = (): string[] => installerPipelineInUse().map((installer) => installer.id);
+
+describe(`Registering installers into the pipeline`, () => {
+  test(`inserts the installer relative to the named one and recomputes priorities`, () => {
+    const result = registerInstallerInPipeline({
+      installer: thirdPartyInstallerWithId(`test-third-party-before-archive`),
+      placement: PipelinePlacement.Before,
+      relativeToInstallerId: InstallerType.Archive,
+    });
+
+    expect(isRight(result)).toBe(true);
+
+    const ids = pipelineIds();
+    const archiveIndex = ids.indexOf(InstallerType.Archive);
+
+    expect(ids[archiveIndex - 1]).toBe(`test-third-party-before-archive`);
+    expect(ids[ids.length - 1]).toBe(InstallerType.Fallback);
+
+    const priorities = installerPipelineInUse().map((installer) => installer.priority);
+
+    priorities.forEach((priority, index) => {
+      expect(priority).toBe(internalPipelineInstaller.priority + 1 + index);
+    });
+  });
+
+  test(`places the installer after the named one`, () => {
+    const result = registerInstallerInPipeline({
+      installer: thirdPartyInstallerWithId(`test-third-party-after-corecet`),
+      placement: PipelinePlacement.After,
+      relativeToInstallerId: InstallerType.CoreCET,
+    });
+
+    expect(isRight(result)).toBe(true);
+    expect(pipelineIds().slice(0, 2)).toEqual([InstallerType.CoreCET, `test-third-party-after-corecet`]);
+  });
+
+  test(`uses the registered installer when it's the first to support the mod`, async () => {
+    const mockVortexExtensionContext: DeepMockProxy<VortexExtensionContext> =
+      mockDeep<VortexExtensionContext>();
+
+    const wrappedInstall = wrapInstall(
+      mockVortexExtensionContext,
+      { log: getMockVortexLog() },
+      internalPipelineInstaller,
+      BaselineFeatureSetForTests,
+    );
+
+    const installResult = await wrappedInstall([THIRD_PARTY_FILE], FAKE_STAGING_PATH, GAME_ID, null);
+
+    expect(installResult.instructions).toEqual([thirdPartyInstruction]);
+  });
+
+  test(`refuses to place anything after Fallback`, () => {
+    const pipelineBefore = installerPipelineInUse();
+
+    const result = registerInstallerInPipeline({
+      installer: thirdPartyInstallerWithId(`test-third-party-after-fallback`),
+      placement: PipelinePlacement.After,
+      relativeToInstallerId: InstallerType.Fallback,
+    });
+
+    expect(isLeft(result)).toBe(true);
+    expect(installerPipelineInUse()).toBe(pipelineBefore);
+  });
+
+  test(`refuses an unknown installer to place relative to`, () => {
+    const result = registerInstallerInPipeline({
+      installer: thirdPartyInstallerWithId(`test-third-party-nowhere`),
+      placement: PipelinePlacement.Before,
+      relativeToInstallerId: `no such installer`,
+    });
+
+    expect(isLeft(result)).toBe(true);
+    expect(pipelineIds()).not.toContain(`test-third-party-nowhere`);
+  });
+
+  test(`refuses an id that's already in the pipeline`, () => {
+    const result = registerInstallerInPipeline({
+      installer: thirdPartyInstallerWithId(InstallerType.Redscript),
+      placement: PipelinePlacement.Before,
+      relativeToInstallerId: InstallerType.Archive,
+    });
+
+    expect(isLeft(result)).toBe(true);
+  });
+
+  test(`refuses to register another Fallback`, () => {
+    const result = registerInstallerInPipeline({
+      installer: { ...thirdPartyInstallerWithId(`test-another-fallback`), type: InstallerType.Fallback },
+      placement: PipelinePlacement.Before,
+      relativeToInstallerId: InstallerType.Fallback,
+    });
+
+    expect(isLeft(result)).toBe(true);
+  });
+});
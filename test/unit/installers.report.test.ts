@@ -0,0 +1,144 @@
+import path from "path";
+import {
+  mockDeep,
+  DeepMockProxy,
+} from "jest-mock-extended";
+import {
+  IState,
+} from "vortex-api/lib/types/IState";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  internalPipelineInstaller,
+  wrapInstall,
+} from "../../src/installers";
+import {
+  RedscriptLayout,
+} from "../../src/installers.layouts";
+import {
+  InstallReport,
+  installReportFrom,
+  isInstallReportInstruction,
+} from "../../src/installers.report";
+import {
+  InstallerType,
+} from "../../src/installers.types";
+import {
+  VortexExtensionContext,
+  VortexInstallResult,
+} from "../../src/vortex-wrapper";
+import {
+  BaselineFeatureSetForTests,
+  FeatureSet,
+  FeatureState,
+} from "../../src/features";
+import {
+  FAKE_MOD_NAME,
+  FAKE_STAGING_PATH,
+  REDS_PREFIX,
+  getMockVortexLog,
+  movedFromTo,
+} from "./utils.helper";
+
+
+const FEATURES_WITH_REPORT: FeatureSet = {
+  ...BaselineFeatureSetForTests,
+  InstallReport: FeatureState.Enabled,
+};
+
+const installWithPipeline = async (
+  inFiles: string[],
+  features: FeatureSet,
+): Promise<VortexInstallResult> => {
+  const mockVortexExtensionContext: DeepMockProxy<VortexExtensionContext> =
+    mockDeep<VortexExtensionContext>();
+
+  mockVortexExtensionContext.api.getState.calledWith().mockReturnValue(mockDeep<IState>());
+
+  const wrappedInstall = wrapInstall(
+    mockVortexExtensionContext,
+    { log: getMockVortexLog() },
+    internalPipelineInstaller,
+    features,
+  );
+
+  return wrappedInstall(inFiles, FAKE_STAGING_PATH, GAME_ID, null);
+};
+
+const reportFrom = (installResult: VortexInstallResult): InstallReport => {
+  const report = installReportFrom(installResult.instructions);
+
+  expect(report).toBeDefined();
+
+  return report;
+};
+
+describe(`Install report`, () => {
+  const redsScript = path.join(`script.reds`);
+  const redsScriptInstalled = movedFromTo(`script.reds`, `${REDS_PREFIX}/${FAKE_MOD_NAME}/script.reds`);
+
+  test(`isn't generated when the feature is disabled`, async () => {
+    const installResult = await installWithPipeline([redsScript], BaselineFeatureSetForTests);
+
+    expect(installResult.instructions).toEqual([redsScriptInstalled]);
+  });
+
+  test(`is stored as a mod attribute in addition to the regular instructions when enabled`, async () => {
+    const installResult = await installWithPipeline([redsScript], FEATURES_WITH_REPORT);
+
+    expect(installResult.instructions.length).toBe(2);
+    expect(installResult.instructions[0]).toEqual(redsScriptInstalled);
+    expect(installResult.instructions.some((instruction) => instruction.type === `generatefile`)).toBe(false);
+  });
+
+  test(`is found among the instructions the way check-install reads it, and only it`, async () => {
+    const installResult = await installWithPipeline([redsScript], FEATURES_WITH_REPORT);
+
+    expect(installReportFrom(installResult.instructions)?.installerUsed).toBe(InstallerType.Redscript);
+    expect(installResult.instructions.filter((instruction) => !isInstallReportInstruction(instruction)))
+      .toEqual([redsScriptInstalled]);
+  });
+
+  test(`isn't found when it wasn't generated`, async () => {
+    const installResult = await installWithPipeline([redsScript], BaselineFeatureSetForTests);
+
+    expect(installReportFrom(installResult.instructions)).toBeUndefined();
+  });
+
+  test(`explains which installer was selected and what the candidates said`, async () => {
+    const report = reportFrom(await installWithPipeline([redsScript], FEATURES_WITH_REPORT));
+
+    expect(report.modName).toBe(FAKE_MOD_NAME);
+    expect(report.installerUsed).toBe(InstallerType.Redscript);
+
+    const lastCandidate = report.candidates[report.candidates.length - 1];
+
+    expect(lastCandidate.installer).toBe(InstallerType.Redscript);
+    expect(lastCandidate.supported).toBe(true);
+    expect(report.candidates.slice(0, -1).every((candidate) => !candidate.supported)).toBe(true);
+  });
+
+  test(`lists the layouts that were tried, including the one that matched`, async () => {
+    const report = reportFrom(await installWithPipeline([redsScript], FEATURES_WITH_REPORT));
+
+    const matchedLayouts = report.layoutAttempts.filter((attempt) => attempt.matched);
+    const rejectedLayouts = report.layoutAttempts.filter((attempt) => !attempt.matched);
+
+    expect(matchedLayouts).toEqual([
+      { layout: `redscriptToplevelLayout`, matched: true, result: RedscriptLayout.Toplevel },
+    ]);
+    expect(rejectedLayouts.map((attempt) => attempt.layout)).toEqual(
+      expect.arrayContaining([`redscriptBasedirLayout`, `redscriptCanonLayout`]),
+    );
+  });
+
+  test(`maps every instruction source to its destination`, async () => {
+    const report = reportFrom(await installWithPipeline([redsScript], FEATURES_WITH_REPORT));
+
+    expect(report.instructions).toEqual([redsScriptInstalled]);
+    expect(report.giftwrapUnwrappedFrom).toBeNull();
+    expect(report.extraFilesLayoutUsed).toBeNull();
+    expect(report.fallbackUsed).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import path from "path";
+import {
+  mockDeep,
+  DeepMockProxy,
+} from "jest-mock-extended";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  internalPipelineInstaller,
+  wrapInstall,
+} from "../../src/installers";
+import {
+  InstallerChoicesData,
+  makeAttr,
+  ModAttributeKey,
+  ModAttributeValue,
+} from "../../src/installers.types";
+import {
+  InstallChoices,
+  VariantChoices,
+} from "../../src/ui.dialogs";
+import {
+  VortexExtensionContext,
+  VortexInstallResult,
+  VortexInstruction,
+} from "../../src/vortex-wrapper";
+import {
+  BaselineFeatureSetForTests,
+  FeatureSet,
+  FeatureState,
+} from "../../src/features";
+import {
+  ARCHIVE_PREFIX,
+  FAKE_STAGING_PATH,
+  addedMetadataAttribute,
+  getMockVortexLog,
+  movedFromTo,
+} from "./utils.helper";
+
+
+const FEATURES_WITH_VARIANTS: FeatureSet = {
+  ...BaselineFeatureSetForTests,
+  VariantSelection: () => FeatureState.Enabled,
+};
+
+const VARIANT_A = `Option A - Short`;
+const VARIANT_B = `Option B - Long`;
+
+const variantArchive = (variant: string): string =>
+  path.join(variant, ARCHIVE_PREFIX, `${variant}.archive`);
+
+const variantArchiveInstalled = (variant: string): VortexInstruction =>
+  movedFromTo(variantArchive(variant), path.join(ARCHIVE_PREFIX, `${variant}.archive`));
+
+const variantFiles = [
+  path.join(VARIANT_A, path.sep),
+  path.join(VARIANT_A, `archive`, path.sep),
+  path.join(VARIANT_A, `archive`, `pc`, path.sep),
+  path.join(VARIANT_A, ARCHIVE_PREFIX, path.sep),
+  variantArchive(VARIANT_A),
+  path.join(VARIANT_B, path.sep),
+  path.join(VARIANT_B, `archive`, path.sep),
+  path.join(VARIANT_B, `archive`, `pc`, path.sep),
+  path.join(VARIANT_B, ARCHIVE_PREFIX, path.sep),
+  variantArchive(VARIANT_B),
+];
+
+// Alternatives that both replace the same archive
+const overlappingVariantFiles = [
+  ...variantFiles,
+  path.join(VARIANT_A, ARCHIVE_PREFIX, `shared.archive`),
+  path.join(VARIANT_B, ARCHIVE_PREFIX, `shared.archive`),
+];
+
+const choicesFor = (selectedVariants: string[]): ModAttributeValue<InstallerChoicesData> =>
+  ({ data: { selectedVariants } });
+
+const installWithDialogResult = async (
+  features: FeatureSet,
+  action: string,
+  checked: string[],
+  choices?: unknown,
+  files: string[] = variantFiles,
+): Promise<[VortexInstallResult, DeepMockProxy<VortexExtensionContext>]> => {
+  const mockVortexExtensionContext: DeepMockProxy<VortexExtensionContext> =
+    mockDeep<VortexExtensionContext>();
+
+  mockVortexExtensionContext.api.showDialog.mockResolvedValue({
+    action,
+    input: Object.fromEntries([VARIANT_A, VARIANT_B].map((variant) => [variant, checked.includes(variant)])),
+  });
+
+  const wrappedInstall = wrapInstall(
+    mockVortexExtensionContext,
+    { log: getMockVortexLog() },
+    internalPipelineInstaller,
+    features,
+  );
+
+  const installResult = await wrappedInstall(files, FAKE_STAGING_PATH, GAME_ID, null, choices);
+
+  return [installResult, mockVortexExtensionContext];
+};
+
+describe(`Variant selection`, () => {
+  test(`isn't offered unless the feature is enabled`, async () => {
+    const [, context] =
+      await installWithDialogResult(BaselineFeatureSetForTests, VariantChoices.Install, [VARIANT_A]);
+
+    const dialogTitles = context.api.showDialog.mock.calls.map((call) => call[1]);
+
+    expect(dialogTitles).not.toContain(`Choose Which Variant(s) To Install`);
+  });
+
+  test(`installs only the variant the user chose and remembers the choice`, async () => {
+    const [installResult, context] =
+      await installWithDialogResult(FEATURES_WITH_VARIANTS, VariantChoices.Install, [VARIANT_B]);
+
+    expect(context.api.showDialog).toHaveBeenCalledTimes(1);
+
+    const offeredVariants = context.api.showDialog.mock.calls[0][2].checkboxes.map((checkbox) => checkbox.id);
+
+    expect(offeredVariants).toEqual([VARIANT_A, VARIANT_B]);
+
+    expect(installResult.instructions).toEqual([
+      variantArchiveInstalled(VARIANT_B),
+      addedMetadataAttribute(makeAttr<InstallerChoicesData>(
+        ModAttributeKey.InstallerChoices,
+        { selectedVariants: [VARIANT_B] },
+      )),
+    ]);
+  });
+
+  test(`installs every variant the user chose`, async () => {
+    const [installResult] =
+      await installWithDialogResult(FEATURES_WITH_VARIANTS, VariantChoices.Install, [VARIANT_A, VARIANT_B]);
+
+    expect(installResult.instructions).toEqual(expect.arrayContaining([
+      variantArchiveInstalled(VARIANT_A),
+      variantArchiveInstalled(VARIANT_B),
+    ]));
+  });
+
+  test(`cancels the installation when the chosen variants have the same files`, async () => {
+    await expect(installWithDialogResult(
+      FEATURES_WITH_VARIANTS,
+      VariantChoices.Install,
+      [VARIANT_A, VARIANT_B],
+      undefined,
+      overlappingVariantFiles,
+    )).rejects.toThrowError(`Selected Variants Overlap`);
+  });
+
+  test(`installs one of several variants with the same files`, async () => {
+    const [installResult] = await installWithDialogResult(
+      FEATURES_WITH_VARIANTS,
+      VariantChoices.Install,
+      [VARIANT_B],
+      undefined,
+      overlappingVariantFiles,
+    );
+
+    expect(installResult.instructions).toEqual(expect.arrayContaining([
+      variantArchiveInstalled(VARIANT_B),
+      movedFromTo(
+        path.join(VARIANT_B, ARCHIVE_PREFIX, `shared.archive`),
+        path.join(ARCHIVE_PREFIX, `shared.archive`),
+      ),
+    ]));
+  });
+
+  test(`reuses the previous choice on reinstall without asking`, async () => {
+    const [installResult, context] = await installWithDialogResult(
+      FEATURES_WITH_VARIANTS,
+      VariantChoices.Install,
+      [VARIANT_A],
+      choicesFor([VARIANT_B]),
+    );
+
+    expect(context.api.showDialog).not.toHaveBeenCalled();
+    expect(installResult.instructions[0]).toEqual(variantArchiveInstalled(VARIANT_B));
+  });
+
+  test(`asks again if the previous choice doesn't match this archive`, async () => {
+    const [, context] = await installWithDialogResult(
+      FEATURES_WITH_VARIANTS,
+      VariantChoices.Install,
+      [VARIANT_A],
+      choicesFor([`Option C - Gone`]),
+    );
+
+    expect(context.api.showDialog).toHaveBeenCalledTimes(1);
+  });
+
+  test(`cancels the installation when the user cancels`, async () => {
+    await expect(installWithDialogResult(FEATURES_WITH_VARIANTS, InstallChoices.Cancel, [VARIANT_A]))
+      .rejects.toThrowError(`user chose to cancel installation`);
+  });
+
+  test(`cancels the installation when the user doesn't choose anything`, async () => {
+    await expect(installWithDialogResult(FEATURES_WITH_VARIANTS, VariantChoices.Install, []))
+      .rejects.toThrowError(`user chose to cancel installation`);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  archiveRenamesFor,
+  archiveSortPrefixFor,
+  archivesInOrder,
+  originalArchiveNameFor,
+  renamedArchivesAfter,
+} from "../../src/load_order.archives";
+import {
+  ARCHIVE_LOAD_ORDER_TYPE_VERSION,
+  ARCHIVE_RENAMES_TYPE_VERSION,
+  ArchiveLoadOrder,
+  ArchiveLoadOrderEntry,
+  ArchiveRenames,
+  decodeArchiveLoadOrder,
+  decodeArchiveRenames,
+  encodeArchiveLoadOrder,
+  encodeArchiveRenames,
+  OrderableArchive,
+} from "../../src/load_order.types";
+
+
+const archive = (vortexId: string, archiveName: string, nameOnDisk = archiveName): OrderableArchive => ({
+  vortexId,
+  modName: `Mod ${vortexId}`,
+  enabled: true,
+  archiveName,
+  nameOnDisk,
+});
+
+const entry = (vortexId: string, archiveName: string): ArchiveLoadOrderEntry =>
+  ({ vortexId, archiveName });
+
+
+describe(`Archive Load Order`, () => {
+
+  describe(`Types and Serialization`, () => {
+
+    test(`ArchiveLoadOrder encodes and decodes roundtrip`, () => {
+      const archiveLoadOrder: ArchiveLoadOrder = {
+        archiveLoadOrderFormatVersion: ARCHIVE_LOAD_ORDER_TYPE_VERSION,
+        ownerVortexProfileId: `testprofileid`,
+        generatedAt: `2021-01-01T00:00:00.000Z`,
+        entriesInOrderWithEarlierWinning: [
+          { vortexId: `testvortexid`, vortexModId: `1234`, archiveName: `stuff.archive` },
+        ],
+      };
+
+      const decoded = decodeArchiveLoadOrder(encodeArchiveLoadOrder(archiveLoadOrder));
+
+      if (isLeft(decoded)) {
+        throw new Error(`Decoding failed: ${decoded.left.message}`);
+      }
+
+      expect(decoded.right).toEqual(archiveLoadOrder);
+    });
+
+    test(`ArchiveRenames encodes and decodes roundtrip`, () => {
+      const archiveRenames: ArchiveRenames = {
+        archiveRenamesFormatVersion: ARCHIVE_RENAMES_TYPE_VERSION,
+        generatedAt: `2021-01-01T00:00:00.000Z`,
+        renamed: [
+          { vortexId: `testvortexid`, archiveName: `stuff.archive`, nameOnDisk: `0010_stuff.archive` },
+        ],
+      };
+
+      const decoded = decodeArchiveRenames(encodeArchiveRenames(archiveRenames));
+
+      if (isLeft(decoded)) {
+        throw new Error(`Decoding failed: ${decoded.left.message}`);
+      }
+
+      expect(decoded.right).toEqual(archiveRenames);
+    });
+  });
+
+  describe(`Sort prefixes`, () => {
+
+    test(`earlier entries get smaller prefixes with room in between`, () => {
+      expect(archiveSortPrefixFor(0, 3)).toBe(`0010_`);
+      expect(archiveSortPrefixFor(2, 3)).toBe(`0030_`);
+    });
+
+    test(`prefixes get wider so that they still sort right with lots of entries`, () => {
+      expect(archiveSortPrefixFor(0, 1000)).toBe(`00010_`);
+      expect(archiveSortPrefixFor(999, 1000)).toBe(`10000_`);
+    });
+
+    test(`only strips prefixes that we added`, () => {
+      const renamed = [{ vortexId: `mod1`, archiveName: `a.archive`, nameOnDisk: `0010_a.archive` }];
+
+      expect(originalArchiveNameFor(`mod1`, `0010_a.archive`, renamed, [])).toBe(`a.archive`);
+      expect(originalArchiveNameFor(`mod2`, `0010_a.archive`, renamed, [])).toBe(`0010_a.archive`);
+      expect(originalArchiveNameFor(`mod1`, `0001_b.archive`, renamed, [])).toBe(`0001_b.archive`);
+    });
+
+    test(`strips prefixes another profile added even if this profile's order doesn't know the archive`, () => {
+      const renamed = [{ vortexId: `mod1`, archiveName: `a.archive`, nameOnDisk: `0020_a.archive` }];
+
+      expect(originalArchiveNameFor(`mod1`, `0020_a.archive`, renamed, [entry(`mod2`, `b.archive`)]))
+        .toBe(`a.archive`);
+    });
+
+    test(`still strips prefixes from before renames were recorded if the previous order knows the archive`, () => {
+      const previousOrder = [entry(`mod1`, `a.archive`)];
+
+      expect(originalArchiveNameFor(`mod1`, `0010_a.archive`, [], previousOrder)).toBe(`a.archive`);
+      expect(originalArchiveNameFor(`mod2`, `0010_a.archive`, [], previousOrder)).toBe(`0010_a.archive`);
+    });
+  });
+
+  describe(`Renames`, () => {
+
+    test(`ordered archives are renamed with the prefix for their position`, () => {
+      const order = [entry(`mod2`, `b.archive`), entry(`mod1`, `a.archive`)];
+
+      expect(archiveRenamesFor(order, [archive(`mod1`, `a.archive`), archive(`mod2`, `b.archive`)])).toEqual([
+        { vortexId: `mod1`, from: `a.archive`, to: `0020_a.archive` },
+        { vortexId: `mod2`, from: `b.archive`, to: `0010_b.archive` },
+      ]);
+    });
+
+    test(`archives removed from the order get their original names back`, () => {
+      const onDisk = [
+        archive(`mod1`, `a.archive`, `0010_a.archive`),
+        archive(`mod2`, `b.archive`, `0020_b.archive`),
+      ];
+
+      expect(archiveRenamesFor([entry(`mod2`, `b.archive`)], onDisk)).toEqual([
+        { vortexId: `mod1`, from: `0010_a.archive`, to: `a.archive` },
+        { vortexId: `mod2`, from: `0020_b.archive`, to: `0010_b.archive` },
+      ]);
+    });
+
+    test(`archives already in place aren't touched`, () => {
+      const onDisk = [archive(`mod1`, `a.archive`, `0010_a.archive`), archive(`mod3`, `c.archive`)];
+
+      expect(archiveRenamesFor([entry(`mod1`, `a.archive`)], onDisk)).toEqual([]);
+    });
+
+    test(`renamed archives are recorded with their new names and the rest are left out`, () => {
+      const onDisk = [
+        archive(`mod1`, `a.archive`, `0010_a.archive`),
+        archive(`mod2`, `b.archive`),
+        archive(`mod3`, `c.archive`, `0020_c.archive`),
+      ];
+      const renames = archiveRenamesFor([entry(`mod2`, `b.archive`), entry(`mod3`, `c.archive`)], onDisk);
+
+      expect(renamedArchivesAfter(onDisk, renames)).toEqual([
+        { vortexId: `mod2`, archiveName: `b.archive`, nameOnDisk: `0010_b.archive` },
+        { vortexId: `mod3`, archiveName: `c.archive`, nameOnDisk: `0020_c.archive` },
+      ]);
+    });
+  });
+
+  describe(`Listing`, () => {
+
+    test(`ordered archives come first in order, then the rest by name`, () => {
+      const archives = [archive(`mod3`, `c.archive`), archive(`mod1`, `z.archive`), archive(`mod2`, `b.archive`)];
+
+      expect(archivesInOrder(archives, [entry(`mod1`, `z.archive`)]).map((a) => a.archiveName))
+        .toEqual([`z.archive`, `b.archive`, `c.archive`]);
+    });
+  });
+});
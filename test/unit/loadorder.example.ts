@@ -1,5 +1,17 @@
-import { LoadOrder, ModList } from "../../src/load_order.types";
+import {
+  LoadOrder,
+  MaybeEnabledMod,
+  ModList,
+} from "../../src/load_order.types";
 import { VortexLoadOrderEntry } from "../../src/vortex-wrapper";
+import {
+  ModAttributeKey,
+  ModType,
+} from "../../src/installers.types";
+
+import {
+  mockedActiveProfile,
+} from "../shimmed/vortex-api-test-shimmed";
 
 
 export const vortexLoadOrder: VortexLoadOrderEntry[] = [{
@@ -96,7 +108,7 @@ export const vortexLoadOrder: VortexLoadOrderEntry[] = [{
 ];
 
 export const v2077LoadOrder: LoadOrder = {
-  loadOrderFormatVersion: `1.0.0`,
+  loadOrderFormatVersion: `2.0.0`,
   ownerVortexProfileId: `xyZzyZx`,
   generatedAt: `2022-11-11T06:43:55.038Z`,
   entriesInOrderWithEarlierWinning: [
@@ -107,6 +119,7 @@ export const v2077LoadOrder: LoadOrder = {
       redmodVersion: `0.0.1-V2077+V2077RED`,
       redmodPath: `mods\\#POPPY DRESS (V2077 Autoconverted)`,
       enabled: true,
+      index: 0,
     },
     {
       vortexId: `Guinevere's Always-On Chrome v1.0.0`,
@@ -115,6 +128,7 @@ export const v2077LoadOrder: LoadOrder = {
       redmodVersion: `1.0`,
       redmodPath: `mods\\AuskaWorks - Guinevere's Always-On Chrome`,
       enabled: true,
+      index: 1,
     },
     {
       vortexId: `redmod version-5401-1-e3-1664115429`,
@@ -124,6 +138,7 @@ export const v2077LoadOrder: LoadOrder = {
       redmodVersion: `1.e3`,
       redmodPath: `mods\\Better_Apartment_Views`,
       enabled: true,
+      index: 2,
     },
     {
       vortexId: `Panam Romanced Enhanced v1.4 REDmod-4626-1-4-1663254950`,
@@ -133,6 +148,7 @@ export const v2077LoadOrder: LoadOrder = {
       redmodVersion: `1.4`,
       redmodPath: `mods\\PanamRomancedEnhanced`,
       enabled: true,
+      index: 3,
     },
     {
       vortexId: `Panam Romanced Enhanced v1.4 REDmod-4626-1-4-1663254950`,
@@ -142,6 +158,7 @@ export const v2077LoadOrder: LoadOrder = {
       redmodVersion: `1.4`,
       redmodPath: `mods\\PanamRomancedEnhancedPrivacy`,
       enabled: true,
+      index: 4,
     },
   ],
 };
@@ -156,3 +173,32 @@ export const v2077ModList: ModList = [
 
 export const emptyV2077ModList: ModList = [
 ];
+
+
+// An installed, enabled Vortex mod with a REDmod for each dir
+export const orderableVortexModWithREDmods = (vortexId: string, redmodDirs: string[]): MaybeEnabledMod => ({
+  id: vortexId,
+  state: `installed`,
+  type: ``,
+  installationPath: vortexId,
+  attributes: {
+    [ModAttributeKey.ModType]: { data: ModType.REDmod },
+    [ModAttributeKey.REDmodInfoArray]: {
+      data: redmodDirs.map((dir) => ({
+        name: dir,
+        version: `1.0`,
+        relativePath: `mods\\${dir}`,
+        vortexModId: undefined,
+      })),
+    },
+  },
+  enabled: true,
+  enabledTime: 0,
+});
+
+export const storedOrderContext = {
+  activeProfile: mockedActiveProfile,
+  redmodSubtypesLookup: new Map<string, string[]>(),
+  unmanagedREDmodSubtypes: [],
+  groupByVortexMod: false,
+};
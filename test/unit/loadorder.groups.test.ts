@@ -0,0 +1,148 @@
+import {
+  draggedGroupMembers,
+  groupREDmodsByVortexMod,
+  isGroupExpanded,
+  movedEntryKeys,
+  withGroupExpanded,
+} from "../../src/load_order.groups";
+import {
+  makeV2077LoadOrderFrom,
+  makeVortexLoadOrderFromStoredOrder,
+} from "../../src/load_order";
+import {
+  VortexLoadOrderEntry,
+} from "../../src/vortex-wrapper";
+
+import * as loTestData from "./loadorder.example";
+
+const [poppy, guinevere, redmodVersion, panam, panamSubmod] = loTestData.vortexLoadOrder;
+
+const PANAM_VORTEX_ID = panam.data.vortexId;
+
+const idsOf = (loadOrder: VortexLoadOrderEntry[]): string[] =>
+  loadOrder.map((entry) => entry.id);
+
+const keyOf = (entry: VortexLoadOrderEntry): string =>
+  entry.id;
+
+
+describe(`Load Order Groups`, () => {
+
+  test(`leave the order alone when the REDmods of each mod are already together`, () => {
+    expect(idsOf(groupREDmodsByVortexMod(loTestData.vortexLoadOrder))).toEqual(idsOf(loTestData.vortexLoadOrder));
+  });
+
+  test(`move the rest of the mod's REDmods after the first one when it's dragged`, () => {
+    const dragged = [panam, poppy, guinevere, redmodVersion, panamSubmod];
+
+    expect(idsOf(groupREDmodsByVortexMod(dragged)))
+      .toEqual(idsOf([panam, panamSubmod, poppy, guinevere, redmodVersion]));
+  });
+
+  test(`put the other REDmods of a mod back with the first one`, () => {
+    const dragged = [panamSubmod, poppy, guinevere, redmodVersion, panam];
+
+    expect(idsOf(groupREDmodsByVortexMod(dragged)))
+      .toEqual(idsOf([poppy, guinevere, redmodVersion, panam, panamSubmod]));
+  });
+
+  test(`let the REDmods of an expanded mod be ordered individually`, () => {
+    const expanded = withGroupExpanded([panamSubmod, poppy, guinevere, redmodVersion, panam], PANAM_VORTEX_ID, true);
+
+    expect(isGroupExpanded(expanded, PANAM_VORTEX_ID)).toBe(true);
+    expect(idsOf(groupREDmodsByVortexMod(expanded)))
+      .toEqual(idsOf([panamSubmod, poppy, guinevere, redmodVersion, panam]));
+
+    const groupedAgain = withGroupExpanded(expanded, PANAM_VORTEX_ID, false);
+
+    expect(isGroupExpanded(groupedAgain, PANAM_VORTEX_ID)).toBe(false);
+    expect(idsOf(groupREDmodsByVortexMod(groupedAgain)))
+      .toEqual(idsOf([poppy, guinevere, redmodVersion, panam, panamSubmod]));
+  });
+
+  test(`are reflected in the v2077 load order when grouping`, () => {
+    const dragged = [panam, poppy, guinevere, redmodVersion, panamSubmod];
+
+    const grouped = makeV2077LoadOrderFrom(dragged, `profile`, Date.now(), true);
+    const ungrouped = makeV2077LoadOrderFrom(dragged, `profile`, Date.now());
+
+    expect(grouped.entriesInOrderWithEarlierWinning.map((entry) => entry.redmodName))
+      .toEqual([panam, panamSubmod, poppy, guinevere, redmodVersion].map((entry) => entry.data.redmodInfo.name));
+    expect(ungrouped.entriesInOrderWithEarlierWinning.map((entry) => entry.redmodName))
+      .toEqual(dragged.map((entry) => entry.data.redmodInfo.name));
+  });
+
+  test(`remember which mods are expanded in the v2077 load order`, () => {
+    const expanded = withGroupExpanded(loTestData.vortexLoadOrder, PANAM_VORTEX_ID, true);
+
+    const v2077LoadOrder = makeV2077LoadOrderFrom(expanded, `profile`, Date.now(), true);
+
+    expect(v2077LoadOrder.entriesInOrderWithEarlierWinning.map((entry) => entry.expanded))
+      .toEqual([undefined, undefined, undefined, true, true]);
+  });
+
+  describe(`Dragging`, () => {
+
+    test(`finds the one entry that was moved`, () => {
+      expect(movedEntryKeys([`a`, `b`, `c`, `d`], [`c`, `a`, `b`, `d`])).toEqual([`c`]);
+      expect(movedEntryKeys([`a`, `b`, `c`, `d`], [`a`, `b`, `c`, `d`])).toEqual([]);
+    });
+
+    test(`notices when a REDmod other than the first of a group was dragged`, () => {
+      const before = idsOf(loTestData.vortexLoadOrder);
+
+      const draggedMember = [panamSubmod, poppy, guinevere, redmodVersion, panam];
+      const draggedLead = [panam, poppy, guinevere, redmodVersion, panamSubmod];
+
+      expect(idsOf(draggedGroupMembers(before, draggedMember, keyOf))).toEqual([panamSubmod.id]);
+      expect(draggedGroupMembers(before, draggedLead, keyOf)).toEqual([]);
+    });
+
+    test(`doesn't mind REDmods of an expanded mod being dragged`, () => {
+      const before = idsOf(loTestData.vortexLoadOrder);
+
+      const draggedMember = withGroupExpanded(
+        [panamSubmod, poppy, guinevere, redmodVersion, panam],
+        PANAM_VORTEX_ID,
+        true,
+      );
+
+      expect(draggedGroupMembers(before, draggedMember, keyOf)).toEqual([]);
+    });
+  });
+
+  describe(`Loading`, () => {
+
+    const modA = loTestData.orderableVortexModWithREDmods(`modA`, [`A1`, `A2`]);
+    const modB = loTestData.orderableVortexModWithREDmods(`modB`, [`B`]);
+
+    const groupedContext = { ...loTestData.storedOrderContext, groupByVortexMod: true };
+
+    const reload = (loadOrder: VortexLoadOrderEntry[]): VortexLoadOrderEntry[] =>
+      makeVortexLoadOrderFromStoredOrder(
+        makeV2077LoadOrderFrom(loadOrder, `profile`, Date.now(), true).entriesInOrderWithEarlierWinning,
+        [modA, modB],
+        [],
+        groupedContext,
+      );
+
+    test(`keeps the individual order of an expanded group`, () => {
+      const [a1, a2, b] = withGroupExpanded(
+        makeVortexLoadOrderFromStoredOrder([], [modA, modB], [], groupedContext),
+        `modA`,
+        true,
+      );
+
+      const reloaded = reload([a2, b, a1]);
+
+      expect(reloaded.map((entry) => entry.data.redmodInfo.name)).toEqual([`A2`, `B`, `A1`]);
+      expect(isGroupExpanded(reloaded, `modA`)).toBe(true);
+    });
+
+    test(`keeps a collapsed group together`, () => {
+      const [a1, a2, b] = makeVortexLoadOrderFromStoredOrder([], [modA, modB], [], groupedContext);
+
+      expect(reload([b, a1, a2]).map((entry) => entry.data.redmodInfo.name)).toEqual([`B`, `A1`, `A2`]);
+    });
+  });
+});
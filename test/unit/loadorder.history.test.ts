@@ -0,0 +1,154 @@
+import {
+  diffLoadOrders,
+  matchLoadOrderSnapshot,
+  snapshotFilenameFor,
+  snapshotIdsIn,
+  snapshotIdsToPrune,
+} from "../../src/load_order.history";
+import {
+  LoadOrder,
+  LoadOrderEntry,
+  LoadOrderPin,
+} from "../../src/load_order.types";
+import {
+  mockedActiveProfile,
+} from "../shimmed/vortex-api-test-shimmed";
+
+import * as loTestData from "./loadorder.example";
+
+const entriesOf = (loadOrder: LoadOrder): LoadOrderEntry[] =>
+  loadOrder.entriesInOrderWithEarlierWinning;
+
+const loadOrderWith = (entries: LoadOrderEntry[]): LoadOrder => ({
+  ...loTestData.v2077LoadOrder,
+  entriesInOrderWithEarlierWinning: entries.map((entry, index) => ({ ...entry, index })),
+});
+
+const idsIn = (entries: readonly { id: string }[]): string[] =>
+  entries.map((entry) => entry.id);
+
+
+describe(`Load Order History`, () => {
+
+  describe(`Snapshots on disk`, () => {
+
+    test(`are found for the profile only, newest first`, () => {
+      const filenames = [
+        snapshotFilenameFor(mockedActiveProfile, 1000),
+        `V2077-load-order-${mockedActiveProfile.id}.json`,
+        snapshotFilenameFor({ ...mockedActiveProfile, id: `someoneElse` }, 3000),
+        snapshotFilenameFor(mockedActiveProfile, 2000),
+        `${snapshotFilenameFor(mockedActiveProfile, 4000)}.1234.tmp`,
+      ];
+
+      expect(snapshotIdsIn(mockedActiveProfile, filenames)).toEqual([2000, 1000]);
+    });
+
+    test(`beyond the retention limit are pruned, oldest first`, () => {
+      expect(snapshotIdsToPrune([5, 4, 3, 2, 1], 3)).toEqual([2, 1]);
+      expect(snapshotIdsToPrune([2, 1], 3)).toEqual([]);
+    });
+  });
+
+  describe(`Comparing`, () => {
+
+    test(`finds nothing when the load orders are the same`, () => {
+      expect(diffLoadOrders(loTestData.v2077LoadOrder, loTestData.v2077LoadOrder)).toEqual({
+        added: [],
+        removed: [],
+        moved: [],
+        enabledChanged: [],
+        userDetesChanged: [],
+      });
+    });
+
+    test(`finds added and removed REDmods without counting everything else as moved`, () => {
+      const [first, second, third, fourth] = entriesOf(loTestData.v2077LoadOrder);
+
+      const diff = diffLoadOrders(loadOrderWith([first, second, third]), loadOrderWith([second, third, fourth]));
+
+      expect(diff.added.map((entry) => entry.redmodName)).toEqual([fourth.redmodName]);
+      expect(diff.removed.map((entry) => entry.redmodName)).toEqual([first.redmodName]);
+      expect(diff.moved).toEqual([]);
+    });
+
+    test(`finds moved and toggled REDmods`, () => {
+      const [first, second, third] = entriesOf(loTestData.v2077LoadOrder);
+
+      const diff = diffLoadOrders(
+        loadOrderWith([first, second, third]),
+        loadOrderWith([third, first, { ...second, enabled: !second.enabled }]),
+      );
+
+      expect(diff.moved.map((move) => [move.entry.redmodName, move.from, move.to])).toEqual([
+        [third.redmodName, 2, 0],
+        [first.redmodName, 0, 1],
+        [second.redmodName, 1, 2],
+      ]);
+      expect(diff.enabledChanged.map((entry) => entry.redmodName)).toEqual([second.redmodName]);
+    });
+
+    test(`finds REDmods whose pin, note, load after rules or such changed`, () => {
+      const [first, second, third] = entriesOf(loTestData.v2077LoadOrder);
+
+      const diff = diffLoadOrders(
+        loadOrderWith([first, { ...second, loadsAfter: [first.redmodName] }, third]),
+        loadOrderWith([
+          { ...first, pin: LoadOrderPin.Top, note: `Needs to win` },
+          { ...second, loadsAfter: [first.redmodName] },
+          { ...third, userDisabled: true },
+        ]),
+      );
+
+      expect(diff.userDetesChanged.map((change) => [change.entry.redmodName, change.changed])).toEqual([
+        [first.redmodName, [`pin`, `note`]],
+        [third.redmodName, [`userDisabled`]],
+      ]);
+    });
+  });
+
+  describe(`Restoring`, () => {
+
+    test(`puts the REDmods back in the snapshot order, with anything newer after them`, () => {
+      const [first, second, third, ...rest] = loTestData.vortexLoadOrder;
+      const [, snapshotSecond, snapshotThird] = entriesOf(loTestData.v2077LoadOrder);
+
+      const restored = matchLoadOrderSnapshot(loadOrderWith([snapshotThird, snapshotSecond]), loTestData.vortexLoadOrder);
+
+      expect(idsIn(restored.loadOrder)).toEqual(idsIn([third, second, first, ...rest]));
+      expect(restored.missing).toEqual([]);
+    });
+
+    test(`reports REDmods that aren't installed anymore`, () => {
+      const [snapshotFirst] = entriesOf(loTestData.v2077LoadOrder);
+      const uninstalled = { ...snapshotFirst, vortexId: `gone` };
+
+      const restored = matchLoadOrderSnapshot(loadOrderWith([uninstalled, snapshotFirst]), loTestData.vortexLoadOrder);
+
+      expect(restored.missing.map((entry) => entry.vortexId)).toEqual([`gone`]);
+      expect(idsIn(restored.loadOrder)).toEqual(idsIn(loTestData.vortexLoadOrder));
+    });
+
+    test(`brings back pins, notes, load after rules and unticked REDmods from the snapshot`, () => {
+      const [snapshotFirst] = entriesOf(loTestData.v2077LoadOrder);
+
+      const withDetes: LoadOrderEntry = {
+        ...snapshotFirst,
+        pin: LoadOrderPin.Bottom,
+        note: `Was fine here`,
+        loadsAfter: [`Better_Apartment_Views`],
+        userDisabled: true,
+      };
+
+      const [restoredFirst] = matchLoadOrderSnapshot(loadOrderWith([withDetes]), loTestData.vortexLoadOrder).loadOrder;
+
+      expect(restoredFirst.enabled).toBe(false);
+      expect(restoredFirst.data).toMatchObject({
+        pin: LoadOrderPin.Bottom,
+        note: `Was fine here`,
+        loadsAfter: [`Better_Apartment_Views`],
+        userDisabled: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  masterlistSortChanges,
+  sortUsingMasterlist,
+} from "../../src/load_order.masterlist";
+import {
+  decodeMasterlist,
+  LoadOrderPin,
+  Masterlist,
+  MASTERLIST_TYPE_VERSION,
+  MasterlistEntry,
+} from "../../src/load_order.types";
+import {
+  VortexLoadOrderEntry,
+} from "../../src/vortex-wrapper";
+
+interface EntryDetes {
+  nexusModId?: string;
+  pin?: LoadOrderPin;
+  loadsAfter?: string[];
+}
+
+const entryFor = (name: string, detes: EntryDetes = {}): VortexLoadOrderEntry => ({
+  id: name,
+  enabled: true,
+  name,
+  data: {
+    ownerVortexProfileId: `xyZzyZx`,
+    vortexId: name,
+    vortexModId: detes.nexusModId,
+    vortexModVersion: `1.0`,
+    vortexEnabled: true,
+    redmodInfo: {
+      name,
+      version: `1.0`,
+      relativePath: `mods\\${name}`,
+      vortexModId: name,
+    },
+    pin: detes.pin,
+    loadsAfter: detes.loadsAfter,
+  },
+});
+
+const masterlistWith = (groups: string[], entries: MasterlistEntry[]): Masterlist => ({
+  masterlistFormatVersion: MASTERLIST_TYPE_VERSION,
+  groups,
+  entries,
+});
+
+const namesIn = (entries: readonly VortexLoadOrderEntry[]): string[] =>
+  entries.map((entry) => entry.id);
+
+
+describe(`Masterlist`, () => {
+
+  test(`decodes from JSON`, () => {
+    const masterlist = masterlistWith([`patch`, `default`, `base`], [
+      { redmodName: `A`, group: `patch` },
+      { nexusModId: `1234`, loadsAfter: [`A`] },
+    ]);
+
+    const decoded = decodeMasterlist(JSON.stringify(masterlist));
+
+    if (isLeft(decoded)) {
+      throw decoded.left;
+    }
+
+    expect(decoded.right).toEqual(masterlist);
+  });
+
+  describe(`Sorting`, () => {
+
+    test(`orders entries by group, keeping the current order within a group`, () => {
+      const loadOrder = [entryFor(`A`), entryFor(`B`), entryFor(`C`), entryFor(`D`)];
+      const masterlist = masterlistWith([`patch`, `overhaul`, `base`], [
+        { redmodName: `A`, group: `base` },
+        { redmodName: `B`, group: `patch` },
+        { redmodName: `C`, group: `overhaul` },
+        { redmodName: `D`, group: `patch` },
+      ]);
+
+      expect(namesIn(sortUsingMasterlist(loadOrder, masterlist))).toEqual([`B`, `D`, `C`, `A`]);
+    });
+
+    test(`puts unknown REDmods in the default group, or last if there isn't one`, () => {
+      const loadOrder = [entryFor(`Unknown`), entryFor(`A`), entryFor(`B`)];
+      const knownEntries = [
+        { redmodName: `A`, group: `base` },
+        { redmodName: `B`, group: `patch` },
+      ];
+
+      expect(namesIn(sortUsingMasterlist(loadOrder, masterlistWith([`patch`, `default`, `base`], knownEntries))))
+        .toEqual([`B`, `Unknown`, `A`]);
+      expect(namesIn(sortUsingMasterlist(loadOrder, masterlistWith([`patch`, `base`], knownEntries))))
+        .toEqual([`B`, `A`, `Unknown`]);
+    });
+
+    test(`matches by Nexus mod id when the REDmod name isn't listed`, () => {
+      const loadOrder = [entryFor(`A`), entryFor(`B`, { nexusModId: `1234` })];
+      const masterlist = masterlistWith([`patch`, `default`], [{ nexusModId: `1234`, group: `patch` }]);
+
+      expect(namesIn(sortUsingMasterlist(loadOrder, masterlist))).toEqual([`B`, `A`]);
+    });
+
+    test(`follows masterlist load after rules along with the user's own`, () => {
+      const loadOrder = [entryFor(`A`, { loadsAfter: [`C`] }), entryFor(`B`), entryFor(`C`)];
+      const masterlist = masterlistWith([], [{ redmodName: `B`, loadsAfter: [`A`] }]);
+
+      const sorted = sortUsingMasterlist(loadOrder, masterlist);
+
+      expect(namesIn(sorted)).toEqual([`C`, `A`, `B`]);
+      expect(sorted[2]).toBe(loadOrder[1]);
+    });
+
+    test(`keeps pinned REDmods pinned`, () => {
+      const loadOrder = [entryFor(`A`, { pin: LoadOrderPin.Top }), entryFor(`B`)];
+      const masterlist = masterlistWith([`patch`, `base`], [
+        { redmodName: `A`, group: `base` },
+        { redmodName: `B`, group: `patch` },
+      ]);
+
+      expect(namesIn(sortUsingMasterlist(loadOrder, masterlist))).toEqual([`A`, `B`]);
+    });
+  });
+
+  test(`reports only the REDmods that moved`, () => {
+    const before = [entryFor(`A`), entryFor(`B`), entryFor(`C`)];
+    const after = [before[1], before[0], before[2]];
+
+    expect(masterlistSortChanges(before, after)).toEqual([
+      { redmodName: `B`, from: 1, to: 0 },
+      { redmodName: `A`, from: 0, to: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  isLeft,
+} from "fp-ts/lib/Either";
+import {
+  makePortableLoadOrderFrom,
+  matchPortableLoadOrder,
+} from "../../src/load_order.portable";
+import {
+  decodePortableLoadOrder,
+  encodePortableLoadOrder,
+  PortableLoadOrder,
+  PortableLoadOrderEntry,
+} from "../../src/load_order.types";
+
+import * as loTestData from "./loadorder.example";
+
+const FAKE_DATE = Date.parse(`2022-10-01T00:00:00.000Z`);
+
+const portableWith = (entries: PortableLoadOrderEntry[]): PortableLoadOrder => ({
+  ...makePortableLoadOrderFrom([], FAKE_DATE),
+  entriesInOrderWithEarlierWinning: entries,
+});
+
+const idsIn = (entries: readonly { id: string }[]): string[] =>
+  entries.map((entry) => entry.id);
+
+
+describe(`Portable Load Order`, () => {
+
+  test(`is keyed by Nexus mod id, file version and REDmod name`, () => {
+    const portable = makePortableLoadOrderFrom(loTestData.vortexLoadOrder, FAKE_DATE);
+
+    expect(portable.entriesInOrderWithEarlierWinning[2]).toEqual({
+      nexusModId: `5401`,
+      fileVersion: `1.e3`,
+      redmodName: `Better_Apartment_Views`,
+      enabled: true,
+    });
+
+    const decoded = decodePortableLoadOrder(encodePortableLoadOrder(portable));
+
+    if (isLeft(decoded)) {
+      throw decoded.left;
+    }
+
+    expect(decoded.right).toEqual(JSON.parse(encodePortableLoadOrder(portable)));
+  });
+
+  test(`exported order imports back as is`, () => {
+    const portable = makePortableLoadOrderFrom(loTestData.vortexLoadOrder, FAKE_DATE);
+
+    const imported = matchPortableLoadOrder(portable, loTestData.vortexLoadOrder);
+
+    expect(idsIn(imported.loadOrder)).toEqual(idsIn(loTestData.vortexLoadOrder));
+    expect(imported.missing).toEqual([]);
+    expect(imported.differentVersion).toEqual([]);
+  });
+
+  test(`REDmods that were unticked in the exported order are unticked on import`, () => {
+    const [first, ...rest] = loTestData.vortexLoadOrder;
+    const unticked = { ...first, enabled: false };
+
+    const portable = makePortableLoadOrderFrom([unticked, ...rest], FAKE_DATE);
+
+    expect(portable.entriesInOrderWithEarlierWinning[0].enabled).toBe(false);
+
+    const [importedFirst, importedSecond] = matchPortableLoadOrder(portable, loTestData.vortexLoadOrder).loadOrder;
+
+    expect(importedFirst.enabled).toBe(false);
+    expect(importedFirst.data.userDisabled).toBe(true);
+    expect(importedSecond.enabled).toBe(true);
+    expect(importedSecond.data.userDisabled).toBeUndefined();
+  });
+
+  test(`imported entries go first in order, the rest keep their current order after them`, () => {
+    const [first, second, third, ...rest] = loTestData.vortexLoadOrder;
+    const [portableFirst, , portableThird] =
+      makePortableLoadOrderFrom(loTestData.vortexLoadOrder, FAKE_DATE).entriesInOrderWithEarlierWinning;
+
+    const imported = matchPortableLoadOrder(portableWith([portableThird, portableFirst]), loTestData.vortexLoadOrder);
+
+    expect(idsIn(imported.loadOrder)).toEqual(idsIn([third, first, second, ...rest]));
+  });
+
+  test(`reports mods that aren't installed and ones with a different version`, () => {
+    const notInstalled: PortableLoadOrderEntry = {
+      nexusModId: `9999`,
+      fileVersion: `1.0`,
+      redmodName: `SomethingElse`,
+      enabled: true,
+    };
+
+    const newerVersion: PortableLoadOrderEntry = {
+      nexusModId: `5401`,
+      fileVersion: `2.0`,
+      redmodName: `Better_Apartment_Views`,
+      enabled: true,
+    };
+
+    const imported = matchPortableLoadOrder(portableWith([notInstalled, newerVersion]), loTestData.vortexLoadOrder);
+
+    expect(imported.missing).toEqual([notInstalled]);
+    expect(imported.differentVersion).toEqual([newerVersion]);
+    expect(imported.loadOrder[0].id).toEqual(`redmod version-5401-1-e3-1664115429`);
+  });
+
+  test(`falls back to the REDmod name when the Nexus mod id doesn't match`, () => {
+    const manuallyInstalledHere: PortableLoadOrderEntry = {
+      nexusModId: `5401`,
+      fileVersion: ``,
+      redmodName: `AuskaWorks - Guinevere's Always-On Chrome`,
+      enabled: true,
+    };
+
+    const imported = matchPortableLoadOrder(portableWith([manuallyInstalledHere]), loTestData.vortexLoadOrder);
+
+    expect(imported.missing).toEqual([]);
+    expect(imported.loadOrder[0].id).toEqual(`Guinevere's Always-On Chrome v1.0.0`);
+  });
+});
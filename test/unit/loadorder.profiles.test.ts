@@ -0,0 +1,114 @@
+import {
+  mockDeep,
+} from "jest-mock-extended";
+import {
+  GAME_ID,
+} from "../../src/index.metadata";
+import {
+  matchProfileLoadOrder,
+} from "../../src/load_order.profiles";
+import {
+  LoadOrder,
+  LoadOrderEntry,
+  LoadOrderPin,
+} from "../../src/load_order.types";
+import {
+  LoadOrderCopyChoices,
+  promptUserToChooseProfileToCopyLoadOrderFrom,
+} from "../../src/ui.dialogs";
+import {
+  VortexApi,
+  VortexProfile,
+} from "../../src/vortex-wrapper";
+
+import * as loTestData from "./loadorder.example";
+
+const loadOrderWith = (entries: LoadOrderEntry[]): LoadOrder => ({
+  ...loTestData.v2077LoadOrder,
+  entriesInOrderWithEarlierWinning: entries.map((entry, index) => ({ ...entry, index })),
+});
+
+const idsIn = (entries: readonly { id: string }[]): string[] =>
+  entries.map((entry) => entry.id);
+
+
+describe(`Profile Load Orders`, () => {
+
+  describe(`Copying`, () => {
+
+    test(`puts the REDmods in the other profile's order, with anything not in it after them`, () => {
+      const [first, second, third, ...rest] = loTestData.vortexLoadOrder;
+      const [, otherSecond, otherThird] = loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning;
+
+      const copied = matchProfileLoadOrder(loadOrderWith([otherThird, otherSecond]), loTestData.vortexLoadOrder);
+
+      expect(idsIn(copied.loadOrder)).toEqual(idsIn([third, second, first, ...rest]));
+      expect(copied.missing).toEqual([]);
+    });
+
+    test(`falls back to the Nexus mod when the Vortex mod is a different copy`, () => {
+      const [, , third] = loTestData.vortexLoadOrder;
+      const [, , otherThird] = loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning;
+
+      const reinstalled = { ...otherThird, vortexId: `redmod version-5401-1-e3-9999999999` };
+
+      const copied = matchProfileLoadOrder(loadOrderWith([reinstalled]), loTestData.vortexLoadOrder);
+
+      expect(copied.loadOrder[0].id).toEqual(third.id);
+      expect(copied.missing).toEqual([]);
+    });
+
+    test(`reports REDmods that couldn't be matched`, () => {
+      const [otherFirst] = loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning;
+
+      const notHere = { ...otherFirst, vortexId: `gone`, vortexModId: undefined };
+
+      const copied = matchProfileLoadOrder(loadOrderWith([notHere]), loTestData.vortexLoadOrder);
+
+      expect(copied.missing.map((entry) => entry.vortexId)).toEqual([`gone`]);
+      expect(idsIn(copied.loadOrder)).toEqual(idsIn(loTestData.vortexLoadOrder));
+    });
+
+    test(`brings along pins, notes, rules and unticking`, () => {
+      const [otherFirst] = loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning;
+
+      const withDetes: LoadOrderEntry = {
+        ...otherFirst,
+        pin: LoadOrderPin.Top,
+        note: `Needs to win`,
+        loadsAfter: [`Better_Apartment_Views`],
+        userDisabled: true,
+      };
+
+      const [copiedFirst] = matchProfileLoadOrder(loadOrderWith([withDetes]), loTestData.vortexLoadOrder).loadOrder;
+
+      expect(copiedFirst.enabled).toBe(false);
+      expect(copiedFirst.data).toMatchObject({
+        pin: LoadOrderPin.Top,
+        note: `Needs to win`,
+        loadsAfter: [`Better_Apartment_Views`],
+        userDisabled: true,
+      });
+    });
+
+    test(`lets the user choose between profiles with the same name`, async () => {
+      const profiles = [`first`, `second`].map((id): VortexProfile => ({
+        id,
+        gameId: GAME_ID,
+        name: `Default`,
+        modState: {},
+        lastActivated: 0,
+      }));
+
+      const mockVortexApi = mockDeep<VortexApi>();
+      mockVortexApi.showDialog.mockResolvedValue({
+        action: LoadOrderCopyChoices.Copy,
+        input: { first: false, second: true },
+      });
+
+      const chosen = await promptUserToChooseProfileToCopyLoadOrderFrom(mockVortexApi, profiles);
+
+      expect(chosen?.id).toBe(`second`);
+    });
+  });
+});
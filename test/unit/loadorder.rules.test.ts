@@ -0,0 +1,100 @@
+import {
+  findLoadAfterCycles,
+  sortByLoadAfterRules,
+} from "../../src/load_order.rules";
+import {
+  VortexLoadOrderEntry,
+} from "../../src/vortex-wrapper";
+
+const entryFor = (name: string, loadsAfter?: string[]): VortexLoadOrderEntry => ({
+  id: name,
+  enabled: true,
+  name,
+  data: {
+    ownerVortexProfileId: `xyZzyZx`,
+    vortexId: name,
+    vortexModVersion: `1.0`,
+    vortexEnabled: true,
+    redmodInfo: {
+      name,
+      version: `1.0`,
+      relativePath: `mods\\${name}`,
+      vortexModId: name,
+    },
+    loadsAfter,
+  },
+});
+
+const namesIn = (entries: readonly VortexLoadOrderEntry[]): string[] =>
+  entries.map((entry) => entry.id);
+
+
+describe(`Load after rules`, () => {
+
+  describe(`Sorting`, () => {
+
+    test(`keeps the current order when there are no rules`, () => {
+      const loadOrder = [entryFor(`A`), entryFor(`B`), entryFor(`C`)];
+
+      expect(namesIn(sortByLoadAfterRules(loadOrder))).toEqual([`A`, `B`, `C`]);
+    });
+
+    test(`moves an entry after the ones it loads after, keeping the rest in place`, () => {
+      const loadOrder = [entryFor(`A`, [`C`]), entryFor(`B`), entryFor(`C`), entryFor(`D`)];
+
+      expect(namesIn(sortByLoadAfterRules(loadOrder))).toEqual([`B`, `C`, `A`, `D`]);
+    });
+
+    test(`follows chains of rules`, () => {
+      const loadOrder = [entryFor(`A`, [`B`]), entryFor(`B`, [`C`]), entryFor(`C`)];
+
+      expect(namesIn(sortByLoadAfterRules(loadOrder))).toEqual([`C`, `B`, `A`]);
+    });
+
+    test(`ignores rules for REDmods that aren't in the load order`, () => {
+      const loadOrder = [entryFor(`A`, [`Gone`]), entryFor(`B`)];
+
+      expect(namesIn(sortByLoadAfterRules(loadOrder))).toEqual([`A`, `B`]);
+    });
+
+    test(`leaves entries in a cycle after everything else in their current order`, () => {
+      const loadOrder = [entryFor(`A`, [`B`]), entryFor(`B`, [`A`]), entryFor(`C`)];
+
+      expect(namesIn(sortByLoadAfterRules(loadOrder))).toEqual([`C`, `A`, `B`]);
+    });
+  });
+
+  describe(`Cycles`, () => {
+
+    test(`aren't found when the rules can all be followed`, () => {
+      const loadOrder = [entryFor(`A`, [`B`, `C`]), entryFor(`B`, [`C`]), entryFor(`C`)];
+
+      expect(findLoadAfterCycles(loadOrder)).toEqual([]);
+    });
+
+    test(`are found with every REDmod involved`, () => {
+      const loadOrder = [
+        entryFor(`A`, [`C`]),
+        entryFor(`B`, [`A`]),
+        entryFor(`C`, [`B`]),
+        entryFor(`D`, [`A`]),
+      ];
+
+      expect(findLoadAfterCycles(loadOrder).map(namesIn)).toEqual([[`A`, `B`, `C`]]);
+    });
+
+    test(`are found separately when there's more than one`, () => {
+      const loadOrder = [
+        entryFor(`A`, [`B`]),
+        entryFor(`B`, [`A`]),
+        entryFor(`C`, [`D`]),
+        entryFor(`D`, [`C`]),
+      ];
+
+      expect(findLoadAfterCycles(loadOrder).map(namesIn)).toEqual(expect.arrayContaining([
+        [`A`, `B`],
+        [`C`, `D`],
+      ]));
+    });
+  });
+});
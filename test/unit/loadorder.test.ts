@@ -7,13 +7,21 @@ import {
   decodeLoadOrder,
   encodeLoadOrder,
   LoadOrder,
+  LoadOrderPin,
+  LoadOrderV1,
   LOAD_ORDER_TYPE_VERSION,
+  LOAD_ORDER_TYPE_VERSION_V1,
   ModList,
+  byPinTopFirstBottomLast,
 } from "../../src/load_order.types";
 import {
   loadOrderToREDdeployModList,
   makeV2077LoadOrderFrom,
+  makeVortexLoadOrderEntryForUnmanagedREDmod,
+  makeVortexLoadOrderFromStoredOrder,
   redmodDeployRunParameters,
+  redmodSubtypesIn,
+  unmanagedREDmodDirsIn,
 } from "../../src/load_order";
 import {
   REDdeployManual,
@@ -26,6 +34,10 @@ import {
   V2077_MODLIST_PATH,
 } from "../../src/redmodding.metadata";
 
+import {
+  mockedActiveProfile,
+} from "../shimmed/vortex-api-test-shimmed";
+
 import * as loTestData from "./loadorder.example";
 
 const FAKE_GAMEDIR_PATH = `C:\\fake\\gamedir`;
@@ -49,6 +61,9 @@ describe(`Load Order`, () => {
             redmodVersion: `testredmodversion`,
             redmodPath: `testredmodpath`,
             enabled: true,
+            index: 0,
+            pin: LoadOrderPin.Top,
+            note: `testnote`,
           },
         ],
       };
@@ -64,9 +79,131 @@ describe(`Load Order`, () => {
       expect(decoded.right).toEqual(loadOrder);
     });
 
+    test(`v1 load order is migrated to the current version with indices from its order`, () => {
+      const loadOrderV1: LoadOrderV1 = {
+        loadOrderFormatVersion: LOAD_ORDER_TYPE_VERSION_V1,
+        ownerVortexProfileId: `testprofileid`,
+        generatedAt: `2021-01-01T00:00:00.000Z`,
+        entriesInOrderWithEarlierWinning: loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning
+          .map(({ index: _index, ...entryV1 }) => entryV1),
+      };
+
+      const decoded = decodeLoadOrder(JSON.stringify(loadOrderV1));
+
+      if (isLeft(decoded)) {
+        throw decoded.left;
+      }
+
+      expect(decoded.right).toEqual({
+        ...loTestData.v2077LoadOrder,
+        ownerVortexProfileId: `testprofileid`,
+        generatedAt: `2021-01-01T00:00:00.000Z`,
+      });
+    });
+
+    test(`unknown load order versions still fail to decode`, () => {
+      const decoded = decodeLoadOrder(JSON.stringify({
+        ...loTestData.v2077LoadOrder,
+        loadOrderFormatVersion: `0.1.0`,
+      }));
+
+      expect(isLeft(decoded)).toBe(true);
+    });
+
   }); // Types and Serialization
 
 
+  describe(`Pins`, () => {
+
+    test(`pinned entries sort to the top or bottom regardless of anything else`, () => {
+      const [first, second, third] = loTestData.vortexLoadOrder;
+
+      const pinnedToBottom = { ...first, data: { ...first.data, pin: LoadOrderPin.Bottom } };
+      const pinnedToTop = { ...third, data: { ...third.data, pin: LoadOrderPin.Top } };
+
+      const sorted = [pinnedToBottom, second, pinnedToTop].sort(byPinTopFirstBottomLast.compare);
+
+      expect(sorted).toEqual([pinnedToTop, second, pinnedToBottom]);
+    });
+
+    test(`pins and notes are kept in the stored load order`, () => {
+      const [first, ...rest] = loTestData.vortexLoadOrder;
+
+      const withNote = { ...first, data: { ...first.data, pin: LoadOrderPin.Top, note: `Needs to win` } };
+
+      const generated = makeV2077LoadOrderFrom([withNote, ...rest], `xyZzyZx`, Date.now());
+
+      expect(generated.entriesInOrderWithEarlierWinning[0]).toMatchObject({
+        index: 0,
+        pin: LoadOrderPin.Top,
+        note: `Needs to win`,
+      });
+    });
+
+  }); // Pins
+
+
+  describe(`Toggling REDmods`, () => {
+
+    test(`an unticked REDmod is left out of the modlist and remembered, while the rest of its mod isn't`, () => {
+      const [first, second, ...rest] = loTestData.vortexLoadOrder;
+
+      const unticked = { ...second, enabled: false };
+
+      const generated = makeV2077LoadOrderFrom([first, unticked, ...rest], `xyZzyZx`, Date.now());
+
+      expect(generated.entriesInOrderWithEarlierWinning[1]).toMatchObject({
+        enabled: false,
+        userDisabled: true,
+      });
+      expect(generated.entriesInOrderWithEarlierWinning[0].userDisabled).toBeUndefined();
+      expect(loadOrderToREDdeployModList(generated))
+        .toEqual(loTestData.v2077ModList.filter((dir) => dir !== path.win32.basename(second.data.redmodInfo.relativePath)));
+    });
+
+    test(`the choice is kept while the whole Vortex mod is disabled`, () => {
+      const [first, ...rest] = loTestData.vortexLoadOrder;
+
+      const disabledWhileUnticked = {
+        ...first,
+        enabled: false,
+        data: { ...first.data, vortexEnabled: false, userDisabled: true },
+      };
+      const disabledWhileTicked = {
+        ...first,
+        enabled: false,
+        data: { ...first.data, vortexEnabled: false },
+      };
+
+      const [whileUnticked] = makeV2077LoadOrderFrom([disabledWhileUnticked, ...rest], `xyZzyZx`, Date.now())
+        .entriesInOrderWithEarlierWinning;
+      const [whileTicked] = makeV2077LoadOrderFrom([disabledWhileTicked, ...rest], `xyZzyZx`, Date.now())
+        .entriesInOrderWithEarlierWinning;
+
+      expect(whileUnticked).toMatchObject({ enabled: false, userDisabled: true });
+      expect(whileTicked.enabled).toBe(false);
+      expect(whileTicked.userDisabled).toBeUndefined();
+    });
+
+    test(`unmanaged REDmods can be unticked too`, () => {
+      const external = makeVortexLoadOrderEntryForUnmanagedREDmod(
+        {
+          name: `MyOwnMod`,
+          version: `1.0`,
+          relativePath: `mods\\MyOwnMod`,
+          vortexModId: undefined,
+        },
+        {},
+        mockedActiveProfile,
+        { userDisabled: true },
+      );
+
+      expect(external.enabled).toBe(false);
+    });
+
+  }); // Toggling REDmods
+
+
   describe(`Vortex load order to v2077 load order mapping`, () => {
 
     test(`makeV2077LoadOrderFrom Vortex load order does exactly that`, () => {
@@ -91,6 +228,80 @@ describe(`Load Order`, () => {
   });
 
 
+  describe(`Unmanaged REDmods`, () => {
+
+    test(`only dirs that aren't deployed by a Vortex mod are unmanaged`, () => {
+      const managedPaths = [`mods\\Better_Apartment_Views`, `mods\\PanamRomancedEnhanced`];
+
+      expect(unmanagedREDmodDirsIn([`better_apartment_views`, `MyOwnMod`, `PanamRomancedEnhanced`], managedPaths))
+        .toEqual([`MyOwnMod`]);
+    });
+
+    test(`are included in the load order and the modlist, even when new`, () => {
+      const external = makeVortexLoadOrderEntryForUnmanagedREDmod(
+        {
+          name: `MyOwnMod`,
+          version: `1.0`,
+          relativePath: `mods\\MyOwnMod`,
+          vortexModId: undefined,
+        },
+        {},
+        mockedActiveProfile,
+      );
+
+      const v2077LoadOrder =
+        makeV2077LoadOrderFrom([...loTestData.vortexLoadOrder, external], mockedActiveProfile.id, Date.now());
+
+      expect(v2077LoadOrder.entriesInOrderWithEarlierWinning.slice(-1)[0]).toMatchObject({
+        redmodName: `MyOwnMod`,
+        redmodPath: `mods\\MyOwnMod`,
+        enabled: true,
+        external: true,
+      });
+
+      expect(loadOrderToREDdeployModList(v2077LoadOrder)).toEqual([...loTestData.v2077ModList, `MyOwnMod`]);
+    });
+
+  }); // Unmanaged REDmods
+
+
+  describe(`Stored order`, () => {
+
+    test(`keeps the position of every REDmod in a Vortex mod, even when it isn't in dirname order`, () => {
+      const modA = loTestData.orderableVortexModWithREDmods(`modA`, [`A1`, `A2`]);
+      const modB = loTestData.orderableVortexModWithREDmods(`modB`, [`B`]);
+
+      const fresh = makeVortexLoadOrderFromStoredOrder([], [modA, modB], [], loTestData.storedOrderContext);
+
+      expect(fresh.map((entry) => entry.data.redmodInfo.name)).toEqual([`A1`, `A2`, `B`]);
+
+      const [a1, a2, b] = fresh;
+
+      const userOrdered = [a2, b, a1];
+
+      const stored = makeV2077LoadOrderFrom(userOrdered, mockedActiveProfile.id, Date.now());
+
+      const reloaded = makeVortexLoadOrderFromStoredOrder(
+        stored.entriesInOrderWithEarlierWinning,
+        [modA, modB],
+        [],
+        loTestData.storedOrderContext,
+      );
+
+      expect(reloaded.map((entry) => entry.id)).toEqual(userOrdered.map((entry) => entry.id));
+    });
+  });
+
+
+  describe(`REDmod details in the load order`, () => {
+
+    test(`subtypes are the known dirs in the REDmod, regardless of case`, () => {
+      expect(redmodSubtypesIn([`Archives`, `scripts`, `random`, `info.json`])).toEqual([`archives`, `scripts`]);
+      expect(redmodSubtypesIn([])).toEqual([]);
+    });
+  });
+
+
   describe(`REDdeploy parameter generation`, () => {
 
     test(`produces correctly formatted parameter list with all necessary parameters`, () => {
@@ -168,6 +379,14 @@ describe(`Load Order`, () => {
       expect(redDeployModListGenerated).toEqual(expectedModList);
     });
 
+    test(`leaves out -force when the deployment doesn't need it`, () => {
+      const redDeployParamsGenerated =
+        redmodDeployRunParameters(FAKE_GAMEDIR_PATH, false);
+
+      expect(redDeployParamsGenerated.args).not.toContain(`-force`);
+      expect(redDeployParamsGenerated.args[0]).toEqual(`deploy`);
+    });
+
   }); // Load Order
 
 }); // Load Order
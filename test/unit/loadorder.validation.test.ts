@@ -0,0 +1,102 @@
+import {
+  customSoundFilesRequiredBy,
+  findDuplicateREDmodDirs,
+  findREDmodsNotInGameDir,
+} from "../../src/load_order.validation";
+import {
+  VortexLoadOrderEntry,
+} from "../../src/vortex-wrapper";
+
+import {
+  fs,
+} from "../shimmed/vortex-api-test-shimmed";
+
+import * as loTestData from "./loadorder.example";
+
+const installedAgainBy = (entry: VortexLoadOrderEntry, vortexId: string, dir: string): VortexLoadOrderEntry => ({
+  ...entry,
+  id: vortexId,
+  data: {
+    ...entry.data,
+    vortexId,
+    redmodInfo: { ...entry.data.redmodInfo, name: `${vortexId} REDmod`, relativePath: `mods\\${dir}` },
+  },
+});
+
+
+describe(`Load Order Validation`, () => {
+
+  describe(`Duplicate REDmod dirs`, () => {
+
+    test(`aren't found when every REDmod has its own dir`, () => {
+      expect(findDuplicateREDmodDirs(loTestData.vortexLoadOrder)).toEqual([]);
+    });
+
+    test(`are reported for each of the Vortex mods that install them, regardless of case`, () => {
+      const [first, ...rest] = loTestData.vortexLoadOrder;
+      const duplicate = installedAgainBy(rest[0], `someOtherMod`, `#poppy dress (V2077 AUTOCONVERTED)`);
+
+      const problems = findDuplicateREDmodDirs([first, duplicate, ...rest]);
+
+      expect(problems.map((problem) => problem.id)).toEqual([first.id, duplicate.id]);
+      expect(problems[0].reason).toContain(duplicate.data.redmodInfo.name);
+      expect(problems[1].reason).toContain(first.data.redmodInfo.name);
+    });
+
+    test(`don't matter when one of the Vortex mods is disabled`, () => {
+      const [first, ...rest] = loTestData.vortexLoadOrder;
+      const duplicate = installedAgainBy(rest[0], `someOtherMod`, `#POPPY DRESS (V2077 Autoconverted)`);
+
+      const disabled = { ...duplicate, enabled: false, data: { ...duplicate.data, vortexEnabled: false } };
+
+      expect(findDuplicateREDmodDirs([first, disabled, ...rest])).toEqual([]);
+    });
+
+    test(`don't matter when one of the REDmods is unticked in the load order`, () => {
+      const [first, ...rest] = loTestData.vortexLoadOrder;
+      const duplicate = installedAgainBy(rest[0], `someOtherMod`, `#POPPY DRESS (V2077 Autoconverted)`);
+
+      const unticked = { ...duplicate, enabled: false };
+
+      expect(findDuplicateREDmodDirs([first, unticked, ...rest])).toEqual([]);
+    });
+  });
+
+  describe(`REDmods missing from the game dir`, () => {
+
+    test(`are problems on their own entries, unless they're not to be deployed`, async () => {
+      const [first, second, third, ...rest] = loTestData.vortexLoadOrder;
+      const unticked = { ...third, enabled: false };
+
+      const missingDir = first.data.redmodInfo.relativePath;
+      const missingUntickedDir = unticked.data.redmodInfo.relativePath;
+
+      (fs.statAsync as jest.Mock).mockImplementation((pathOnDisk: string) =>
+        (pathOnDisk.endsWith(missingDir) || pathOnDisk.endsWith(missingUntickedDir)
+          ? Promise.reject(new Error(`ENOENT`))
+          : Promise.resolve({})));
+
+      const problems = await findREDmodsNotInGameDir(`C:\\game`, [first, second, unticked, ...rest]);
+
+      expect(problems.map((problem) => problem.id)).toEqual([first.id]);
+      expect(problems[0].reason).toContain(missingDir);
+    });
+  });
+
+  describe(`Custom sounds`, () => {
+
+    test(`need their files unless they're skipped`, () => {
+      const files = customSoundFilesRequiredBy({
+        name: `LoudMod`,
+        version: `1.0`,
+        customSounds: [
+          { name: `hi`, type: `mod_sfx_2d`, file: `hi.wav` },
+          { name: `bye`, type: `mod_skip` },
+          { name: `nofile`, type: `mod_sfx_radio` },
+        ],
+      });
+
+      expect(files).toEqual([`customSounds\\hi.wav`]);
+    });
+  });
+});
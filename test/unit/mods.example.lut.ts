@@ -0,0 +1,121 @@
+import path from "path";
+import {
+  CONFIG_RESHADE_MOD_SHADER_BASEDIR,
+  LUT_MOD_CANON_DIR,
+  MODS_EXTRA_BASEDIR,
+} from "../../src/installers.layouts";
+import {
+  InstallerType,
+} from "../../src/installers.types";
+import {
+  InfoNotification,
+} from "../../src/ui.notifications";
+import {
+  ExampleSucceedingMod,
+  ExampleFailingMod,
+  ExamplePromptInstallableMod,
+  ExamplesForType,
+  ARCHIVE_PREFIX,
+  FAKE_MOD_NAME,
+  copiedToSamePath,
+  movedFromTo,
+  mergeOrFailOnConflict,
+  pathHierarchyFor,
+} from "./utils.helper";
+
+const LUT_PREFIXES = pathHierarchyFor(LUT_MOD_CANON_DIR);
+const RESHADE_TEXTURES_DIR = path.join(CONFIG_RESHADE_MOD_SHADER_BASEDIR, `Textures`);
+
+const LUTModSucceeds = new Map<string, ExampleSucceedingMod>(
+  Object.entries({
+    lutWithTexturesInCanonicalDir: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        ...LUT_PREFIXES,
+        path.join(`${LUT_MOD_CANON_DIR}\\neutral.dds`),
+        path.join(`${LUT_MOD_CANON_DIR}\\warm.xbm`),
+      ],
+      outInstructions: [
+        copiedToSamePath(`${LUT_MOD_CANON_DIR}\\neutral.dds`),
+        copiedToSamePath(`${LUT_MOD_CANON_DIR}\\warm.xbm`),
+      ],
+    },
+    lutWithTexturesInCanonicalSubdirs: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        ...LUT_PREFIXES,
+        path.join(`${LUT_MOD_CANON_DIR}\\day\\`),
+        path.join(`${LUT_MOD_CANON_DIR}\\day\\neutral.dds`),
+        path.join(`${LUT_MOD_CANON_DIR}\\night\\`),
+        path.join(`${LUT_MOD_CANON_DIR}\\night\\cold.dds`),
+      ],
+      outInstructions: [
+        copiedToSamePath(`${LUT_MOD_CANON_DIR}\\day\\neutral.dds`),
+        copiedToSamePath(`${LUT_MOD_CANON_DIR}\\night\\cold.dds`),
+      ],
+    },
+    lutTexturesAtToplevelAreMovedToCanonicalDir: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        path.join(`MyLUT.dds`),
+        path.join(`lut_night.xbm`),
+      ],
+      outInstructions: [
+        movedFromTo(`MyLUT.dds`, `${LUT_MOD_CANON_DIR}\\MyLUT.dds`),
+        movedFromTo(`lut_night.xbm`, `${LUT_MOD_CANON_DIR}\\lut_night.xbm`),
+      ],
+    },
+    lutPackArchiveAtToplevelIsMovedToArchiveDir: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        path.join(`Cinematic LUTs.archive`),
+      ],
+      outInstructions: [
+        movedFromTo(`Cinematic LUTs.archive`, `${ARCHIVE_PREFIX}\\Cinematic LUTs.archive`),
+      ],
+    },
+    lutPackAtToplevelWithReadmeMovesReadmeToExtraFiles: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        path.join(`LUT Pack.archive`),
+        path.join(`readme.txt`),
+      ],
+      outInstructions: [
+        movedFromTo(`LUT Pack.archive`, `${ARCHIVE_PREFIX}\\LUT Pack.archive`),
+        movedFromTo(`readme.txt`, `${MODS_EXTRA_BASEDIR}\\${FAKE_MOD_NAME}\\readme.txt`),
+      ],
+      infoNotificationId: InfoNotification.InstallerExtraFilesMoved,
+    },
+    lutReshadeTexturesInGameDirAreInstalledAsIs: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        ...pathHierarchyFor(RESHADE_TEXTURES_DIR),
+        path.join(`${RESHADE_TEXTURES_DIR}\\MultiLut_Cyberpunk.png`),
+      ],
+      outInstructions: [
+        copiedToSamePath(`${RESHADE_TEXTURES_DIR}\\MultiLut_Cyberpunk.png`),
+      ],
+    },
+    lutReshadeTexturesAtToplevelAreMovedToGameDir: {
+      expectedInstallerType: InstallerType.LUT,
+      inFiles: [
+        path.join(`reshade-shaders\\`),
+        path.join(`reshade-shaders\\Textures\\`),
+        path.join(`reshade-shaders\\Textures\\lut.png`),
+        path.join(`reshade-shaders\\Textures\\lut_warm.png`),
+      ],
+      outInstructions: [
+        movedFromTo(`reshade-shaders\\Textures\\lut.png`, `${RESHADE_TEXTURES_DIR}\\lut.png`),
+        movedFromTo(`reshade-shaders\\Textures\\lut_warm.png`, `${RESHADE_TEXTURES_DIR}\\lut_warm.png`),
+      ],
+    },
+  }),
+);
+
+const examples: ExamplesForType = {
+  AllExpectedSuccesses: mergeOrFailOnConflict(LUTModSucceeds),
+  AllExpectedDirectFailures: new Map<string, ExampleFailingMod>(),
+  AllExpectedPromptInstalls: new Map<string, ExamplePromptInstallableMod>(),
+};
+
+export default examples;
@@ -37,6 +37,7 @@ import {
   addedMetadataAttribute,
   FAKE_MOD_INFO,
   addedREDmodInfoArrayAttribute,
+  pathHierarchyFor,
 } from "./utils.helper";
 
 
@@ -51,6 +52,9 @@ const myREDmodInfoForVortex: REDmodInfoForVortex = {
 };
 const myREDmodInfoJson = jsonpp(myREDModInfo);
 
+const DEEP_GIFTWRAP_PREFIX = path.join(GIFTWRAP_PREFIX, `Fancy Mod v1.2`);
+const DEEPER_GIFTWRAP_PREFIX = path.join(GIFTWRAP_PREFIX, `Fancy Mod v1.2`, `files`);
+
 
 const GiftwrappedModsFixable = new Map<string, ExampleSucceedingMod>([
   [
@@ -128,6 +132,44 @@ const GiftwrappedModsFixable = new Map<string, ExampleSucceedingMod>([
       ],
     },
   ],
+  [
+    `archive mod inside two levels of 'giftwrap' directories`,
+    {
+      expectedInstallerType: InstallerType.Archive,
+      inFiles: [
+        ...pathHierarchyFor(path.join(DEEP_GIFTWRAP_PREFIX, ARCHIVE_PREFIX)),
+        path.join(DEEP_GIFTWRAP_PREFIX, ARCHIVE_PREFIX, `magicgoeshere.archive`),
+      ],
+      outInstructions: [
+        movedFromTo(
+          path.join(DEEP_GIFTWRAP_PREFIX, ARCHIVE_PREFIX, `magicgoeshere.archive`),
+          path.join(ARCHIVE_PREFIX, `magicgoeshere.archive`),
+        ),
+      ],
+    },
+  ],
+  [
+    `known subdirs inside three levels of 'giftwrap' directories`,
+    {
+      expectedInstallerType: InstallerType.MultiType,
+      inFiles: [
+        ...pathHierarchyFor(path.join(DEEPER_GIFTWRAP_PREFIX, REDS_PREFIX)),
+        path.join(DEEPER_GIFTWRAP_PREFIX, REDS_PREFIX, `rexmod`, `script.reds`),
+        ...pathHierarchyFor(path.join(DEEPER_GIFTWRAP_PREFIX, ARCHIVE_PREFIX)),
+        path.join(DEEPER_GIFTWRAP_PREFIX, ARCHIVE_PREFIX, `magicgoeshere.archive`),
+      ],
+      outInstructions: [
+        movedFromTo(
+          path.join(DEEPER_GIFTWRAP_PREFIX, REDS_PREFIX, `rexmod`, `script.reds`),
+          path.join(REDS_PREFIX, `rexmod`, `script.reds`),
+        ),
+        movedFromTo(
+          path.join(DEEPER_GIFTWRAP_PREFIX, ARCHIVE_PREFIX, `magicgoeshere.archive`),
+          path.join(ARCHIVE_PREFIX, `magicgoeshere.archive`),
+        ),
+      ],
+    },
+  ],
 ]);
 
 const examples: ExamplesForType = {
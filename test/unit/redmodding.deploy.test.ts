@@ -0,0 +1,167 @@
+import {
+  commandLineFor,
+  describeREDmodDeployErrors,
+  FileSizeAndTime,
+  makeREDdeployFingerprint,
+  parseREDmodDeployOutput,
+  planREDdeploy,
+  uniqueREDmodDeployErrors,
+  withOutputCapturedTo,
+} from "../../src/redmodding.deploy";
+import {
+  REDmodDeployCategory,
+  REDmodDeployError,
+} from "../../src/redmodding.types";
+import {
+  heredoc,
+} from "../../src/util.functions";
+
+const FAKE_GAMEDIR_PATH = `C:\\fake\\gamedir`;
+
+
+describe(`REDmod deployment output`, () => {
+
+  test(`is captured by redirecting it to a file`, () => {
+    const captured = withOutputCapturedTo(
+      { executable: `redMod.exe`, args: [`deploy`], options: {} },
+      `${FAKE_GAMEDIR_PATH}\\V2077\\redmod-deploy-output.txt`,
+    );
+
+    expect(captured.args).toEqual([`deploy`, `>`, `"${FAKE_GAMEDIR_PATH}\\V2077\\redmod-deploy-output.txt"`, `2>&1`]);
+  });
+
+  test(`is shown with the command line that produced it`, () => {
+    const captured = withOutputCapturedTo(
+      { executable: `${FAKE_GAMEDIR_PATH}\\tools\\redmod\\bin\\redMod.exe`, args: [`deploy`, `-force`], options: {} },
+      `output.txt`,
+    );
+
+    expect(commandLineFor(captured))
+      .toEqual(`"${FAKE_GAMEDIR_PATH}\\tools\\redmod\\bin\\redMod.exe" deploy -force > "output.txt" 2>&1`);
+  });
+
+  test(`has no errors when everything went fine`, () => {
+    const output = heredoc(`
+      [ INFO - Mon Dec 12 12:00:00 2022 ] Deploying mods...
+      [ INFO - Mon Dec 12 12:00:01 2022 ] Compiling scripts...
+      [ INFO - Mon Dec 12 12:00:05 2022 ] Scripts compiled successfully.
+      [ INFO - Mon Dec 12 12:00:06 2022 ] Mods deployed.
+    `);
+
+    expect(parseREDmodDeployOutput(output)).toEqual([]);
+  });
+
+  test(`errors are attributed to the mod and category they're about`, () => {
+    const output = heredoc(`
+      [ INFO - Mon Dec 12 12:00:00 2022 ] Deploying mods...
+      [ INFO - Mon Dec 12 12:00:01 2022 ] Compiling scripts...
+      [ ERROR - Mon Dec 12 12:00:02 2022 ] C:\\fake\\gamedir\\mods\\BrokenScripts\\scripts\\thing.script(12,3): Unexpected token
+      [ INFO - Mon Dec 12 12:00:03 2022 ] Merging tweaks...
+      [ ERROR - Mon Dec 12 12:00:04 2022 ] Failed to load mod 'BadTweaks': invalid record
+      [ ERROR - Mon Dec 12 12:00:05 2022 ] Sound bank for mod "LoudMod" is missing
+    `);
+
+    expect(parseREDmodDeployOutput(output)).toEqual([
+      {
+        modName: `BrokenScripts`,
+        category: REDmodDeployCategory.Scripts,
+        message: `C:\\fake\\gamedir\\mods\\BrokenScripts\\scripts\\thing.script(12,3): Unexpected token`,
+      },
+      {
+        modName: `BadTweaks`,
+        category: REDmodDeployCategory.Tweaks,
+        message: `Failed to load mod 'BadTweaks': invalid record`,
+      },
+      {
+        modName: `LoudMod`,
+        category: REDmodDeployCategory.Sounds,
+        message: `Sound bank for mod "LoudMod" is missing`,
+      },
+    ]);
+  });
+
+  test(`unprefixed error lines are found too, even when the mod isn't known`, () => {
+    const output = `Deploying mods...\r\nError: something went very wrong\r\n`;
+
+    expect(parseREDmodDeployOutput(output)).toEqual([
+      {
+        modName: undefined,
+        category: REDmodDeployCategory.Other,
+        message: `Error: something went very wrong`,
+      },
+    ]);
+  });
+
+  test(`errors that are both printed and logged are only reported once`, () => {
+    const error: REDmodDeployError = {
+      modName: `BadTweaks`,
+      category: REDmodDeployCategory.Tweaks,
+      message: `invalid record`,
+    };
+
+    expect(uniqueREDmodDeployErrors([error, { ...error }])).toEqual([error]);
+  });
+
+  test(`errors are described with the mod name, and only the first few are listed`, () => {
+    const errors: REDmodDeployError[] = [...Array(7).keys()].map((index) => ({
+      modName: index === 0 ? undefined : `Mod${index}`,
+      category: REDmodDeployCategory.Scripts,
+      message: `broken ${index}`,
+    }));
+
+    expect(describeREDmodDeployErrors(errors)).toEqual([
+      `Unknown mod (scripts): broken 0`,
+      `Mod1 (scripts): broken 1`,
+      `Mod2 (scripts): broken 2`,
+      `Mod3 (scripts): broken 3`,
+      `Mod4 (scripts): broken 4`,
+      `...and 2 more, check the log for the rest!`,
+    ].join(`\n`));
+  });
+});
+
+
+describe(`REDmod deployment fingerprint`, () => {
+  const files: FileSizeAndTime[] = [
+    { relativePath: `mods\\A\\info.json`, size: 100, mtimeMs: 1000 },
+    { relativePath: `mods\\B\\scripts\\b.script`, size: 200, mtimeMs: 2000 },
+  ];
+
+  test(`doesn't depend on the order the files were found in`, () => {
+    expect(makeREDdeployFingerprint([`A`, `B`], files))
+      .toEqual(makeREDdeployFingerprint([`A`, `B`], [files[1], files[0]]));
+  });
+
+  test(`changes with the modlist and with the files separately`, () => {
+    const fingerprint = makeREDdeployFingerprint([`A`, `B`], files);
+    const reordered = makeREDdeployFingerprint([`B`, `A`], files);
+    const touched = makeREDdeployFingerprint([`A`, `B`], [files[0], { ...files[1], mtimeMs: 3000 }]);
+
+    expect(reordered.modList).not.toEqual(fingerprint.modList);
+    expect(reordered.content).toEqual(fingerprint.content);
+    expect(touched.modList).toEqual(fingerprint.modList);
+    expect(touched.content).not.toEqual(fingerprint.content);
+  });
+
+  test(`means there's nothing to deploy when it matches the last successful run`, () => {
+    const fingerprint = makeREDdeployFingerprint([`A`, `B`], files);
+
+    expect(planREDdeploy(fingerprint, { ...fingerprint })).toEqual({ needed: false, force: false });
+  });
+
+  test(`only forces the deployment when the modlist has changed`, () => {
+    const fingerprint = makeREDdeployFingerprint([`A`, `B`], files);
+
+    expect(planREDdeploy(fingerprint, { ...fingerprint, content: `changed` }))
+      .toEqual({ needed: true, force: false });
+    expect(planREDdeploy(fingerprint, { ...fingerprint, modList: `changed` }))
+      .toEqual({ needed: true, force: true });
+  });
+
+  test(`forces the deployment when there's nothing to compare to`, () => {
+    const fingerprint = makeREDdeployFingerprint([`A`, `B`], files);
+
+    expect(planREDdeploy(undefined, fingerprint)).toEqual({ needed: true, force: true });
+    expect(planREDdeploy(fingerprint, undefined)).toEqual({ needed: true, force: true });
+  });
+});
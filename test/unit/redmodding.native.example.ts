@@ -0,0 +1,53 @@
+// The `r6\cache\modded\mods.json` that deploying the example v2077
+// load order should produce when all of it is archives only.
+//
+// NB: this was NOT recorded from a redMod run. It's written by hand to
+// the layout of the file redMod leaves behind, so it only shows that
+// we produce what we think redMod does. Replace it with the file from
+// an actual `redMod.exe deploy` of these REDmods when one's available.
+export const modsJsonForArchiveOnlyLoadOrder = `
+  {
+    "mods": [
+      {
+        "name": "#POPPY DRESS (V2077 Autoconverted)",
+        "folder": "#POPPY DRESS (V2077 Autoconverted)",
+        "enabled": true,
+        "deployed": true,
+        "deployedVersion": "0.0.1-V2077+V2077RED",
+        "customSounds": []
+      },
+      {
+        "name": "AuskaWorks - Guinevere's Always-On Chrome",
+        "folder": "AuskaWorks - Guinevere's Always-On Chrome",
+        "enabled": true,
+        "deployed": true,
+        "deployedVersion": "1.0",
+        "customSounds": []
+      },
+      {
+        "name": "Better_Apartment_Views",
+        "folder": "Better_Apartment_Views",
+        "enabled": true,
+        "deployed": true,
+        "deployedVersion": "1.e3",
+        "customSounds": []
+      },
+      {
+        "name": "PanamRomancedEnhanced",
+        "folder": "PanamRomancedEnhanced",
+        "enabled": true,
+        "deployed": true,
+        "deployedVersion": "1.4",
+        "customSounds": []
+      },
+      {
+        "name": "PanamRomancedEnhancedPrivacy",
+        "folder": "PanamRomancedEnhancedPrivacy",
+        "enabled": true,
+        "deployed": true,
+        "deployedVersion": "1.4",
+        "customSounds": []
+      }
+    ]
+  }
+`;
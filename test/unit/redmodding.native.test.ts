@@ -0,0 +1,40 @@
+import {
+  canDeployNatively,
+  encodeREDmodModsJson,
+  makeREDmodModsJson,
+  REDmodToDeployNatively,
+} from "../../src/redmodding.native";
+
+import * as loTestData from "./loadorder.example";
+import * as nativeTestData from "./redmodding.native.example";
+
+const withSubtypes = (subtypes: string[]): REDmodToDeployNatively[] =>
+  loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning.map((entry) => ({ entry, subtypes }));
+
+
+describe(`Native REDmod deployment`, () => {
+
+  test(`is possible when every REDmod only has archives`, () => {
+    expect(canDeployNatively(withSubtypes([`archives`]))).toBe(true);
+  });
+
+  test(`isn't possible when any REDmod has something else that redMod needs to deploy`, () => {
+    const [first, ...rest] = withSubtypes([`archives`]);
+
+    expect(canDeployNatively([{ ...first, subtypes: [`archives`, `scripts`] }, ...rest])).toBe(false);
+    expect(canDeployNatively([{ ...first, subtypes: [`tweaks`] }, ...rest])).toBe(false);
+    expect(canDeployNatively([{ ...first, subtypes: [] }, ...rest])).toBe(false);
+  });
+
+  test(`is possible when there's nothing to deploy, and writes an empty list`, () => {
+    expect(canDeployNatively([])).toBe(true);
+    expect(makeREDmodModsJson([])).toEqual({ mods: [] });
+  });
+
+  test(`writes mods.json with the REDmods in load order`, () => {
+    const modsJson = makeREDmodModsJson(loTestData.v2077LoadOrder.entriesInOrderWithEarlierWinning);
+
+    expect(JSON.parse(encodeREDmodModsJson(modsJson)))
+      .toEqual(JSON.parse(nativeTestData.modsJsonForArchiveOnlyLoadOrder));
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  isREDdeployLockStale,
+  isUnreadableREDdeployLockStale,
+  makeREDdeployCancellation,
+  makeREDdeployLock,
+  makeREDdeployQueue,
+} from "../../src/redmodding.queue";
+import {
+  REDdeployCancellation,
+  REDdeployJobSummary,
+  REDdeployQueueState,
+} from "../../src/redmodding.types";
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+const deferred = (): Deferred => {
+  let resolve: () => void;
+  const promise = new Promise<void>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+// Lets the queue get on with whatever it does next
+const settle = (): Promise<void> =>
+  new Promise((resolve) => { setImmediate(resolve); });
+
+
+describe(`REDmod deployment queue`, () => {
+
+  test(`runs one deployment at a time, replacing the one waiting with the newest`, async () => {
+    const runs: Record<number, Deferred> = {};
+    const started: number[] = [];
+
+    const queue = makeREDdeployQueue<REDdeployJobSummary>(
+      (job) => {
+        started.push(job.loID);
+        runs[job.loID] = deferred();
+        return runs[job.loID].promise;
+      },
+      () => undefined,
+    );
+
+    const first = queue.request({ loID: 1 });
+    const second = queue.request({ loID: 2 });
+    const third = queue.request({ loID: 3 });
+
+    expect(started).toEqual([1]);
+    expect(queue.state()).toEqual({ running: { loID: 1 }, pending: { loID: 3 } });
+
+    runs[1].resolve();
+    await first;
+    await settle();
+
+    expect(started).toEqual([1, 3]);
+
+    runs[3].resolve();
+    await Promise.all([second, third]);
+
+    expect(queue.state()).toEqual({});
+  });
+
+  test(`carries on after a deployment fails`, async () => {
+    const started: number[] = [];
+
+    const queue = makeREDdeployQueue<REDdeployJobSummary>(
+      (job) => {
+        started.push(job.loID);
+        return job.loID === 1 ? Promise.reject(new Error(`boom`)) : Promise.resolve();
+      },
+      () => undefined,
+    );
+
+    await Promise.all([queue.request({ loID: 1 }), queue.request({ loID: 2 })]);
+
+    expect(started).toEqual([1, 2]);
+  });
+
+  test(`reports every change in what's running and waiting`, async () => {
+    const states: REDdeployQueueState[] = [];
+
+    const queue = makeREDdeployQueue<REDdeployJobSummary>(
+      () => Promise.resolve(),
+      (state) => { states.push(state); },
+    );
+
+    await queue.request({ loID: 1 });
+
+    expect(states).toEqual([
+      { pending: { loID: 1 } },
+      { running: { loID: 1 } },
+      {},
+    ]);
+  });
+
+  test(`cancels only the deployment that's running`, async () => {
+    const run = deferred();
+    let runningCancellation: REDdeployCancellation;
+
+    const queue = makeREDdeployQueue<REDdeployJobSummary>(
+      (_job, cancellation) => {
+        runningCancellation = cancellation;
+        return run.promise;
+      },
+      () => undefined,
+    );
+
+    expect(queue.cancelRunning()).toBe(false);
+
+    const request = queue.request({ loID: 1 });
+
+    expect(queue.cancelRunning()).toBe(true);
+    expect(runningCancellation.isCancelled()).toBe(true);
+
+    run.resolve();
+    await request;
+
+    expect(queue.cancelRunning()).toBe(false);
+  });
+});
+
+
+describe(`REDmod deployment cancellation`, () => {
+
+  test(`calls the handlers once, including ones added after cancelling`, () => {
+    const cancellation = makeREDdeployCancellation();
+    const cancelled: string[] = [];
+
+    cancellation.onCancel(() => { cancelled.push(`before`); });
+    cancellation.cancel();
+    cancellation.cancel();
+    cancellation.onCancel(() => { cancelled.push(`after`); });
+
+    expect(cancelled).toEqual([`before`, `after`]);
+  });
+});
+
+
+describe(`REDmod deployment lock`, () => {
+  const OWN_PID = 1000;
+  const OTHER_PID = 2000;
+
+  const NOW = Date.parse(`2023-01-01T12:00:00.000Z`);
+  const SECOND = 1000;
+  const HOUR = 60 * 60 * SECOND;
+
+  test(`is stale when the process that took it is gone`, () => {
+    const lock = makeREDdeployLock(OTHER_PID, 1, NOW);
+
+    expect(isREDdeployLockStale(lock, OWN_PID, () => false, NOW)).toBe(true);
+    expect(isREDdeployLockStale(lock, OWN_PID, () => true, NOW)).toBe(false);
+  });
+
+  test(`is stale when it's our own`, () => {
+    expect(isREDdeployLockStale(makeREDdeployLock(OWN_PID, 1, NOW), OWN_PID, () => true, NOW)).toBe(true);
+  });
+
+  test(`is stale when it's older than any deployment takes, even if the process seems to be there`, () => {
+    const lock = makeREDdeployLock(OTHER_PID, 1, NOW - 2 * HOUR);
+
+    expect(isREDdeployLockStale(lock, OWN_PID, () => true, NOW)).toBe(true);
+  });
+
+  test(`is stale when it doesn't say when it was taken`, () => {
+    const lock = { ...makeREDdeployLock(OTHER_PID, 1, NOW), lockedAt: `whenever` };
+
+    expect(isREDdeployLockStale(lock, OWN_PID, () => true, NOW)).toBe(true);
+  });
+
+  test(`that can't be read is only stale once it's been that way for a few seconds`, () => {
+    expect(isUnreadableREDdeployLockStale(NOW - SECOND, NOW)).toBe(false);
+    expect(isUnreadableREDdeployLockStale(NOW - 10 * SECOND, NOW)).toBe(true);
+    expect(isUnreadableREDdeployLockStale(Number.NaN, NOW)).toBe(true);
+  });
+});